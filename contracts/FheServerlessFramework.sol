@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract FheServerlessFramework is SepoliaConfig {
@@ -11,6 +12,7 @@ contract FheServerlessFramework is SepoliaConfig {
         euint32 encryptedInput;
         euint32 encryptedParameters;
         uint256 timestamp;
+        address owner;
     }
 
     struct DecryptedFunction {
@@ -19,24 +21,198 @@ contract FheServerlessFramework is SepoliaConfig {
         bool executed;
     }
 
+    struct RevealedStats {
+        uint32 count;
+        uint256 revealedAtBlock;
+    }
+
+    // Program instructions operate on registers: register 0 holds the
+    // function's encrypted input, register 1 its encrypted parameters, and
+    // instruction i writes register i + 2. The last register is the result.
+    // `Arg` loads input `imm` of the execution, see executeProgramWithInputs.
+    enum Op {
+        Const,
+        Add,
+        Sub,
+        Mul,
+        Div,
+        Rem,
+        Min,
+        Max,
+        Eq,
+        Ne,
+        Lt,
+        Le,
+        Gt,
+        Ge,
+        And,
+        Or,
+        Xor,
+        Not,
+        Neg,
+        Shl,
+        Shr,
+        Rotl,
+        Rotr,
+        Select,
+        Cast,
+        Arg
+    }
+
+    enum ValueType {
+        Uint32,
+        Bool
+    }
+
+    // `a`, `b` and `c` are register indices. When `scalar` is set, `imm`
+    // replaces `b` as a plaintext operand. `Const` only uses `imm`.
+    struct Instruction {
+        Op op;
+        uint8 a;
+        uint8 b;
+        uint8 c;
+        bool scalar;
+        uint32 imm;
+    }
+
+    // Metered calls. Decryption charges are held in escrow until the oracle
+    // callback lands, and can be refunded once the request expires.
+    enum ChargeKind {
+        Submission,
+        Decryption,
+        StatsDecryption,
+        ProgramExecution,
+        ExecutionDecryption
+    }
+
+    // Review status of a submitted function. Reviewers verify or reject
+    // pending functions; a verified function can later be deprecated by its
+    // owner or a reviewer. Rejected and deprecated are final.
+    enum FunctionStatus {
+        Pending,
+        Verified,
+        Rejected,
+        Deprecated
+    }
+
+    struct Escrow {
+        address payer;
+        uint256 amount;
+        uint256 deadline;
+    }
+
+    struct Program {
+        uint256 id;
+        string name;
+        address owner;
+        uint256 timestamp;
+    }
+
+    struct ProgramExecution {
+        uint256 id;
+        uint256 programId;
+        uint256 functionId;
+        euint32 result;
+        address executor;
+        uint256 timestamp;
+    }
+
+    struct RevealedResult {
+        uint32 value;
+        bool revealed;
+    }
+
     uint256 public functionCount;
     mapping(uint256 => EncryptedFunction) public encryptedFunctions;
     mapping(uint256 => DecryptedFunction) public decryptedFunctions;
 
     mapping(string => euint32) private encryptedExecutionStats;
     string[] private functionList;
+    mapping(string => RevealedStats) private revealedExecutionStats;
 
     mapping(uint256 => uint256) private requestToFunctionId;
+    mapping(uint256 => string) private requestToStatsName;
+
+    uint256 public constant MAX_PROGRAM_LENGTH = 64;
+    uint256 public programCount;
+    mapping(uint256 => Program) public programs;
+    mapping(uint256 => Instruction[]) private programInstructions;
+
+    uint256 public executionCount;
+    mapping(uint256 => ProgramExecution) public executions;
+    mapping(uint256 => RevealedResult) private revealedResults;
+    mapping(uint256 => uint256) private requestToExecutionId;
+
+    address public admin;
+    uint256 public submissionPrice;
+    uint256 public decryptionPricePerHandle;
+    uint256 public decryptionTimeout = 1 days;
+    mapping(Op => uint256) public opPrices;
+    mapping(address => uint256) public balances;
+    mapping(uint256 => Escrow) public escrows;
+    uint256 public collectedFees;
+
+    mapping(uint256 => FunctionStatus) public functionStatus;
+    // Hash of the execution schema (program and parameters) the owner declared
+    // in the function's off-chain record, which anyone can overwrite
+    mapping(uint256 => bytes32) public functionSchemas;
+    mapping(address => bool) public reviewers;
 
     event FunctionSubmitted(uint256 indexed id, uint256 timestamp);
     event DecryptionRequested(uint256 indexed id);
     event FunctionExecuted(uint256 indexed id);
+    event FunctionAccessGranted(uint256 indexed id, address indexed account);
+    event ExecutionStatsRevealed(string indexed fnName, uint32 count, uint256 blockNumber);
+    event ProgramRegistered(uint256 indexed programId, address indexed owner, string name);
+    event ProgramExecuted(uint256 indexed executionId, uint256 indexed programId, uint256 indexed functionId);
+    event ExecutionDecryptionRequested(uint256 indexed executionId, uint256 indexed requestId);
+    event ExecutionResultRevealed(uint256 indexed executionId, uint32 result);
+    event Deposited(address indexed account, uint256 amount);
+    event Withdrawn(address indexed account, uint256 amount);
+    event Charged(address indexed account, ChargeKind indexed kind, uint256 indexed ref, uint256 amount);
+    event EscrowReleased(uint256 indexed requestId, address indexed payer, uint256 amount);
+    event EscrowRefunded(uint256 indexed requestId, address indexed payer, uint256 amount);
+    event PricesUpdated(uint256 submissionPrice, uint256 decryptionPricePerHandle, uint256 decryptionTimeout);
+    event OpPriceUpdated(Op indexed op, uint256 price);
+    event FeesWithdrawn(address indexed to, uint256 amount);
+    event ReviewerUpdated(address indexed account, bool enabled);
+    event FunctionSchemaSet(uint256 indexed id, bytes32 schemaHash);
+    event FunctionStatusChanged(
+        uint256 indexed id,
+        FunctionStatus from,
+        FunctionStatus to,
+        address indexed actor,
+        string reason
+    );
 
     modifier onlyOwner(uint256 functionId) {
+        address owner = encryptedFunctions[functionId].owner;
+        require(owner != address(0), "Function not found");
+        require(owner == msg.sender, "Not function owner");
+        _;
+    }
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not admin");
         _;
     }
 
-    function submitEncryptedFunction(euint32 encryptedInput, euint32 encryptedParameters) public {
+    constructor() {
+        admin = msg.sender;
+    }
+
+    function submitEncryptedFunction(
+        externalEuint32 encryptedInputHandle,
+        externalEuint32 encryptedParametersHandle,
+        bytes calldata inputProof
+    ) public payable {
+        euint32 encryptedInput = FHE.fromExternal(encryptedInputHandle, inputProof);
+        euint32 encryptedParameters = FHE.fromExternal(encryptedParametersHandle, inputProof);
+        FHE.allowThis(encryptedInput);
+        FHE.allowThis(encryptedParameters);
+        FHE.allow(encryptedInput, msg.sender);
+        FHE.allow(encryptedParameters, msg.sender);
+
         functionCount += 1;
         uint256 newId = functionCount;
 
@@ -44,7 +220,8 @@ contract FheServerlessFramework is SepoliaConfig {
             id: newId,
             encryptedInput: encryptedInput,
             encryptedParameters: encryptedParameters,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            owner: msg.sender
         });
 
         decryptedFunctions[newId] = DecryptedFunction({
@@ -53,10 +230,13 @@ contract FheServerlessFramework is SepoliaConfig {
             executed: false
         });
 
+        charge(ChargeKind.Submission, newId, submissionPrice);
+        collectedFees += submissionPrice;
+
         emit FunctionSubmitted(newId, block.timestamp);
     }
 
-    function requestFunctionDecryption(uint256 functionId) public onlyOwner(functionId) {
+    function requestFunctionDecryption(uint256 functionId) public payable onlyOwner(functionId) {
         EncryptedFunction storage fn = encryptedFunctions[functionId];
         require(!decryptedFunctions[functionId].executed, "Already executed");
 
@@ -66,32 +246,86 @@ contract FheServerlessFramework is SepoliaConfig {
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptFunction.selector);
         requestToFunctionId[reqId] = functionId;
+        chargeEscrow(ChargeKind.Decryption, reqId, 2 * decryptionPricePerHandle);
 
         emit DecryptionRequested(functionId);
     }
 
+    function grantFunctionAccess(uint256 functionId, address account) public onlyOwner(functionId) {
+        require(account != address(0), "Invalid account");
+        EncryptedFunction storage fn = encryptedFunctions[functionId];
+
+        FHE.allow(fn.encryptedInput, account);
+        FHE.allow(fn.encryptedParameters, account);
+
+        emit FunctionAccessGranted(functionId, account);
+    }
+
+    function hasFunctionAccess(uint256 functionId, address account) public view returns (bool) {
+        EncryptedFunction storage fn = encryptedFunctions[functionId];
+        if (fn.owner == address(0)) {
+            return false;
+        }
+        return FHE.isAllowed(fn.encryptedInput, account) && FHE.isAllowed(fn.encryptedParameters, account);
+    }
+
+    /// Binds the function to the execution schema with hash `schemaHash`;
+    /// clients only run a schema from the record when it hashes to this.
+    function setFunctionSchema(uint256 functionId, bytes32 schemaHash) public onlyOwner(functionId) {
+        functionSchemas[functionId] = schemaHash;
+        emit FunctionSchemaSet(functionId, schemaHash);
+    }
+
+    /// Moves `functionId` along Pending -> Verified | Rejected and
+    /// Verified -> Deprecated. The admin counts as a reviewer.
+    function setFunctionStatus(uint256 functionId, FunctionStatus to, string calldata reason) public {
+        address owner = encryptedFunctions[functionId].owner;
+        require(owner != address(0), "Function not found");
+        FunctionStatus from = functionStatus[functionId];
+        bool reviewer = reviewers[msg.sender] || msg.sender == admin;
+
+        if (from == FunctionStatus.Pending && (to == FunctionStatus.Verified || to == FunctionStatus.Rejected)) {
+            require(reviewer, "Not reviewer");
+        } else if (from == FunctionStatus.Verified && to == FunctionStatus.Deprecated) {
+            require(reviewer || msg.sender == owner, "Not reviewer");
+        } else {
+            revert("Invalid transition");
+        }
+
+        functionStatus[functionId] = to;
+        emit FunctionStatusChanged(functionId, from, to, msg.sender, reason);
+    }
+
+    function aclAddress() public view returns (address) {
+        return Impl.getCoprocessorConfig().ACLAddress;
+    }
+
     function decryptFunction(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         uint256 functionId = requestToFunctionId[requestId];
         require(functionId != 0, "Invalid request");
 
         FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToFunctionId[requestId];
+        releaseEscrow(requestId);
 
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
+        // The oracle ABI-encodes the cleartexts as a static tuple, one word per handle.
+        (uint32 input, uint32 parameters) = abi.decode(cleartexts, (uint32, uint32));
         DecryptedFunction storage df = decryptedFunctions[functionId];
 
-        df.input = results[0];
-        df.parameters = results[1];
+        df.input = input;
+        df.parameters = parameters;
         df.executed = true;
 
-        if (!FHE.isInitialized(encryptedExecutionStats[functionList[functionId % functionList.length]])) {
-            encryptedExecutionStats[functionList[functionId % functionList.length]] = FHE.asEuint32(0);
-            functionList.push(string(abi.encodePacked("fn_", uint2str(functionId))));
+        string memory fnName = string(abi.encodePacked("fn_", uint2str(functionId)));
+        euint32 count = encryptedExecutionStats[fnName];
+        if (!FHE.isInitialized(count)) {
+            count = FHE.asEuint32(0);
+            functionList.push(fnName);
         }
 
-        encryptedExecutionStats[functionList[functionId % functionList.length]] = FHE.add(
-            encryptedExecutionStats[functionList[functionId % functionList.length]],
-            FHE.asEuint32(1)
-        );
+        count = FHE.add(count, FHE.asEuint32(1));
+        FHE.allowThis(count);
+        encryptedExecutionStats[fnName] = count;
 
         emit FunctionExecuted(functionId);
     }
@@ -105,7 +339,7 @@ contract FheServerlessFramework is SepoliaConfig {
         return encryptedExecutionStats[fnName];
     }
 
-    function requestExecutionStatsDecryption(string memory fnName) public {
+    function requestExecutionStatsDecryption(string memory fnName) public payable {
         euint32 count = encryptedExecutionStats[fnName];
         require(FHE.isInitialized(count), "Function not found");
 
@@ -113,15 +347,450 @@ contract FheServerlessFramework is SepoliaConfig {
         ciphertexts[0] = FHE.toBytes32(count);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptExecutionStats.selector);
-        requestToFunctionId[reqId] = uint256(keccak256(abi.encodePacked(fnName)));
+        requestToStatsName[reqId] = fnName;
+        chargeEscrow(ChargeKind.StatsDecryption, reqId, decryptionPricePerHandle);
     }
 
     function decryptExecutionStats(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        uint256 fnHash = requestToFunctionId[requestId];
+        string memory fnName = requestToStatsName[requestId];
+        require(bytes(fnName).length != 0, "Invalid request");
 
         FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToStatsName[requestId];
+        releaseEscrow(requestId);
 
         uint32 count = abi.decode(cleartexts, (uint32));
+        revealedExecutionStats[fnName] = RevealedStats({
+            count: count,
+            revealedAtBlock: block.number
+        });
+
+        emit ExecutionStatsRevealed(fnName, count, block.number);
+    }
+
+    function getRevealedExecutionStats(string memory fnName) public view returns (uint32 count, uint256 revealedAtBlock) {
+        RevealedStats storage stats = revealedExecutionStats[fnName];
+        return (stats.count, stats.revealedAtBlock);
+    }
+
+    function getExecutionStatsNames() public view returns (string[] memory) {
+        return functionList;
+    }
+
+    function registerProgram(string calldata name, Instruction[] calldata instructions) public returns (uint256) {
+        require(instructions.length > 0, "Empty program");
+        require(instructions.length <= MAX_PROGRAM_LENGTH, "Program too long");
+
+        ValueType[] memory types = new ValueType[](instructions.length + 2);
+        for (uint256 i = 0; i < instructions.length; i++) {
+            types[i + 2] = resultType(instructions[i], types, i + 2);
+        }
+        require(types[types.length - 1] == ValueType.Uint32, "Result must be euint32");
+
+        programCount += 1;
+        uint256 newId = programCount;
+
+        programs[newId] = Program({
+            id: newId,
+            name: name,
+            owner: msg.sender,
+            timestamp: block.timestamp
+        });
+        Instruction[] storage stored = programInstructions[newId];
+        for (uint256 i = 0; i < instructions.length; i++) {
+            stored.push(instructions[i]);
+        }
+
+        emit ProgramRegistered(newId, msg.sender, name);
+        return newId;
+    }
+
+    function getProgramInstructions(uint256 programId) public view returns (Instruction[] memory) {
+        return programInstructions[programId];
+    }
+
+    function executeProgram(uint256 programId, uint256 functionId) public payable onlyOwner(functionId) returns (uint256) {
+        return runProgram(programId, functionId, new euint32[](0));
+    }
+
+    /// Executes `programId` with encrypted inputs of the caller, which the
+    /// program reads with `Arg` instructions.
+    function executeProgramWithInputs(
+        uint256 programId,
+        uint256 functionId,
+        externalEuint32[] calldata inputs,
+        bytes calldata inputProof
+    ) public payable onlyOwner(functionId) returns (uint256) {
+        euint32[] memory args = new euint32[](inputs.length);
+        for (uint256 i = 0; i < inputs.length; i++) {
+            args[i] = FHE.fromExternal(inputs[i], inputProof);
+        }
+        return runProgram(programId, functionId, args);
+    }
+
+    function getExecutionResult(uint256 executionId) public view returns (euint32) {
+        return executions[executionId].result;
+    }
+
+    /// Publicly decrypts the result of an execution of the caller; the
+    /// oracle answers through decryptExecutionResult.
+    function requestExecutionDecryption(uint256 executionId) public payable {
+        ProgramExecution storage execution = executions[executionId];
+        require(execution.executor != address(0), "Execution not found");
+        require(execution.executor == msg.sender, "Not executor");
+        require(!revealedResults[executionId].revealed, "Already revealed");
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(execution.result);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptExecutionResult.selector);
+        requestToExecutionId[reqId] = executionId;
+        chargeEscrow(ChargeKind.ExecutionDecryption, reqId, decryptionPricePerHandle);
+
+        emit ExecutionDecryptionRequested(executionId, reqId);
+    }
+
+    function decryptExecutionResult(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 executionId = requestToExecutionId[requestId];
+        require(executionId != 0, "Invalid request");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToExecutionId[requestId];
+        releaseEscrow(requestId);
+
+        uint32 value = abi.decode(cleartexts, (uint32));
+        revealedResults[executionId] = RevealedResult({ value: value, revealed: true });
+
+        emit ExecutionResultRevealed(executionId, value);
+    }
+
+    function getRevealedResult(uint256 executionId) public view returns (uint32 value, bool revealed) {
+        RevealedResult storage result = revealedResults[executionId];
+        return (result.value, result.revealed);
+    }
+
+    function runProgram(uint256 programId, uint256 functionId, euint32[] memory args) private returns (uint256) {
+        require(programs[programId].owner != address(0), "Program not found");
+        EncryptedFunction storage fn = encryptedFunctions[functionId];
+
+        euint32 result = evaluate(programInstructions[programId], fn.encryptedInput, fn.encryptedParameters, args);
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        executionCount += 1;
+        uint256 newId = executionCount;
+
+        executions[newId] = ProgramExecution({
+            id: newId,
+            programId: programId,
+            functionId: functionId,
+            result: result,
+            executor: msg.sender,
+            timestamp: block.timestamp
+        });
+
+        uint256 price = quoteProgram(programId);
+        charge(ChargeKind.ProgramExecution, newId, price);
+        collectedFees += price;
+
+        emit ProgramExecuted(newId, programId, functionId);
+        return newId;
+    }
+
+    /// Price of one execution of `programId`: the sum of its instructions' op prices.
+    function quoteProgram(uint256 programId) public view returns (uint256 price) {
+        Instruction[] storage instructions = programInstructions[programId];
+        for (uint256 i = 0; i < instructions.length; i++) {
+            price += opPrices[instructions[i].op];
+        }
+    }
+
+    function setPrices(uint256 submission, uint256 decryptionPerHandle, uint256 timeout) public onlyAdmin {
+        require(timeout > 0, "Invalid timeout");
+        submissionPrice = submission;
+        decryptionPricePerHandle = decryptionPerHandle;
+        decryptionTimeout = timeout;
+        emit PricesUpdated(submission, decryptionPerHandle, timeout);
+    }
+
+    function setOpPrice(Op op, uint256 price) public onlyAdmin {
+        opPrices[op] = price;
+        emit OpPriceUpdated(op, price);
+    }
+
+    function setReviewer(address account, bool enabled) public onlyAdmin {
+        require(account != address(0), "Invalid account");
+        reviewers[account] = enabled;
+        emit ReviewerUpdated(account, enabled);
+    }
+
+    function deposit() public payable {
+        credit();
+    }
+
+    function withdraw(uint256 amount) public {
+        require(balances[msg.sender] >= amount, "Insufficient balance");
+        balances[msg.sender] -= amount;
+        emit Withdrawn(msg.sender, amount);
+        sendValue(payable(msg.sender), amount);
+    }
+
+    /// Refunds a decryption whose callback never landed before the deadline.
+    /// A late callback for the request is rejected afterwards.
+    function refundDecryption(uint256 requestId) public {
+        Escrow memory escrow = escrows[requestId];
+        require(escrow.amount > 0, "No escrow");
+        require(block.timestamp > escrow.deadline, "Decryption not expired");
+
+        delete escrows[requestId];
+        delete requestToFunctionId[requestId];
+        delete requestToStatsName[requestId];
+        delete requestToExecutionId[requestId];
+        balances[escrow.payer] += escrow.amount;
+
+        emit EscrowRefunded(requestId, escrow.payer, escrow.amount);
+    }
+
+    function withdrawFees(address payable to, uint256 amount) public onlyAdmin {
+        require(amount <= collectedFees, "Insufficient fees");
+        collectedFees -= amount;
+        emit FeesWithdrawn(to, amount);
+        sendValue(to, amount);
+    }
+
+    // Credits msg.value to the caller's balance, then debits `amount` from it.
+    function charge(ChargeKind kind, uint256 ref, uint256 amount) private {
+        credit();
+        require(balances[msg.sender] >= amount, "Insufficient balance");
+        balances[msg.sender] -= amount;
+        emit Charged(msg.sender, kind, ref, amount);
+    }
+
+    function chargeEscrow(ChargeKind kind, uint256 requestId, uint256 amount) private {
+        charge(kind, requestId, amount);
+        if (amount > 0) {
+            escrows[requestId] = Escrow({
+                payer: msg.sender,
+                amount: amount,
+                deadline: block.timestamp + decryptionTimeout
+            });
+        }
+    }
+
+    function releaseEscrow(uint256 requestId) private {
+        Escrow memory escrow = escrows[requestId];
+        if (escrow.amount > 0) {
+            delete escrows[requestId];
+            collectedFees += escrow.amount;
+            emit EscrowReleased(requestId, escrow.payer, escrow.amount);
+        }
+    }
+
+    function credit() private {
+        if (msg.value > 0) {
+            balances[msg.sender] += msg.value;
+            emit Deposited(msg.sender, msg.value);
+        }
+    }
+
+    function sendValue(address payable to, uint256 amount) private {
+        (bool ok, ) = to.call{ value: amount }("");
+        require(ok, "Transfer failed");
+    }
+
+    function evaluate(
+        Instruction[] storage instructions,
+        euint32 input,
+        euint32 parameters,
+        euint32[] memory args
+    ) private returns (euint32) {
+        uint256 length = instructions.length;
+        bytes32[] memory regs = new bytes32[](length + 2);
+        ValueType[] memory types = new ValueType[](length + 2);
+        regs[0] = euint32.unwrap(input);
+        regs[1] = euint32.unwrap(parameters);
+
+        for (uint256 i = 0; i < length; i++) {
+            Instruction memory ins = instructions[i];
+            types[i + 2] = resultType(ins, types, i + 2);
+            if (ins.op == Op.Arg) {
+                require(ins.imm < args.length, "Missing input");
+                regs[i + 2] = euint32.unwrap(args[ins.imm]);
+            } else {
+                regs[i + 2] = applyInstruction(ins, regs, types);
+            }
+        }
+        return euint32.wrap(regs[length + 1]);
+    }
+
+    // Validates the operands of `ins` against the `count` registers defined
+    // so far and returns the type of the register it writes.
+    function resultType(
+        Instruction memory ins,
+        ValueType[] memory types,
+        uint256 count
+    ) private pure returns (ValueType) {
+        Op op = ins.op;
+        if (op == Op.Const || op == Op.Arg) {
+            return ValueType.Uint32;
+        }
+
+        require(ins.a < count, "Invalid operand");
+        ValueType a = types[ins.a];
+        if (op == Op.Not) {
+            return a;
+        }
+        if (op == Op.Neg) {
+            require(a == ValueType.Uint32, "Type mismatch");
+            return ValueType.Uint32;
+        }
+        if (op == Op.Cast) {
+            require(a == ValueType.Bool, "Type mismatch");
+            return ValueType.Uint32;
+        }
+        if (op == Op.Select) {
+            require(!ins.scalar, "Select takes registers");
+            require(ins.b < count && ins.c < count, "Invalid operand");
+            require(a == ValueType.Bool && types[ins.b] == types[ins.c], "Type mismatch");
+            return types[ins.b];
+        }
+
+        ValueType b = a;
+        if (!ins.scalar) {
+            require(ins.b < count, "Invalid operand");
+            b = types[ins.b];
+        }
+        if (op == Op.And || op == Op.Or || op == Op.Xor) {
+            require(a == b, "Type mismatch");
+            return a;
+        }
+
+        require(a == ValueType.Uint32 && b == ValueType.Uint32, "Type mismatch");
+        if (op == Op.Div || op == Op.Rem) {
+            require(ins.scalar && ins.imm != 0, "Divisor must be a non-zero constant");
+        }
+        if (op == Op.Shl || op == Op.Shr || op == Op.Rotl || op == Op.Rotr) {
+            require(!ins.scalar || ins.imm <= type(uint8).max, "Shift amount out of range");
+            return ValueType.Uint32;
+        }
+        if (op >= Op.Eq && op <= Op.Ge) {
+            return ValueType.Bool;
+        }
+        return ValueType.Uint32;
+    }
+
+    function applyInstruction(
+        Instruction memory ins,
+        bytes32[] memory regs,
+        ValueType[] memory types
+    ) private returns (bytes32) {
+        Op op = ins.op;
+        if (op == Op.Const) {
+            return euint32.unwrap(FHE.asEuint32(ins.imm));
+        }
+        if (op == Op.Cast) {
+            return euint32.unwrap(FHE.asEuint32(ebool.wrap(regs[ins.a])));
+        }
+        if (op == Op.Select) {
+            ebool control = ebool.wrap(regs[ins.a]);
+            if (types[ins.b] == ValueType.Bool) {
+                return ebool.unwrap(FHE.select(control, ebool.wrap(regs[ins.b]), ebool.wrap(regs[ins.c])));
+            }
+            return euint32.unwrap(FHE.select(control, euint32.wrap(regs[ins.b]), euint32.wrap(regs[ins.c])));
+        }
+        if (types[ins.a] == ValueType.Bool) {
+            return ebool.unwrap(applyBool(ins, regs));
+        }
+
+        euint32 a = euint32.wrap(regs[ins.a]);
+        if (op == Op.Not) return euint32.unwrap(FHE.not(a));
+        if (op == Op.Neg) return euint32.unwrap(FHE.neg(a));
+        if (op == Op.Div) return euint32.unwrap(FHE.div(a, ins.imm));
+        if (op == Op.Rem) return euint32.unwrap(FHE.rem(a, ins.imm));
+        if (op >= Op.Shl && op <= Op.Rotr) {
+            return euint32.unwrap(applyShift(ins, a, regs));
+        }
+        if (op >= Op.Eq && op <= Op.Ge) {
+            return ebool.unwrap(applyCompare(ins, a, regs));
+        }
+        if (ins.scalar) {
+            return euint32.unwrap(applyScalar(op, a, ins.imm));
+        }
+
+        euint32 b = euint32.wrap(regs[ins.b]);
+        if (op == Op.Add) return euint32.unwrap(FHE.add(a, b));
+        if (op == Op.Sub) return euint32.unwrap(FHE.sub(a, b));
+        if (op == Op.Mul) return euint32.unwrap(FHE.mul(a, b));
+        if (op == Op.Min) return euint32.unwrap(FHE.min(a, b));
+        if (op == Op.Max) return euint32.unwrap(FHE.max(a, b));
+        if (op == Op.And) return euint32.unwrap(FHE.and(a, b));
+        if (op == Op.Or) return euint32.unwrap(FHE.or(a, b));
+        return euint32.unwrap(FHE.xor(a, b));
+    }
+
+    function applyScalar(Op op, euint32 a, uint32 b) private returns (euint32) {
+        if (op == Op.Add) return FHE.add(a, b);
+        if (op == Op.Sub) return FHE.sub(a, b);
+        if (op == Op.Mul) return FHE.mul(a, b);
+        if (op == Op.Min) return FHE.min(a, b);
+        if (op == Op.Max) return FHE.max(a, b);
+        if (op == Op.And) return FHE.and(a, b);
+        if (op == Op.Or) return FHE.or(a, b);
+        return FHE.xor(a, b);
+    }
+
+    function applyCompare(Instruction memory ins, euint32 a, bytes32[] memory regs) private returns (ebool) {
+        Op op = ins.op;
+        if (ins.scalar) {
+            if (op == Op.Eq) return FHE.eq(a, ins.imm);
+            if (op == Op.Ne) return FHE.ne(a, ins.imm);
+            if (op == Op.Lt) return FHE.lt(a, ins.imm);
+            if (op == Op.Le) return FHE.le(a, ins.imm);
+            if (op == Op.Gt) return FHE.gt(a, ins.imm);
+            return FHE.ge(a, ins.imm);
+        }
+
+        euint32 b = euint32.wrap(regs[ins.b]);
+        if (op == Op.Eq) return FHE.eq(a, b);
+        if (op == Op.Ne) return FHE.ne(a, b);
+        if (op == Op.Lt) return FHE.lt(a, b);
+        if (op == Op.Le) return FHE.le(a, b);
+        if (op == Op.Gt) return FHE.gt(a, b);
+        return FHE.ge(a, b);
+    }
+
+    function applyShift(Instruction memory ins, euint32 a, bytes32[] memory regs) private returns (euint32) {
+        Op op = ins.op;
+        if (ins.scalar) {
+            uint8 amount = uint8(ins.imm);
+            if (op == Op.Shl) return FHE.shl(a, amount);
+            if (op == Op.Shr) return FHE.shr(a, amount);
+            if (op == Op.Rotl) return FHE.rotl(a, amount);
+            return FHE.rotr(a, amount);
+        }
+
+        euint8 b = FHE.asEuint8(euint32.wrap(regs[ins.b]));
+        if (op == Op.Shl) return FHE.shl(a, b);
+        if (op == Op.Shr) return FHE.shr(a, b);
+        if (op == Op.Rotl) return FHE.rotl(a, b);
+        return FHE.rotr(a, b);
+    }
+
+    function applyBool(Instruction memory ins, bytes32[] memory regs) private returns (ebool) {
+        Op op = ins.op;
+        ebool a = ebool.wrap(regs[ins.a]);
+        if (op == Op.Not) return FHE.not(a);
+
+        if (ins.scalar) {
+            bool b = ins.imm != 0;
+            if (op == Op.And) return FHE.and(a, b);
+            if (op == Op.Or) return FHE.or(a, b);
+            return FHE.xor(a, b);
+        }
+        ebool rhs = ebool.wrap(regs[ins.b]);
+        if (op == Op.And) return FHE.and(a, rhs);
+        if (op == Op.Or) return FHE.or(a, rhs);
+        return FHE.xor(a, rhs);
     }
 
     function uint2str(uint256 _i) internal pure returns (string memory str) {
@@ -1,20 +1,80 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { DEFAULT_CHAIN_ID, FRAMEWORK_INTERFACE, config, manifests, getContractReadOnly, getContractWithSigner, getFrameworkReadOnly, getFrameworkWithSigner, paymentFor, selectDeployment, switchWalletChain } from "./contract";
+import { getDevWallet, isDevWallet, startDevWallet } from "./devWallet";
+import { describeError } from "./errors";
+import { assertUint32, encryptUint32Values, userDecryptUint32Values } from "./fhe";
+import { loadFunctionIndex } from "./functionIndex";
+import { FHEFunction, FUNCTION_SORTS, FunctionPage, FunctionQuery, FunctionSort, applyOnChainStatuses, clearFunctionCache, fetchFunctionPage, fromIndexed, functionQueryString, hasFilters, parseFunctionQuery, readFunctionRecords } from "./functionList";
+import { FUNCTION_STATUSES, FunctionStatusName, StatusChange, allowedTransitions, isReviewer, loadStatusHistory, statusValue } from "./functionStatus";
+import { PARAMETER_TYPES, ParameterDraft, ParameterType, emptyParameter, readFunctionSchema, schemaErrors, schemaFromDrafts, schemaHash } from "./functionSchema";
+import { fetchIndexedFunctions } from "./indexerClient";
+import { TrackedTransaction, listTransactions, settledTransaction, subscribeTransactions, trackTransaction, updateTransaction, waitForTransaction, watchTransactions } from "./txManager";
+import { functionDetailsHash, functionsHash, navigate, useRoute } from "./route";
+import DevWalletPanel from "./components/DevWalletPanel";
+import FunctionDetails from "./components/FunctionDetails";
+import TransactionHistory from "./components/TransactionHistory";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import { WalletInfo, discoverWallets, forgetWallet, getLastWalletId, getWalletProvider, rememberWallet, setWalletProvider } from "./wallets";
 import "./App.css";
 
-interface FHEFunction {
-  id: string;
+// Transactions that change function records; the list is reloaded when one confirms
+const FUNCTION_TX_KINDS = ["store", "index", "schema", "verify", "reject", "deprecate"];
+
+const STATUS_ACTIONS: Partial<Record<FunctionStatusName, { label: string; kind: string; pending: string; failure: string }>> = {
+  verified: { label: "Verify", kind: "verify", pending: "Verifying FHE function...", failure: "Verification failed" },
+  rejected: { label: "Reject", kind: "reject", pending: "Rejecting FHE function...", failure: "Rejection failed" },
+  deprecated: { label: "Deprecate", kind: "deprecate", pending: "Deprecating FHE function...", failure: "Deprecation failed" }
+};
+
+// A confirmed submission whose record and index entry were never written,
+// e.g. because the page was closed while waiting for it. One the wallet
+// replaced by itself is resumed from the original, which holds the function.
+const canResumeDeployment = (tx: TrackedTransaction) => {
+  if (tx.kind !== "submit" || !tx.meta || tx.meta.completed) return false;
+  if (tx.status === "confirmed") return true;
+  const replacement = settledTransaction(tx.hash);
+  return tx.status === "replaced" && replacement?.status === "confirmed" && !replacement.meta;
+};
+
+interface DecryptedValues {
+  input: number;
+  parameters: number;
+  mode: "private" | "public";
+}
+
+interface ExecutionStats {
+  fnName: string;
+  count: number;
+  revealedAtBlock: number;
+}
+
+const TABS = ["dashboard", "functions", "transactions", "team"];
+
+const CATEGORIES = ["Data Analysis", "Financial", "Machine Learning", "Healthcare", "Other"];
+
+interface NewFunctionData {
   name: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
   category: string;
-  status: "pending" | "verified" | "rejected";
+  description: string;
+  inputValue: string;
+  parameterValue: string;
+  // Optional: the program executions run and the inputs it reads
+  programId: string;
+  parameters: ParameterDraft[];
 }
 
+const emptyFunctionData = (): NewFunctionData => ({
+  name: "",
+  category: "",
+  description: "",
+  inputValue: "",
+  parameterValue: "",
+  programId: "",
+  parameters: []
+});
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -29,24 +89,117 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newFunctionData, setNewFunctionData] = useState({
-    name: "",
-    category: "",
-    description: ""
-  });
+  const [newFunctionData, setNewFunctionData] = useState(emptyFunctionData);
   const [showTutorial, setShowTutorial] = useState(false);
-  const [activeTab, setActiveTab] = useState("dashboard");
+  const route = useRoute();
+  const [activeTab, setActiveTab] = useState(() =>
+    route.tab && TABS.includes(route.tab) ? route.tab : "dashboard"
+  );
   const [categoryStats, setCategoryStats] = useState<Record<string, number>>({});
+  const [onChainFunctionCount, setOnChainFunctionCount] = useState<number | null>(null);
+  const [executionStats, setExecutionStats] = useState<ExecutionStats[]>([]);
+  const [decryptedValues, setDecryptedValues] = useState<Record<string, DecryptedValues>>({});
+  const [decryptingId, setDecryptingId] = useState<string | null>(null);
+  const [deployment, setDeployment] = useState({ chainId: config.chainId, network: config.network });
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(listTransactions);
+  const [reviewer, setReviewer] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<Record<string, StatusChange[]>>({});
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+  // The functions list only loads the page on screen; `pageCursors` are the
+  // cursors of the pages up to the current one, for going back
+  const [functionPage, setFunctionPage] = useState<FunctionPage>({ items: [], nextCursor: null });
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [pageLoading, setPageLoading] = useState(false);
+  const [pageVersion, setPageVersion] = useState(0);
+  const pageRequest = useRef(0);
+  // Removes the event listeners of the connected wallet
+  const detachWallet = useRef<(() => void) | null>(null);
+  const functionsQuery = useRef(route.tab === "functions" ? route.query : "");
 
-  // Calculate statistics for dashboard
-  const verifiedCount = functions.filter(f => f.status === "verified").length;
-  const pendingCount = functions.filter(f => f.status === "pending").length;
-  const rejectedCount = functions.filter(f => f.status === "rejected").length;
+  // Statistics for dashboard, as revealed by the decryption oracle
+  const revealedStats = executionStats.filter(s => s.revealedAtBlock > 0);
+  const totalRevealedExecutions = revealedStats.reduce((sum, s) => sum + s.count, 0);
+  const lastRevealBlock = revealedStats.reduce((max, s) => Math.max(max, s.revealedAtBlock), 0);
+  const pendingTransactions = transactions.filter(tx => tx.status === "pending").length;
+  const detailsFunction = route.functionId
+    ? functionPage.items.find(func => func.id === route.functionId) ??
+      functions.find(func => func.id === route.functionId)
+    : undefined;
+  const functionQuery = parseFunctionQuery(route.query);
 
   useEffect(() => {
     loadFunctions().finally(() => setLoading(false));
   }, []);
 
+  // Back and forward buttons, and links to a function's details
+  useEffect(() => {
+    if (route.tab && TABS.includes(route.tab)) {
+      setActiveTab(route.tab);
+    }
+  }, [route.tab, route.functionId]);
+
+  const selectTab = (tab: string) => {
+    setActiveTab(tab);
+    navigate(tab === "functions" ? functionsHash(functionsQuery.current) : `#/${tab}`);
+  };
+
+  const loadFunctionPage = async (cursors: (string | null)[]) => {
+    const request = ++pageRequest.current;
+    setPageLoading(true);
+    try {
+      const page = await fetchFunctionPage(functionQuery, cursors[cursors.length - 1]);
+      // A newer query or page may have been requested meanwhile
+      if (request !== pageRequest.current) return;
+      setFunctionPage(page);
+      setPageCursors(cursors);
+    } catch (e) {
+      console.error("Error loading functions:", e);
+    } finally {
+      if (request === pageRequest.current) setPageLoading(false);
+    }
+  };
+
+  // Filters live in the URL; changing them starts over at the first page.
+  // Typing waits for a pause before loading.
+  useEffect(() => {
+    if (activeTab !== "functions") return;
+    functionsQuery.current = route.query;
+    const timer = setTimeout(() => loadFunctionPage([null]), 250);
+    return () => clearTimeout(timer);
+  }, [activeTab, route.query, deployment.chainId, pageVersion]);
+
+  const updateFunctionQuery = (patch: Partial<FunctionQuery>, typing = false) => {
+    navigate(functionsHash(functionQueryString({ ...functionQuery, ...patch })), typing);
+  };
+
+  // Transactions sent before a reload are picked up again from local storage
+  useEffect(() => {
+    const unsubscribe = subscribeTransactions((list, changed) => {
+      setTransactions(list);
+      if (changed.some(tx => tx.status === "confirmed" && FUNCTION_TX_KINDS.includes(tx.kind))) {
+        loadFunctions();
+      }
+    });
+    const stopWatching = watchTransactions();
+    return () => {
+      unsubscribe();
+      stopWatching();
+    };
+  }, []);
+
+  // Reviewers verify and reject pending functions
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const framework = account ? await getFrameworkReadOnly() : null;
+      const allowed = framework ? await isReviewer(framework, account).catch(() => false) : false;
+      if (!cancelled) setReviewer(allowed);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [account, deployment.chainId]);
+
   useEffect(() => {
     // Calculate category statistics
     const stats: Record<string, number> = {};
@@ -56,33 +209,149 @@ const App: React.FC = () => {
     setCategoryStats(stats);
   }, [functions]);
 
-  const onWalletSelect = async (wallet: any) => {
+  // Points the app at the deployment of another chain and reloads its data
+  const switchDeployment = async (chainId: number) => {
+    if (chainId !== config.chainId) {
+      setFunctions([]);
+      setFunctionPage({ items: [], nextCursor: null });
+      setExecutionStats([]);
+      setOnChainFunctionCount(null);
+      setDecryptedValues({});
+      setStatusHistory({});
+      setHistoryOpenId(null);
+    }
+    selectDeployment(chainId);
+    setDeployment({ chainId: config.chainId, network: config.network });
+    setTransactions(listTransactions());
+    await loadFunctions();
+  };
+
+  // Connects `wallet`; without `prompt`, only if it already authorized this site
+  const connectWallet = async (wallet: WalletInfo, prompt = true) => {
     if (!wallet.provider) return;
+    const walletProvider = wallet.provider;
+    const accounts: string[] = await walletProvider.request({ method: prompt ? "eth_requestAccounts" : "eth_accounts" });
+    if (!prompt && accounts.length === 0) return;
+
+    detachWallet.current?.();
+    setWalletProvider(walletProvider);
+    rememberWallet(wallet);
+    setProvider(new ethers.BrowserProvider(walletProvider));
+    setAccount(accounts[0] || "");
+
+    await switchDeployment(Number(await walletProvider.request({ method: "eth_chainId" })));
+
+    const onAccountsChanged = (accounts: string[]) => setAccount(accounts[0] || "");
+    const onChainChanged = (chainId: string) => switchDeployment(Number(chainId));
+    walletProvider.on?.("accountsChanged", onAccountsChanged);
+    walletProvider.on?.("chainChanged", onChainChanged);
+    detachWallet.current = () => {
+      walletProvider.removeListener?.("accountsChanged", onAccountsChanged);
+      walletProvider.removeListener?.("chainChanged", onChainChanged);
+    };
+  };
+
+  const onWalletSelect = async (wallet: WalletInfo) => {
     try {
-      const web3Provider = new ethers.BrowserProvider(wallet.provider);
-      setProvider(web3Provider);
-      const accounts = await web3Provider.send("eth_requestAccounts", []);
-      const acc = accounts[0] || "";
-      setAccount(acc);
-
-      wallet.provider.on("accountsChanged", async (accounts: string[]) => {
-        const newAcc = accounts[0] || "";
-        setAccount(newAcc);
-      });
+      await connectWallet(wallet);
+    } catch (e) {
+      alert("Failed to connect wallet: " + describeError(e));
+    }
+  };
+
+  // The in-page wallet for the local hardhat chain, in dev builds only
+  useEffect(() => startDevWallet(), []);
+
+  // Reconnects the wallet used last, if the site is still authorized there
+  useEffect(() => {
+    const lastWalletId = getLastWalletId();
+    if (!lastWalletId) return;
+    let attempted = false;
+    const stop = discoverWallets(wallets => {
+      const wallet = wallets.find(w => w.id === lastWalletId && w.isInstalled);
+      if (!wallet || attempted) return;
+      attempted = true;
+      connectWallet(wallet, false).catch(e => console.warn("Could not reconnect the last wallet:", e));
+    });
+    // Wallets answer the discovery request right away
+    const timer = setTimeout(stop, 1000);
+    return () => {
+      clearTimeout(timer);
+      stop();
+    };
+  }, []);
+
+  // Only on request: the wallet may be on a local or staging chain on purpose
+  const onSwitchChain = async () => {
+    const wallet = getWalletProvider();
+    if (!wallet) return;
+    try {
+      await switchWalletChain(wallet, DEFAULT_CHAIN_ID);
     } catch (e) {
-      alert("Failed to connect wallet");
+      alert("Failed to switch network: " + describeError(e));
     }
   };
 
   const onConnect = () => setWalletSelectorOpen(true);
   const onDisconnect = () => {
+    detachWallet.current?.();
+    detachWallet.current = null;
+    setWalletProvider(null);
+    forgetWallet();
     setAccount("");
     setProvider(null);
+    switchDeployment(DEFAULT_CHAIN_ID);
+  };
+
+  const loadExecutionStats = async () => {
+    try {
+      // Revealed results are shown as final, so several RPCs must agree on them
+      const framework = await getFrameworkReadOnly(true);
+      if (!framework) return;
+
+      const [count, names] = await Promise.all([
+        framework.functionCount(),
+        framework.getExecutionStatsNames()
+      ]);
+      const stats: ExecutionStats[] = await Promise.all(
+        names.map(async (fnName: string) => {
+          const [revealedCount, revealedAtBlock] = await framework.getRevealedExecutionStats(fnName);
+          return { fnName, count: Number(revealedCount), revealedAtBlock: Number(revealedAtBlock) };
+        })
+      );
+
+      setOnChainFunctionCount(Number(count));
+      setExecutionStats(stats);
+    } catch (e) {
+      console.error("Error loading execution stats:", e);
+    }
+  };
+
+  // One request per page instead of one getData call per function
+  const loadIndexedFunctions = async (): Promise<FHEFunction[] | null> => {
+    try {
+      const indexed = await fetchIndexedFunctions();
+      return indexed && indexed.map(fromIndexed);
+    } catch (e) {
+      console.warn("Indexer unavailable, reading functions over RPC:", e);
+      return null;
+    }
   };
 
+  // Reloads the dashboard's functions and the page of the functions list
   const loadFunctions = async () => {
     setIsRefreshing(true);
+    clearFunctionCache();
+    setPageVersion(version => version + 1);
+    loadExecutionStats();
     try {
+      const indexed = await loadIndexedFunctions();
+      if (indexed) {
+        indexed.sort((a, b) => b.timestamp - a.timestamp);
+        setFunctions(indexed);
+        return;
+      }
+
       const contract = await getContractReadOnly();
       if (!contract) return;
       
@@ -93,43 +362,9 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("function_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing function keys:", e);
-        }
-      }
-      
-      const list: FHEFunction[] = [];
-      
-      for (const key of keys) {
-        try {
-          const funcBytes = await contract.getData(`function_${key}`);
-          if (funcBytes.length > 0) {
-            try {
-              const funcData = JSON.parse(ethers.toUtf8String(funcBytes));
-              list.push({
-                id: key,
-                name: funcData.name,
-                encryptedData: funcData.data,
-                timestamp: funcData.timestamp,
-                owner: funcData.owner,
-                category: funcData.category,
-                status: funcData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing function data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading function ${key}:`, e);
-        }
-      }
-      
+      // Shares its cache with the pages of the functions list
+      const list = await readFunctionRecords(contract, (await loadFunctionIndex(contract)).ids);
+      await applyOnChainStatuses(list);
       list.sort((a, b) => b.timestamp - a.timestamp);
       setFunctions(list);
     } catch (e) {
@@ -154,49 +389,62 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newFunctionData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      const inputValue = assertUint32("Input value", newFunctionData.inputValue);
+      const parameterValue = assertUint32("Parameter value", newFunctionData.parameterValue);
+      const schema = newFunctionData.programId.trim()
+        ? schemaFromDrafts(newFunctionData.programId, newFunctionData.parameters)
+        : null;
+      if (schema) {
+        const errors = schemaErrors(schema);
+        if (errors.length > 0) throw new Error(errors.join("; "));
       }
-      
-      const funcId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+      // Encrypt client-side: only ciphertext handles and the input proof leave the browser
+      const { handles, inputProof } = await encryptUint32Values(
+        getWalletProvider(),
+        config.frameworkAddress,
+        account,
+        [inputValue, parameterValue]
+      );
+
+      const framework = await getFrameworkWithSigner();
+      if (schema && (await framework.programs(schema.programId)).owner === ethers.ZeroAddress) {
+        throw new Error(`No program #${schema.programId} is registered`);
+      }
+      const price: bigint = await framework.submissionPrice();
+
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: price > 0n
+          ? `Submitting encrypted function (fee ${ethers.formatEther(price)} ETH)...`
+          : "Submitting encrypted function..."
+      });
+
+      const funcId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
       const funcData = {
         name: newFunctionData.name,
-        data: encryptedData,
+        data: handles[0],
+        handles,
         timestamp: Math.floor(Date.now() / 1000),
         owner: account,
         category: newFunctionData.category,
-        status: "pending"
+        description: newFunctionData.description,
+        status: "pending",
+        ...schema
       };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `function_${funcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(funcData))
-      );
-      
-      const keysBytes = await contract.getData("function_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(funcId);
-      
-      await contract.setData(
-        "function_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+
+      const submitTx = await framework.submitEncryptedFunction(
+        handles[0],
+        handles[1],
+        inputProof,
+        await paymentFor(framework, price)
       );
-      
+      const submission = trackTransaction(submitTx, `Submit function "${funcData.name}"`, "submit", {
+        meta: { funcId, funcData }
+      });
+      await finishDeployment(submission);
+
       setTransactionStatus({
         visible: true,
         status: "success",
@@ -208,21 +456,13 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewFunctionData({
-          name: "",
-          category: "",
-          description: ""
-        });
+        setNewFunctionData(emptyFunctionData());
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Deployment failed: " + (e.message || "Unknown error");
-      
+    } catch (e) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: errorMessage
+        message: "Deployment failed: " + describeError(e, FRAMEWORK_INTERFACE)
       });
       
       setTimeout(() => {
@@ -233,121 +473,278 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyFunction = async (funcId: string) => {
+  // Binds the execution schema, then writes the function record and its index
+  // entry once the submission is confirmed. Also resumes deployments from the
+  // transaction history.
+  const finishDeployment = async (submission: TrackedTransaction) => {
+    const { funcId, funcData } = submission.meta!;
+    const receipt = await waitForTransaction(submission.hash);
+
+    let onChainId = "";
+    for (const log of receipt.logs) {
+      try {
+        const parsed = FRAMEWORK_INTERFACE.parseLog(log);
+        if (parsed?.name === "FunctionSubmitted") {
+          onChainId = parsed.args.id.toString();
+        }
+      } catch (e) {
+        // Not a framework event
+      }
+    }
+
+    // Bind the execution schema on-chain before writing it to the record, which anyone can overwrite
+    const schema = readFunctionSchema(funcData);
+    if (schema && onChainId) {
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Binding execution schema..."
+      });
+      const framework = await getFrameworkWithSigner();
+      const hash = schemaHash(schema);
+      if ((await framework.functionSchemas(onChainId)) !== hash) {
+        const schemaTx = await framework.setFunctionSchema(onChainId, hash);
+        await waitForTransaction(trackTransaction(schemaTx, `Bind schema of "${funcData.name}"`, "schema").hash);
+      }
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Storing function metadata..."
+    });
+
+    const contract = await getContractWithSigner();
+    if (!contract) {
+      throw new Error("Failed to get contract with signer");
+    }
+
+    // Store function metadata with its ciphertext handles
+    const storeTx = await contract.setData(
+      `function_${funcId}`,
+      ethers.toUtf8Bytes(JSON.stringify({ ...funcData, onChainId }))
+    );
+    await waitForTransaction(trackTransaction(storeTx, `Store function "${funcData.name}"`, "store").hash);
+
+    // Rebuilt from the events rather than the stored array, so entries a
+    // concurrent submitter overwrote are written back as well
+    const { ids: keys } = await loadFunctionIndex(contract);
+    if (!keys.includes(funcId)) {
+      keys.push(funcId);
+    }
+
+    const indexTx = await contract.setData(
+      "function_keys",
+      ethers.toUtf8Bytes(JSON.stringify(keys))
+    );
+    await waitForTransaction(trackTransaction(indexTx, `Index function "${funcData.name}"`, "index").hash);
+
+    // The receipt may belong to a speed-up of the original submission
+    updateTransaction(submission.hash, { meta: { ...submission.meta, completed: true } });
+    updateTransaction(receipt.hash, { meta: { ...submission.meta, completed: true } });
+  };
+
+  const resumeDeployment = async (submission: TrackedTransaction) => {
+    setCreating(true);
+    try {
+      await finishDeployment(submission);
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "FHE function deployed successfully!"
+      });
+      await loadFunctions();
+    } catch (e) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Deployment failed: " + describeError(e, FRAMEWORK_INTERFACE)
+      });
+    } finally {
+      setCreating(false);
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // The framework checks the transition and the caller's role, and keeps the
+  // history in its FunctionStatusChanged events
+  const changeStatus = async (func: FHEFunction, to: FunctionStatusName) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
+    const action = STATUS_ACTIONS[to];
+    if (!func.onChainId || !action) return;
+
+    const reason = window.prompt(`Reason to ${action.label.toLowerCase()} "${func.name}" (optional)`, "");
+    if (reason === null) return;
 
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Verifying FHE function..."
+      message: action.pending
     });
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const funcBytes = await contract.getData(`function_${funcId}`);
-      if (funcBytes.length === 0) {
-        throw new Error("Function not found");
-      }
-      
-      const funcData = JSON.parse(ethers.toUtf8String(funcBytes));
-      
-      const updatedFunc = {
-        ...funcData,
-        status: "verified"
-      };
-      
-      await contract.setData(
-        `function_${funcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedFunc))
-      );
-      
+      const framework = await getFrameworkWithSigner();
+      const tx = await framework.setFunctionStatus(func.onChainId, statusValue(to), reason.trim());
+      await waitForTransaction(trackTransaction(tx, `${action.label} function "${func.name}"`, action.kind).hash);
+
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE function verified successfully!"
+        message: `FHE function ${to}!`
       });
-      
+
       await loadFunctions();
-      
+      if (historyOpenId === func.id) {
+        await loadHistory(func);
+      }
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
+    } catch (e) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Verification failed: " + (e.message || "Unknown error")
+        message: `${action.failure}: ` + describeError(e, FRAMEWORK_INTERFACE)
       });
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
     }
   };
 
-  const rejectFunction = async (funcId: string) => {
+  const loadHistory = async (func: FHEFunction) => {
+    if (!func.onChainId) return;
+    try {
+      const framework = await getFrameworkReadOnly();
+      if (!framework) return;
+      const history = await loadStatusHistory(framework, func.onChainId);
+      setStatusHistory(prev => ({ ...prev, [func.id]: history }));
+    } catch (e) {
+      console.error(`Error loading status history of ${func.id}:`, e);
+      setStatusHistory(prev => ({ ...prev, [func.id]: [] }));
+    }
+  };
+
+  const toggleHistory = (func: FHEFunction) => {
+    if (historyOpenId === func.id) {
+      setHistoryOpenId(null);
+      return;
+    }
+    setHistoryOpenId(func.id);
+    loadHistory(func);
+  };
+
+  // Private decryption: values are re-encrypted for the connected wallet only
+  const decryptPrivately = async (func: FHEFunction) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
+    if (!func.handles || func.handles.length < 2) return;
 
+    setDecryptingId(func.id);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Rejecting FHE function..."
+      message: "Sign the decryption request in your wallet..."
     });
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const funcBytes = await contract.getData(`function_${funcId}`);
-      if (funcBytes.length === 0) {
-        throw new Error("Function not found");
-      }
-      
-      const funcData = JSON.parse(ethers.toUtf8String(funcBytes));
-      
-      const updatedFunc = {
-        ...funcData,
-        status: "rejected"
-      };
-      
-      await contract.setData(
-        `function_${funcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedFunc))
+      const [input, parameters] = await userDecryptUint32Values(
+        getWalletProvider(),
+        config.frameworkAddress,
+        func.handles.slice(0, 2)
       );
-      
+      setDecryptedValues(prev => ({ ...prev, [func.id]: { input, parameters, mode: "private" } }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption failed: " + describeError(e)
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setDecryptingId(null);
+    }
+  };
+
+  // Public reveal: the decryption oracle writes the cleartext on-chain for everyone
+  const revealPublicly = async (func: FHEFunction) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (!func.onChainId) return;
+
+    setDecryptingId(func.id);
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting public decryption..."
+    });
+
+    try {
+      const framework = await getFrameworkWithSigner();
+      let [input, parameters, executed] = await framework.getDecryptedFunction(func.onChainId);
+
+      if (!executed) {
+        // Held in escrow until the oracle answers, refundable if it never does
+        const price = 2n * (await framework.decryptionPricePerHandle());
+        const tx = await framework.requestFunctionDecryption(func.onChainId, await paymentFor(framework, price));
+        await waitForTransaction(trackTransaction(tx, `Reveal function "${func.name}"`, "reveal").hash);
+
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: "Waiting for the decryption oracle..."
+        });
+
+        const deadline = Date.now() + 5 * 60 * 1000;
+        while (!executed) {
+          if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for the decryption oracle");
+          }
+          await new Promise(res => setTimeout(res, 5000));
+          [input, parameters, executed] = await framework.getDecryptedFunction(func.onChainId);
+        }
+      }
+
+      setDecryptedValues(prev => ({
+        ...prev,
+        [func.id]: { input: Number(input), parameters: Number(parameters), mode: "public" }
+      }));
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE function rejected!"
+        message: "Function values revealed on-chain"
       });
-      
-      await loadFunctions();
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
+    } catch (e) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Rejection failed: " + (e.message || "Unknown error")
+        message: "Public reveal failed: " + describeError(e, FRAMEWORK_INTERFACE)
       });
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
+    } finally {
+      setDecryptingId(null);
     }
   };
 
@@ -371,7 +768,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Availability check failed"
+        message: "Availability check failed: " + describeError(e)
       });
       
       setTimeout(() => {
@@ -384,6 +781,42 @@ const App: React.FC = () => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  // Status and decryption buttons, on the function cards and the details page
+  const renderFunctionActions = (func: FHEFunction) => (
+    <>
+      {func.onChainId &&
+        allowedTransitions(func.status, { reviewer, owner: isOwner(func.owner) }).map(to => (
+          <button
+            key={to}
+            className={`action-btn metal-button ${to === "verified" ? "success" : "danger"}`}
+            onClick={() => changeStatus(func, to)}
+          >
+            {STATUS_ACTIONS[to]?.label}
+          </button>
+        ))}
+      {account && func.handles && func.handles.length >= 2 && (
+        <button
+          className="action-btn metal-button"
+          onClick={() => decryptPrivately(func)}
+          disabled={decryptingId === func.id}
+          title="Decrypt for your wallet only, nothing is revealed on-chain"
+        >
+          Decrypt
+        </button>
+      )}
+      {isOwner(func.owner) && func.onChainId && (
+        <button
+          className="action-btn metal-button"
+          onClick={() => revealPublicly(func)}
+          disabled={decryptingId === func.id}
+          title="Ask the decryption oracle to publish the values on-chain"
+        >
+          Reveal Publicly
+        </button>
+      )}
+    </>
+  );
+
   const tutorialSteps = [
     {
       title: "Connect Wallet",
@@ -529,23 +962,43 @@ const App: React.FC = () => {
           </div>
           <h1>FHE<span>Serverless</span></h1>
         </div>
+
+        <div
+          className={`network-badge ${config.contractAddress ? "" : "no-deployment"}`}
+          title={config.contractAddress || "No deployment manifest for this chain"}
+        >
+          {deployment.network || `Chain ${deployment.chainId}`}
+          {!config.contractAddress && <span> · not deployed</span>}
+        </div>
+        {account && !config.contractAddress && manifests[DEFAULT_CHAIN_ID] && (
+          <button className="metal-button" onClick={onSwitchChain}>
+            Switch to {manifests[DEFAULT_CHAIN_ID].network}
+          </button>
+        )}
         
         <div className="header-tabs">
           <button 
             className={`tab-button ${activeTab === "dashboard" ? "active" : ""}`}
-            onClick={() => setActiveTab("dashboard")}
+            onClick={() => selectTab("dashboard")}
           >
             Dashboard
           </button>
           <button 
             className={`tab-button ${activeTab === "functions" ? "active" : ""}`}
-            onClick={() => setActiveTab("functions")}
+            onClick={() => selectTab("functions")}
           >
             Functions
           </button>
+          <button 
+            className={`tab-button ${activeTab === "transactions" ? "active" : ""}`}
+            onClick={() => selectTab("transactions")}
+          >
+            Transactions
+            {pendingTransactions > 0 && <span className="pending-count">{pendingTransactions}</span>}
+          </button>
           <button 
             className={`tab-button ${activeTab === "team" ? "active" : ""}`}
-            onClick={() => setActiveTab("team")}
+            onClick={() => selectTab("team")}
           >
             Team
           </button>
@@ -565,6 +1018,7 @@ const App: React.FC = () => {
           >
             {showTutorial ? "Hide Guide" : "Show Guide"}
           </button>
+          {account && isDevWallet(getWalletProvider()) && <DevWalletPanel wallet={getDevWallet()!} account={account} />}
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -590,22 +1044,33 @@ const App: React.FC = () => {
               <h3>Platform Statistics</h3>
               <div className="stats-grid">
                 <div className="stat-item">
-                  <div className="stat-value">{functions.length}</div>
-                  <div className="stat-label">Total Functions</div>
+                  <div className="stat-value">{onChainFunctionCount ?? "-"}</div>
+                  <div className="stat-label">Submitted Functions</div>
                 </div>
                 <div className="stat-item">
-                  <div className="stat-value">{verifiedCount}</div>
-                  <div className="stat-label">Verified</div>
+                  <div className="stat-value">{totalRevealedExecutions}</div>
+                  <div className="stat-label">Revealed Executions</div>
                 </div>
                 <div className="stat-item">
-                  <div className="stat-value">{pendingCount}</div>
-                  <div className="stat-label">Pending</div>
+                  <div className="stat-value">{revealedStats.length}</div>
+                  <div className="stat-label">Functions Revealed</div>
                 </div>
                 <div className="stat-item">
-                  <div className="stat-value">{rejectedCount}</div>
-                  <div className="stat-label">Rejected</div>
+                  <div className="stat-value">{lastRevealBlock || "-"}</div>
+                  <div className="stat-label">Last Reveal Block</div>
                 </div>
               </div>
+              {revealedStats.length > 0 && (
+                <div className="revealed-stats">
+                  {revealedStats.map(stat => (
+                    <div className="revealed-stat-row" key={stat.fnName}>
+                      <span className="revealed-stat-name">{stat.fnName}</span>
+                      <span>{stat.count} executions</span>
+                      <span className="revealed-stat-block">block #{stat.revealedAtBlock}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             
             <div className="panel chart-panel">
@@ -639,7 +1104,18 @@ const App: React.FC = () => {
           </div>
         )}
         
-        {activeTab === "functions" && (
+        {activeTab === "functions" && route.functionId && (
+          <FunctionDetails
+            functionId={route.functionId}
+            account={account}
+            version={`${detailsFunction?.status}:${decryptedValues[route.functionId]?.mode}`}
+            actions={detailsFunction && renderFunctionActions(detailsFunction)}
+            decrypted={decryptedValues[route.functionId]}
+            onBack={() => navigate(functionsHash(route.query))}
+          />
+        )}
+
+        {activeTab === "functions" && !route.functionId && (
           <div className="functions-panel">
             <div className="section-header">
               <h2>Deployed FHE Functions</h2>
@@ -660,11 +1136,94 @@ const App: React.FC = () => {
               </div>
             </div>
             
-            <div className="functions-list">
-              {functions.length === 0 ? (
+            <div className="function-filters">
+              <input
+                type="search"
+                className="metal-input filter-search"
+                placeholder="Search name and description"
+                value={functionQuery.search}
+                onChange={e => updateFunctionQuery({ search: e.target.value }, true)}
+              />
+              <select
+                className="metal-select"
+                value={functionQuery.category}
+                onChange={e => updateFunctionQuery({ category: e.target.value })}
+              >
+                <option value="">All categories</option>
+                {CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+              <select
+                className="metal-select"
+                value={functionQuery.status}
+                onChange={e => updateFunctionQuery({ status: e.target.value })}
+              >
+                <option value="">All statuses</option>
+                {FUNCTION_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <input
+                className="metal-input filter-owner"
+                placeholder="Owner address"
+                value={functionQuery.owner}
+                onChange={e => updateFunctionQuery({ owner: e.target.value }, true)}
+              />
+              {account && (
+                <button className="metal-button" onClick={() => updateFunctionQuery({ owner: account })}>
+                  Mine
+                </button>
+              )}
+              <label className="filter-date">
+                From
+                <input
+                  type="date"
+                  className="metal-input"
+                  value={functionQuery.from}
+                  onChange={e => updateFunctionQuery({ from: e.target.value })}
+                />
+              </label>
+              <label className="filter-date">
+                To
+                <input
+                  type="date"
+                  className="metal-input"
+                  value={functionQuery.to}
+                  onChange={e => updateFunctionQuery({ to: e.target.value })}
+                />
+              </label>
+              <select
+                className="metal-select"
+                value={functionQuery.sort}
+                onChange={e => updateFunctionQuery({ sort: e.target.value as FunctionSort })}
+              >
+                {Object.entries(FUNCTION_SORTS).map(([sort, label]) => (
+                  <option key={sort} value={sort}>{label}</option>
+                ))}
+              </select>
+              {hasFilters(functionQuery) && (
+                <button className="metal-button" onClick={() => navigate(functionsHash())}>
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {functionPage.incomplete && (
+              <p className="details-warning">
+                The function index is not complete yet, so some functions may be missing. Reload to continue scanning.
+              </p>
+            )}
+
+            <div className={`functions-list ${pageLoading ? "loading" : ""}`}>
+              {functionPage.items.length === 0 && hasFilters(functionQuery) ? (
+                <div className="no-functions">
+                  <p>{pageLoading ? "Searching..." : "No functions match these filters"}</p>
+                </div>
+              ) : functionPage.items.length === 0 ? (
                 <div className="no-functions">
                   <div className="no-functions-icon"></div>
-                  <p>No FHE functions deployed yet</p>
+                  <p>{pageLoading ? "Loading functions..." : "No FHE functions deployed yet"}</p>
                   <button 
                     className="metal-button primary"
                     onClick={() => setShowCreateModal(true)}
@@ -673,7 +1232,7 @@ const App: React.FC = () => {
                   </button>
                 </div>
               ) : (
-                functions.map(func => (
+                functionPage.items.map(func => (
                   <div className="function-card" key={func.id}>
                     <div className="card-header">
                       <div className="function-id">#{func.id.substring(0, 6)}</div>
@@ -703,25 +1262,48 @@ const App: React.FC = () => {
                         <span className="data-label">Encrypted Data:</span>
                         <span className="data-value">{func.encryptedData.substring(0, 20)}...</span>
                       </div>
+                      {decryptedValues[func.id] && (
+                        <div className="decrypted-data">
+                          <span className="data-label">Decrypted:</span>
+                          <span className="data-value">
+                            input {decryptedValues[func.id].input}, parameters {decryptedValues[func.id].parameters}
+                          </span>
+                          <span className={`decrypt-mode ${decryptedValues[func.id].mode}`}>
+                            {decryptedValues[func.id].mode}
+                          </span>
+                        </div>
+                      )}
+                      {historyOpenId === func.id && (
+                        <div className="status-history">
+                          <span className="data-label">Status History:</span>
+                          {!statusHistory[func.id] ? (
+                            <span className="data-value">Loading...</span>
+                          ) : statusHistory[func.id].length === 0 ? (
+                            <span className="data-value">Pending review, no status changes yet</span>
+                          ) : (
+                            <ol>
+                              {statusHistory[func.id].map(change => (
+                                <li key={`${change.transactionHash}-${change.to}`}>
+                                  <span className={`status-badge ${change.to}`}>{change.to}</span>
+                                  <span className="status-history-meta">
+                                    by {change.actor.substring(0, 6)}...{change.actor.substring(38)} at block #{change.blockNumber}
+                                  </span>
+                                  {change.reason && <span className="status-history-reason">{change.reason}</span>}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="card-footer">
-                      {isOwner(func.owner) && func.status === "pending" && (
-                        <>
-                          <button 
-                            className="action-btn metal-button success"
-                            onClick={() => verifyFunction(func.id)}
-                          >
-                            Verify
-                          </button>
-                          <button 
-                            className="action-btn metal-button danger"
-                            onClick={() => rejectFunction(func.id)}
-                          >
-                            Reject
-                          </button>
-                        </>
+                      {renderFunctionActions(func)}
+                      {func.onChainId && (
+                        <button className="action-btn metal-button" onClick={() => toggleHistory(func)}>
+                          {historyOpenId === func.id ? "Hide History" : "History"}
+                        </button>
                       )}
-                      <button className="action-btn metal-button">
+                      <button className="action-btn metal-button" onClick={() => navigate(functionDetailsHash(func.id, route.query))}>
                         View Details
                       </button>
                     </div>
@@ -729,9 +1311,44 @@ const App: React.FC = () => {
                 ))
               )}
             </div>
+
+            {(pageCursors.length > 1 || functionPage.nextCursor) && (
+              <div className="pagination">
+                <button
+                  className="metal-button"
+                  disabled={pageLoading || pageCursors.length === 1}
+                  onClick={() => loadFunctionPage(pageCursors.slice(0, -1))}
+                >
+                  Previous
+                </button>
+                <span>Page {pageCursors.length}</span>
+                <button
+                  className="metal-button"
+                  disabled={pageLoading || !functionPage.nextCursor}
+                  onClick={() => loadFunctionPage([...pageCursors, functionPage.nextCursor])}
+                >
+                  Next
+                </button>
+              </div>
+            )}
           </div>
         )}
         
+        {activeTab === "transactions" && (
+          <TransactionHistory
+            transactions={transactions}
+            account={account}
+            canResume={tx => !creating && canResumeDeployment(tx)}
+            onResume={resumeDeployment}
+            onError={e => {
+              setTransactionStatus({ visible: true, status: "error", message: describeError(e) });
+              setTimeout(() => {
+                setTransactionStatus({ visible: false, status: "pending", message: "" });
+              }, 3000);
+            }}
+          />
+        )}
+        
         {activeTab === "team" && (
           <div className="team-panel">
             <h2>Core Development Team</h2>
@@ -850,8 +1467,8 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  functionData: any;
-  setFunctionData: (data: any) => void;
+  functionData: NewFunctionData;
+  setFunctionData: (data: NewFunctionData) => void;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -869,8 +1486,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  const updateParameter = (index: number, patch: Partial<ParameterDraft>) => {
+    setFunctionData({
+      ...functionData,
+      parameters: functionData.parameters.map((param, i) => (i === index ? { ...param, ...patch } : param))
+    });
+  };
+
   const handleSubmit = () => {
-    if (!functionData.name || !functionData.category) {
+    if (!functionData.name || !functionData.category || functionData.inputValue === "" || functionData.parameterValue === "") {
       alert("Please fill required fields");
       return;
     }
@@ -921,6 +1545,34 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               </select>
             </div>
             
+            <div className="form-group">
+              <label>Input Value (uint32) *</label>
+              <input 
+                type="number"
+                name="inputValue"
+                min={0}
+                max={4294967295}
+                value={functionData.inputValue} 
+                onChange={handleChange}
+                placeholder="Encrypted before submission..." 
+                className="metal-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Parameter Value (uint32) *</label>
+              <input 
+                type="number"
+                name="parameterValue"
+                min={0}
+                max={4294967295}
+                value={functionData.parameterValue} 
+                onChange={handleChange}
+                placeholder="Encrypted before submission..." 
+                className="metal-input"
+              />
+            </div>
+            
             <div className="form-group full-width">
               <label>Function Description</label>
               <textarea 
@@ -932,6 +1584,89 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 rows={4}
               />
             </div>
+
+            <div className="form-group full-width">
+              <label>Execution Program Id</label>
+              <input
+                type="number"
+                name="programId"
+                min={1}
+                value={functionData.programId}
+                onChange={handleChange}
+                placeholder="Optional: registered program run from the details page"
+                className="metal-input"
+              />
+            </div>
+
+            {functionData.programId !== "" && (
+              <div className="form-group full-width">
+                <label>Execution Parameters</label>
+                <p className="details-note">
+                  Encrypted inputs the program reads with Arg instructions, in order. Empty bounds allow the whole range
+                  of the type.
+                </p>
+                {functionData.parameters.map((param, i) => (
+                  <div className="schema-row" key={i}>
+                    <input
+                      type="text"
+                      value={param.name}
+                      onChange={e => updateParameter(i, { name: e.target.value })}
+                      placeholder="Name"
+                      className="metal-input"
+                    />
+                    <select
+                      value={param.type}
+                      onChange={e => {
+                        const type = e.target.value as ParameterType;
+                        updateParameter(i, type === "ebool" ? { type, min: "", max: "" } : { type });
+                      }}
+                      className="metal-select"
+                    >
+                      {Object.keys(PARAMETER_TYPES).map(type => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={param.min}
+                      onChange={e => updateParameter(i, { min: e.target.value })}
+                      placeholder="Min"
+                      className="metal-input"
+                      disabled={param.type === "ebool"}
+                    />
+                    <input
+                      type="number"
+                      value={param.max}
+                      onChange={e => updateParameter(i, { max: e.target.value })}
+                      placeholder="Max"
+                      className="metal-input"
+                      disabled={param.type === "ebool"}
+                    />
+                    <button
+                      className="metal-button"
+                      onClick={() =>
+                        setFunctionData({
+                          ...functionData,
+                          parameters: functionData.parameters.filter((_, j) => j !== i)
+                        })
+                      }
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  className="metal-button"
+                  onClick={() =>
+                    setFunctionData({ ...functionData, parameters: [...functionData.parameters, emptyParameter()] })
+                  }
+                >
+                  Add Parameter
+                </button>
+              </div>
+            )}
           </div>
           
           <div className="privacy-notice">
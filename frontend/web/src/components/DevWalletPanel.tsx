@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { DevWalletMode, LocalDevWallet } from "../devWallet";
+import { describeError } from "../errors";
+
+interface DevWalletPanelProps {
+  wallet: LocalDevWallet;
+  // Changes with the account, so the balance is read again
+  account: string;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Account switcher and approval mode of the Local Dev Wallet, shown while it is connected
+export default function DevWalletPanel({ wallet, account }: DevWalletPanelProps) {
+  const [, setVersion] = useState(0);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setBalance(null);
+    wallet.balanceOf().then(setBalance).catch(() => setBalance(null));
+  }, [wallet, account]);
+
+  // The wallet keeps its own settings; re-render once they changed
+  const change = async (work: () => void | Promise<void>) => {
+    setBusy(true);
+    try {
+      await work();
+    } catch (e) {
+      alert("Local Dev Wallet: " + describeError(e));
+    } finally {
+      setBusy(false);
+      setVersion(version => version + 1);
+    }
+  };
+
+  return (
+    <div className="dev-wallet-panel">
+      <span className="dev-wallet-badge">DEV</span>
+      <select
+        className="metal-select"
+        value={wallet.accountIndex}
+        onChange={e => change(() => wallet.selectAccount(Number(e.target.value)))}
+        disabled={busy}
+        title="Signing account"
+      >
+        {wallet.addresses.map((address, i) => (
+          <option key={address} value={i}>
+            #{i} {shortAddress(address)}
+          </option>
+        ))}
+      </select>
+      <span className="dev-wallet-balance">
+        {balance === null ? "..." : `${Number(ethers.formatEther(balance)).toFixed(2)} ETH`}
+      </span>
+      <select
+        className="metal-select"
+        value={wallet.mode}
+        onChange={e => change(() => wallet.setMode(e.target.value as DevWalletMode))}
+        disabled={busy}
+        title="Approval mode"
+      >
+        <option value="auto">Auto-approve</option>
+        <option value="confirm">Confirm each request</option>
+      </select>
+      <select
+        className="metal-select"
+        value={wallet.source}
+        onChange={e =>
+          change(() => (e.target.value === "generated" ? wallet.generateAccounts() : wallet.useHardhatAccounts()))
+        }
+        disabled={busy}
+        title="Accounts"
+      >
+        <option value="hardhat">Hardhat accounts</option>
+        <option value="generated">Generated mnemonic</option>
+      </select>
+      {wallet.source === "generated" && (
+        <button className="metal-button" onClick={() => change(() => wallet.generateAccounts())} disabled={busy}>
+          New mnemonic
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { FRAMEWORK_INTERFACE, config, getFrameworkReadOnly, getFrameworkWithSigner, paymentFor } from "../contract";
+import { describeError } from "../errors";
+import { encryptUint32Values, userDecryptUint32Values } from "../fhe";
+import { FunctionSchema, parameterBounds, parseParameterValue, schemaErrors } from "../functionSchema";
+import { trackTransaction, waitForTransaction } from "../txManager";
+import { getWalletProvider } from "../wallets";
+
+interface ExecuteFunctionProps {
+  schema: FunctionSchema;
+  functionName: string;
+  onChainId: string;
+  owner: string;
+  account: string;
+  // Called when an execution or a reveal lands, to reload the details
+  onChange: () => void;
+}
+
+type Step = "encrypt" | "send" | "confirm" | "request" | "oracle" | "decrypt";
+
+const STEP_LABELS: Record<Step, string> = {
+  encrypt: "Encrypt inputs in the browser",
+  send: "Send the execution",
+  confirm: "Wait for the execution to be mined",
+  request: "Request public decryption",
+  oracle: "Wait for the decryption oracle",
+  decrypt: "Decrypt for your account"
+};
+
+const EXECUTION_STEPS: Step[] = ["encrypt", "send", "confirm"];
+const REVEAL_STEPS: Step[] = ["request", "oracle"];
+const DECRYPT_STEPS: Step[] = ["decrypt"];
+
+const ORACLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface Progress {
+  steps: Step[];
+  current: number;
+  error?: string;
+}
+
+const defaultValues = (schema: FunctionSchema) =>
+  Object.fromEntries(
+    schema.parameters.map(param => [param.name, param.type === "ebool" ? "false" : String(parameterBounds(param).min)])
+  );
+
+export default function ExecuteFunction({ schema, functionName, onChainId, owner, account, onChange }: ExecuteFunctionProps) {
+  const [values, setValues] = useState<Record<string, string>>(() => defaultValues(schema));
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  const [result, setResult] = useState<{ value: number; mode: "private" | "public" } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const schemaKey = `${schema.programId}:${schema.parameters.map(param => param.name).join(",")}`;
+  useEffect(() => {
+    setValues(defaultValues(schema));
+  }, [schemaKey]);
+
+  const errors = schemaErrors(schema);
+  const isOwner = !!account && account.toLowerCase() === owner.toLowerCase();
+
+  // Runs `steps` in order; each one advances the progress list before it starts
+  const run = async (steps: Step[], work: (advance: (step: Step) => void) => Promise<void>) => {
+    setBusy(true);
+    setProgress({ steps, current: 0 });
+    let current = 0;
+    try {
+      await work(step => {
+        current = steps.indexOf(step);
+        setProgress({ steps, current });
+      });
+      setProgress({ steps, current: steps.length });
+    } catch (e) {
+      console.error("Execution failed:", e);
+      setProgress({ steps, current, error: describeError(e, FRAMEWORK_INTERFACE) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const execute = () =>
+    run(EXECUTION_STEPS, async advance => {
+      setResult(null);
+      setExecutionId(null);
+      const inputs = schema.parameters.map(param => parseParameterValue(param, values[param.name] ?? ""));
+
+      advance("encrypt");
+      // Only ciphertext handles and the input proof leave the browser
+      const { handles, inputProof } = await encryptUint32Values(
+        getWalletProvider(),
+        config.frameworkAddress,
+        account,
+        inputs
+      );
+
+      advance("send");
+      const framework = await getFrameworkWithSigner();
+      const price: bigint = await framework.quoteProgram(schema.programId);
+      const tx = await framework.executeProgramWithInputs(
+        schema.programId,
+        onChainId,
+        handles,
+        inputProof,
+        await paymentFor(framework, price)
+      );
+      const tracked = trackTransaction(tx, `Execute function "${functionName}"`, "execute");
+
+      advance("confirm");
+      const receipt = await waitForTransaction(tracked.hash);
+      for (const log of receipt.logs) {
+        try {
+          const parsed = FRAMEWORK_INTERFACE.parseLog(log);
+          if (parsed?.name === "ProgramExecuted") setExecutionId(parsed.args.executionId.toString());
+        } catch {
+          // Not a framework event
+        }
+      }
+      onChange();
+    });
+
+  // The oracle writes the result on-chain for everyone
+  const revealPublicly = (id: string) =>
+    run(REVEAL_STEPS, async advance => {
+      advance("request");
+      const framework = await getFrameworkWithSigner();
+      let [value, revealed] = await framework.getRevealedResult(id);
+      if (!revealed) {
+        // Held in escrow until the oracle answers, refundable if it never does
+        const price: bigint = await framework.decryptionPricePerHandle();
+        const tx = await framework.requestExecutionDecryption(id, await paymentFor(framework, price));
+        await waitForTransaction(trackTransaction(tx, `Reveal execution #${id}`, "reveal").hash);
+        onChange();
+
+        advance("oracle");
+        const deadline = Date.now() + ORACLE_TIMEOUT_MS;
+        while (!revealed) {
+          if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for the decryption oracle");
+          }
+          await new Promise(res => setTimeout(res, 5000));
+          [value, revealed] = await framework.getRevealedResult(id);
+        }
+      }
+      setResult({ value: Number(value), mode: "public" });
+      onChange();
+    });
+
+  // Re-encrypted for the connected wallet only; the executor is allowed on the result
+  const decryptPrivately = (id: string) =>
+    run(DECRYPT_STEPS, async advance => {
+      advance("decrypt");
+      const framework = await getFrameworkReadOnly();
+      if (!framework) throw new Error("The framework is not deployed on this network");
+      const handle: string = await framework.getExecutionResult(id);
+      const [value] = await userDecryptUint32Values(getWalletProvider(), config.frameworkAddress, [handle]);
+      setResult({ value, mode: "private" });
+    });
+
+  return (
+    <div className="details-panel metal-card execute-panel">
+      <h3>Execute</h3>
+      <p className="details-note">
+        Runs program #{schema.programId} on the function with the values below. They are encrypted in your browser
+        before they are sent.
+      </p>
+
+      {errors.length > 0 ? (
+        <ul className="details-warning">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <>
+          <div className="form-grid">
+            {schema.parameters.map(param => {
+              const { min, max } = parameterBounds(param);
+              return (
+                <div className="form-group" key={param.name}>
+                  <label>
+                    {param.name} <span className="details-note">({param.type})</span>
+                  </label>
+                  {param.type === "ebool" ? (
+                    <select
+                      className="metal-select"
+                      value={values[param.name] ?? "false"}
+                      onChange={e => setValues({ ...values, [param.name]: e.target.value })}
+                      disabled={busy}
+                    >
+                      <option value="false">false</option>
+                      <option value="true">true</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      className="metal-input"
+                      min={min}
+                      max={max}
+                      value={values[param.name] ?? ""}
+                      onChange={e => setValues({ ...values, [param.name]: e.target.value })}
+                      placeholder={`${min} to ${max}`}
+                      disabled={busy}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {schema.parameters.length === 0 && <p className="details-note">The program takes no inputs.</p>}
+
+          <div className="execute-actions">
+            <button className="metal-button primary" onClick={execute} disabled={busy || !isOwner}>
+              {busy && progress?.steps === EXECUTION_STEPS ? "Executing..." : "Execute"}
+            </button>
+            {!account && <span className="details-note">Connect a wallet to execute the function</span>}
+            {account && !isOwner && <span className="details-note">Only the function's owner can execute it</span>}
+          </div>
+        </>
+      )}
+
+      {progress && (
+        <ol className="execute-steps">
+          {progress.steps.map((step, i) => (
+            <li
+              key={step}
+              className={i < progress.current ? "done" : i === progress.current ? (progress.error ? "failed" : "active") : ""}
+            >
+              {STEP_LABELS[step]}
+            </li>
+          ))}
+        </ol>
+      )}
+      {progress?.error && <div className="details-error">{progress.error}</div>}
+
+      {executionId && (
+        <div className="execute-result">
+          <h4>Execution #{executionId}</h4>
+          {result ? (
+            <p>
+              Result: <strong>{result.value}</strong>{" "}
+              <span className="details-note">
+                {result.mode === "public" ? "revealed on-chain" : "decrypted for you only"}
+              </span>
+            </p>
+          ) : (
+            <p className="details-note">The result is encrypted. Reveal it on-chain or decrypt it for your account.</p>
+          )}
+          <div className="execute-actions">
+            <button className="metal-button" onClick={() => revealPublicly(executionId)} disabled={busy}>
+              Reveal publicly
+            </button>
+            <button className="metal-button" onClick={() => decryptPrivately(executionId)} disabled={busy}>
+              Decrypt privately
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { SEPOLIA_CHAIN_ID, config, getContractReadOnly, getFrameworkReadOnly } from "../contract";
+import { describeError } from "../errors";
+import { FunctionDetails as Details, loadFunctionDetails } from "../functionDetails";
+import { readFunctionSchema, schemaHash } from "../functionSchema";
+import ExecuteFunction from "./ExecuteFunction";
+
+interface FunctionDetailsProps {
+  functionId: string;
+  account: string;
+  // Changes when the record may have changed, e.g. after a status change
+  version: string;
+  // Status and decryption buttons of the function, rendered by App
+  actions?: React.ReactNode;
+  // Values the connected account decrypted privately
+  decrypted?: { input: number; parameters: number; mode: string };
+  onBack: () => void;
+}
+
+const EXPLORERS: Record<number, string> = {
+  [SEPOLIA_CHAIN_ID]: "https://sepolia.etherscan.io/tx/"
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const TxLink = ({ hash }: { hash: string }) => {
+  const explorer = EXPLORERS[config.chainId];
+  const label = `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+  return explorer ? (
+    <a href={`${explorer}${hash}`} target="_blank" rel="noreferrer">{label}</a>
+  ) : (
+    <span>{label}</span>
+  );
+};
+
+export default function FunctionDetails({
+  functionId,
+  account,
+  version,
+  actions,
+  decrypted,
+  onBack
+}: FunctionDetailsProps) {
+  const [details, setDetails] = useState<Details | null>(null);
+  const [error, setError] = useState("");
+  // Bumped by the execute panel when an execution or a reveal lands
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError("");
+    (async () => {
+      try {
+        const [adapter, framework] = await Promise.all([getContractReadOnly(), getFrameworkReadOnly()]);
+        const loaded = await loadFunctionDetails(adapter, framework, functionId, account);
+        if (!cancelled) setDetails(loaded);
+      } catch (e) {
+        console.error(`Error loading details of ${functionId}:`, e);
+        if (!cancelled) setError(describeError(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [functionId, account, version, reloads]);
+
+  const record = details?.record;
+  const onChain = details?.onChain;
+  const schema = readFunctionSchema(record ?? null);
+  // Only run the schema its owner bound on-chain, the record itself is writable by anyone
+  const schemaBound = !!onChain && !!schema && onChain.schemaHash === schemaHash(schema);
+
+  return (
+    <div className="function-details">
+      <div className="section-header">
+        <button className="metal-button" onClick={onBack}>
+          ← Back to Functions
+        </button>
+        <div className="header-actions">{actions}</div>
+      </div>
+
+      {error && <div className="details-error">Failed to load the function: {error}</div>}
+      {!details && !error && (
+        <div className="no-functions">
+          <div className="metal-spinner"></div>
+          <p>Loading function details...</p>
+        </div>
+      )}
+      {details && !record && <div className="no-functions"><p>No function record with id {functionId}</p></div>}
+
+      {record && (
+        <>
+          <div className="details-panel metal-card">
+            <div className="card-header">
+              <h2 className="function-name">{record.name || "Unnamed function"}</h2>
+              <div className={`status-badge ${onChain?.status ?? record.status ?? "pending"}`}>
+                {onChain?.status ?? record.status ?? "pending"}
+              </div>
+            </div>
+            <p className="details-description">{record.description || "No description"}</p>
+            <dl className="details-grid">
+              <dt>Record id</dt>
+              <dd>{functionId}</dd>
+              <dt>On-chain id</dt>
+              <dd>{record.onChainId || "not submitted"}</dd>
+              <dt>Owner</dt>
+              <dd>{onChain?.owner ?? record.owner}</dd>
+              <dt>Category</dt>
+              <dd>{record.category || "-"}</dd>
+              <dt>Deployed</dt>
+              <dd>{new Date((onChain?.timestamp ?? record.timestamp) * 1000).toLocaleString()}</dd>
+            </dl>
+          </div>
+
+          {onChain && schema && !schemaBound && (
+            <div className="details-panel metal-card">
+              <h3>Execute</h3>
+              <p className="details-warning">
+                {onChain.schemaHash === ethers.ZeroHash
+                  ? "The owner has not bound an execution schema to this function, so it can't be run from here."
+                  : "The execution schema in the record is not the one the owner bound on-chain, so it can't be run from here."}
+              </p>
+            </div>
+          )}
+
+          {onChain && schema && schemaBound && (
+            <ExecuteFunction
+              schema={schema}
+              functionName={record.name || "Unnamed function"}
+              onChainId={onChain.id}
+              owner={onChain.owner}
+              account={account}
+              onChange={() => setReloads(n => n + 1)}
+            />
+          )}
+
+          {onChain && (
+            <>
+              <div className="details-panel metal-card">
+                <h3>Encrypted Handles</h3>
+                <dl className="details-grid">
+                  <dt>Input</dt>
+                  <dd className="handle">{onChain.inputHandle}</dd>
+                  <dt>Parameters</dt>
+                  <dd className="handle">{onChain.parametersHandle}</dd>
+                </dl>
+                {record.handles &&
+                  (record.handles[0]?.toLowerCase() !== onChain.inputHandle.toLowerCase() ||
+                    record.handles[1]?.toLowerCase() !== onChain.parametersHandle.toLowerCase()) && (
+                    <p className="details-warning">The handles stored in the record differ from the on-chain ones</p>
+                  )}
+                <h4>ACL</h4>
+                <table className="details-table">
+                  <thead>
+                    <tr>
+                      <th>Account</th>
+                      <th>Role</th>
+                      <th>Input</th>
+                      <th>Parameters</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {details.access.map(entry => (
+                      <tr key={entry.account}>
+                        <td title={entry.account}>{shortAddress(entry.account)}</td>
+                        <td>{entry.roles.join(", ")}</td>
+                        <td>{entry.input ? "allowed" : "-"}</td>
+                        <td>{entry.parameters ? "allowed" : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="details-panel metal-card">
+                <h3>Revealed Result</h3>
+                {details.revealed ? (
+                  <p>
+                    input {details.revealed.input}, parameters {details.revealed.parameters}
+                  </p>
+                ) : (
+                  <p>Not revealed on-chain yet</p>
+                )}
+                {decrypted?.mode === "private" && (
+                  <p className="details-note">
+                    Decrypted for you only: input {decrypted.input}, parameters {decrypted.parameters}
+                  </p>
+                )}
+
+                <h4>Decryption Requests</h4>
+                {details.decryptionRequests.length === 0 ? (
+                  <p>None</p>
+                ) : (
+                  <table className="details-table">
+                    <thead>
+                      <tr>
+                        <th>Request</th>
+                        <th>Payer</th>
+                        <th>Paid</th>
+                        <th>Status</th>
+                        <th>Transaction</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {details.decryptionRequests.map(request => (
+                        <tr key={request.requestId}>
+                          <td>
+                            #{request.requestId}
+                            {request.executionId && (
+                              <span className="details-note"> result of execution #{request.executionId}</span>
+                            )}
+                          </td>
+                          <td title={request.payer}>{shortAddress(request.payer)}</td>
+                          <td>{ethers.formatEther(request.amount)} ETH</td>
+                          <td>
+                            <span className={`status-badge tx-${request.status === "fulfilled" ? "confirmed" : request.status === "refunded" ? "cancelled" : "pending"}`}>
+                              {request.status}
+                            </span>
+                            {request.status === "pending" && request.deadline > 0 && (
+                              <span className="details-note">
+                                {" "}refundable after {new Date(request.deadline * 1000).toLocaleString()}
+                              </span>
+                            )}
+                          </td>
+                          <td>
+                            <TxLink hash={request.transactionHash} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <h4>Executions</h4>
+                {details.executions.length === 0 && details.programExecutions.length === 0 ? (
+                  <p>None</p>
+                ) : (
+                  <table className="details-table">
+                    <thead>
+                      <tr>
+                        <th>Event</th>
+                        <th>Result</th>
+                        <th>Block</th>
+                        <th>Transaction</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {details.executions.map(execution => (
+                        <tr key={`executed-${execution.transactionHash}`}>
+                          <td>FunctionExecuted</td>
+                          <td>-</td>
+                          <td>#{execution.blockNumber}</td>
+                          <td>
+                            <TxLink hash={execution.transactionHash} />
+                          </td>
+                        </tr>
+                      ))}
+                      {details.programExecutions.map(execution => (
+                        <tr key={`program-${execution.executionId}`}>
+                          <td>
+                            Program #{execution.programId}, execution #{execution.executionId}
+                            <span className="details-note"> by {shortAddress(execution.executor)}</span>
+                          </td>
+                          <td>{execution.result ?? <span className="details-note">encrypted</span>}</td>
+                          <td>#{execution.blockNumber}</td>
+                          <td>
+                            <TxLink hash={execution.transactionHash} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="details-panel metal-card">
+                <h3>Status History</h3>
+                {details.history.length === 0 ? (
+                  <p>Pending review, no status changes yet</p>
+                ) : (
+                  <div className="status-history">
+                    <ol>
+                      {details.history.map(change => (
+                        <li key={`${change.transactionHash}-${change.to}`}>
+                          <span className={`status-badge ${change.to}`}>{change.to}</span>
+                          <span className="status-history-meta">
+                            by {shortAddress(change.actor)} at block #{change.blockNumber}
+                          </span>
+                          {change.reason && <span className="status-history-reason">{change.reason}</span>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { SEPOLIA_CHAIN_ID } from "../contract";
+import {
+  TrackedTransaction,
+  cancelTransaction,
+  clearSettledTransactions,
+  requiredConfirmations,
+  speedUpTransaction
+} from "../txManager";
+
+interface TransactionHistoryProps {
+  transactions: TrackedTransaction[];
+  account: string;
+  // Confirmed transactions whose follow-up steps the app still has to send
+  canResume: (tx: TrackedTransaction) => boolean;
+  onResume: (tx: TrackedTransaction) => void;
+  onError: (error: unknown) => void;
+}
+
+const EXPLORERS: Record<number, string> = {
+  [SEPOLIA_CHAIN_ID]: "https://sepolia.etherscan.io/tx/"
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+export default function TransactionHistory({ transactions, account, canResume, onResume, onError }: TransactionHistoryProps) {
+  const [busyHash, setBusyHash] = useState<string | null>(null);
+
+  const replace = async (tx: TrackedTransaction, action: (hash: string) => Promise<unknown>) => {
+    setBusyHash(tx.hash);
+    try {
+      await action(tx.hash);
+    } catch (e) {
+      onError(e);
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  const describe = (tx: TrackedTransaction) => {
+    if (tx.status === "pending") {
+      return tx.blockNumber === undefined
+        ? "waiting to be mined"
+        : `${tx.confirmations}/${requiredConfirmations(tx.chainId)} confirmations`;
+    }
+    if (tx.status === "confirmed") return `block #${tx.blockNumber}`;
+    if (tx.status === "replaced" && tx.replacedBy) return `by ${shortHash(tx.replacedBy)}`;
+    return "";
+  };
+
+  return (
+    <div className="transactions-panel">
+      <div className="section-header">
+        <h2>Transactions</h2>
+        <div className="header-actions">
+          <button className="metal-button" onClick={clearSettledTransactions}>
+            Clear Settled
+          </button>
+        </div>
+      </div>
+
+      {transactions.length === 0 ? (
+        <div className="no-functions">
+          <p>No transactions sent from this browser yet</p>
+        </div>
+      ) : (
+        <div className="transaction-list">
+          {transactions.map(tx => {
+            const explorer = EXPLORERS[tx.chainId];
+            const ours = account.toLowerCase() === tx.from.toLowerCase();
+            return (
+              <div className="transaction-row metal-card" key={tx.hash}>
+                <div className="transaction-summary">
+                  <span className="transaction-label">{tx.label}</span>
+                  <span className="transaction-meta">
+                    {explorer ? (
+                      <a href={`${explorer}${tx.hash}`} target="_blank" rel="noreferrer">{shortHash(tx.hash)}</a>
+                    ) : (
+                      shortHash(tx.hash)
+                    )}
+                    {" · nonce "}{tx.nonce}
+                    {" · "}{new Date(tx.submittedAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className={`status-badge tx-${tx.status}`}>{tx.status}</div>
+                <span className="transaction-detail">{describe(tx)}</span>
+                <div className="transaction-actions">
+                  {tx.status === "pending" && tx.blockNumber === undefined && ours && (
+                    <>
+                      <button
+                        className="action-btn metal-button"
+                        disabled={busyHash === tx.hash}
+                        onClick={() => replace(tx, speedUpTransaction)}
+                        title="Resend with the same nonce and higher fees"
+                      >
+                        Speed Up
+                      </button>
+                      <button
+                        className="action-btn metal-button danger"
+                        disabled={busyHash === tx.hash}
+                        onClick={() => replace(tx, cancelTransaction)}
+                        title="Replace with an empty transfer to yourself"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                  {canResume(tx) && ours && (
+                    <button className="action-btn metal-button primary" onClick={() => onResume(tx)}>
+                      Resume
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
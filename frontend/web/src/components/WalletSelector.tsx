@@ -1,11 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-
-interface WalletInfo {
-  name: string;
-  provider: any;
-  icon: string;
-  isInstalled: boolean;
-}
+import { isDevWallet } from '../devWallet';
+import { WalletInfo, discoverWallets, getLastWalletId } from '../wallets';
 
 interface WalletSelectorProps {
   isOpen: boolean;
@@ -15,7 +10,6 @@ interface WalletSelectorProps {
 
 const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect, onClose }) => {
   const [availableWallets, setAvailableWallets] = useState<WalletInfo[]>([]);
-  const [showOtherWallets, setShowOtherWallets] = useState(false);
   const [theme, setTheme] = useState<Record<string, string>>({});
   const modalRef = useRef<HTMLDivElement>(null);
 
@@ -253,150 +247,29 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
   ];
 
   useEffect(() => {
-    detectWallets();
-    
     if (!isOpen) return;
     
     const hour = new Date().getHours();
     const themeIndex = hour % themeStyles.length;
     setTheme(themeStyles[themeIndex]);
-  }, [isOpen]);
-
-  const detectWallets = () => {
-    const wallets: WalletInfo[] = [];
-
-    const walletIcons: Record<string, string> = {
-      'MetaMask': 'https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png',
-      'OKX Wallet': 'https://www.okx.com/favicon.ico',
-      'Binance Wallet': 'https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png',
-      'Other Wallets': 'https://cdn-icons-png.flaticon.com/512/126/126472.png'
-    };
-
-    // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
-      wallets.push({
-        name: 'MetaMask',
-        provider: (window as any).ethereum,
-        icon: walletIcons['MetaMask'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'MetaMask',
-        provider: null,
-        icon: walletIcons['MetaMask'],
-        isInstalled: false
-      });
-    }
-
-    // OKX Wallet
-    if (typeof (window as any).okxwallet !== 'undefined') {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: (window as any).okxwallet,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: null,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: false
-      });
-    }
-
-    // Binance Wallet
-    if (typeof (window as any).BinanceChain !== 'undefined') {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: (window as any).BinanceChain,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: null,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: false
-      });
-    }
 
-    wallets.push({
-      name: 'Other Wallets',
-      provider: null,
-      icon: walletIcons['Other Wallets'],
-      isInstalled: true
-    });
+    // Wallets keep announcing themselves while the selector is open
+    return discoverWallets(setAvailableWallets);
+  }, [isOpen]);
 
-    setAvailableWallets(wallets);
-  };
+  const lastWalletId = getLastWalletId();
 
   const handleWalletSelect = async (wallet: WalletInfo) => {
-    if (wallet.name === 'Other Wallets') {
-      setShowOtherWallets(true);
-      return;
-    }
-
     if (!wallet.isInstalled) {
       // Open wallet download page
-      const walletUrls: { [key: string]: string } = {
-        'MetaMask': 'https://metamask.io/',
-        'OKX Wallet': 'https://www.okx.com/web3',
-        'Binance Wallet': 'https://www.bnbchain.org/en/binance-wallet',
-      };
-      
-      const url = walletUrls[wallet.name];
-      if (url) {
-        window.open(url, '_blank');
+      if (wallet.downloadUrl) {
+        window.open(wallet.downloadUrl, '_blank', 'noopener');
       }
       return;
     }
 
-    try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
-      onWalletSelect(wallet);
-    } catch (error) {
-      console.error('Error switching network:', error);
-      // Continue anyway, let the main app handle the connection
-      onWalletSelect(wallet);
-    }
-  };
-
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
+    // The app follows the chain the wallet is on, so it is not switched here
+    onWalletSelect(wallet);
   };
 
   if (!isOpen) return null;
@@ -433,125 +306,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
         position: 'relative',
         backdropFilter: 'var(--modal-backdrop-filter)'
       }}>
-        {showOtherWallets && (
-          <div style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            background: 'var(--other-wallet-bg)',
-            color: 'var(--text-color)',
-            zIndex: 10,
-            display: 'flex',
-            flexDirection: 'column',
-            padding: '20px',
-            borderRadius: 'var(--modal-border-radius)',
-            backdropFilter: 'var(--modal-backdrop-filter)'
-          }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
-              <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600' }}>Other Wallets</h3>
-              <button
-                onClick={() => setShowOtherWallets(false)}
-                style={{
-                  background: 'var(--close-btn-bg)',
-                  border: 'none',
-                  color: 'var(--text-color)',
-                  width: '30px',
-                  height: '30px',
-                  borderRadius: '50%',
-                  cursor: 'pointer',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  fontSize: '16px',
-                  transition: 'all 0.2s ease'
-                }}
-                onMouseOver={(e) => {
-                  e.currentTarget.style.background = 'var(--close-btn-hover)';
-                }}
-                onMouseOut={(e) => {
-                  e.currentTarget.style.background = 'var(--close-btn-bg)';
-                }}
-              >
-                ✕
-              </button>
-            </div>
-            
-            <div style={{ flex: 1, overflowY: 'auto' }}>
-              <div style={{ 
-                background: 'var(--info-box-bg)', 
-                padding: '15px', 
-                borderRadius: '12px',
-                marginBottom: '15px',
-                border: '1px solid var(--border-color)'
-              }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Popular Wallets</div>
-                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
-                  {['Coinbase Wallet', 'Trust Wallet', 'WalletConnect', 'Ledger', 'Trezor'].map(name => (
-                    <div key={name} style={{
-                      background: 'var(--other-wallet-item-bg)',
-                      padding: '8px 12px',
-                      borderRadius: '20px',
-                      fontSize: '14px'
-                    }}>
-                      {name}
-                    </div>
-                  ))}
-                </div>
-              </div>
-              
-              <div style={{ 
-                background: 'var(--info-box-bg)', 
-                padding: '15px', 
-                borderRadius: '12px',
-                border: '1px solid var(--border-color)'
-              }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Mobile Wallets</div>
-                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
-                  {['TokenPocket', 'MathWallet', 'SafePal', 'BitKeep', 'ImToken'].map(name => (
-                    <div key={name} style={{
-                      background: 'var(--other-wallet-item-bg)',
-                      padding: '8px 12px',
-                      borderRadius: '20px',
-                      fontSize: '14px'
-                    }}>
-                      {name}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
-            
-            <div style={{ marginTop: '15px', textAlign: 'center' }}>
-              <button
-                onClick={() => setShowOtherWallets(false)}
-                style={{
-                  background: 'var(--back-btn-bg)',
-                  color: 'white',
-                  border: 'none',
-                  padding: '10px 20px',
-                  borderRadius: '30px',
-                  fontWeight: '600',
-                  cursor: 'pointer',
-                  width: '100%',
-                  transition: 'all 0.2s ease'
-                }}
-                onMouseOver={(e) => {
-                  e.currentTarget.style.transform = 'translateY(-2px)';
-                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0, 0, 0, 0.2)';
-                }}
-                onMouseOut={(e) => {
-                  e.currentTarget.style.transform = 'translateY(0)';
-                  e.currentTarget.style.boxShadow = 'none';
-                }}
-              >
-                Back to Main
-              </button>
-            </div>
-          </div>
-        )}
-        
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px', position: 'relative', zIndex: 1 }}>
           <h2 style={{ 
             margin: 0, 
@@ -600,9 +354,9 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           position: 'relative',
           zIndex: 1
         }}>
-          {availableWallets.map((wallet, index) => (
+          {availableWallets.map(wallet => (
             <div
-              key={index}
+              key={wallet.id}
               onClick={() => handleWalletSelect(wallet)}
               style={{
                 borderRadius: '12px',
@@ -656,11 +410,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                     objectFit: 'contain',
                     filter: wallet.isInstalled ? 'none' : 'grayscale(100%)'
                   }}
-                  onError={(e) => {
-                    // Fallback if image fails to load
-                    const target = e.target as HTMLImageElement;
-                    target.src = 'https://via.placeholder.com/48';
-                  }}
                 />
               </div>
               
@@ -679,7 +428,13 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   opacity: 0.7,
                   color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
                 }}>
-                  {wallet.isInstalled ? 'Ready to connect' : 'Click to install'}
+                  {!wallet.isInstalled
+                    ? 'Click to install'
+                    : wallet.id === lastWalletId
+                      ? 'Last used'
+                      : isDevWallet(wallet.provider)
+                        ? 'Hardhat node, chain 31337'
+                        : 'Ready to connect'}
                 </div>
               </div>
               
@@ -708,7 +463,10 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            The app uses the deployment of the wallet's network
+          </div>
+          <div>
+            Wallets supporting EIP-6963 are listed automatically
           </div>
         </div>
       </div>
@@ -1,10 +1,95 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import frameworkAbiJson from "./abi/FheServerlessFramework.json";
+import rpcEndpoints from "./rpcEndpoints.json";
+import { RpcPool, RpcPoolConfig } from "./rpcPool";
+import { UnrecognizedChainError, WrongChainError, decodeError } from "./errors";
+import { Eip1193Provider, getWalletProvider } from "./wallets";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const FRAMEWORK_ABI = (frameworkAbiJson as any).abi || frameworkAbiJson;
+// Decodes the framework's custom errors, see describeError
+export const FRAMEWORK_INTERFACE = new ethers.Interface(FRAMEWORK_ABI);
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const LOCAL_CHAIN_ID = 31337;
+
+// Mirrors src/deploy/manifest.ts; deploy/deploy.ts writes these files
+const MANIFEST_VERSION = 1;
+
+export interface ContractDeployment {
+  address: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  abiHash: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  chainId: number;
+  network: string;
+  rpcUrl?: string;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+// One manifest per chain: src/deployments/<chainId>.json
+const manifestModules = import.meta.glob<DeploymentManifest>("./deployments/*.json", {
+  eager: true,
+  import: "default"
+});
+
+export const manifests: Record<number, DeploymentManifest> = {};
+for (const [file, manifest] of Object.entries(manifestModules)) {
+  if (manifest.version !== MANIFEST_VERSION) {
+    console.warn(`Ignoring ${file}: manifest version ${manifest.version}, expected ${MANIFEST_VERSION}`);
+    continue;
+  }
+  manifests[manifest.chainId] = manifest;
+}
+
+export const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID);
+
+const BUNDLED_ABIS: Record<string, any[]> = {
+  UniversalAdapter: ABI,
+  FheServerlessFramework: FRAMEWORK_ABI
+};
+
+// Addresses of the deployment on the selected chain, which follows the wallet
+export const config = {
+  chainId: DEFAULT_CHAIN_ID,
+  network: "",
+  contractAddress: "",
+  frameworkAddress: "",
+  // First block to scan for UniversalAdapter events, 0 when the manifest doesn't know
+  contractDeploymentBlock: 0,
+  // Same for FheServerlessFramework events
+  frameworkDeploymentBlock: 0,
+  deployer: ""
+};
+
+export function selectDeployment(chainId: number): DeploymentManifest | null {
+  const manifest = manifests[chainId] ?? null;
+  config.chainId = chainId;
+  config.network = manifest?.network ?? "";
+  config.contractAddress = manifest?.contracts.UniversalAdapter?.address ?? "";
+  config.frameworkAddress = manifest?.contracts.FheServerlessFramework?.address ?? "";
+  config.contractDeploymentBlock = manifest?.contracts.UniversalAdapter?.blockNumber ?? 0;
+  config.frameworkDeploymentBlock = manifest?.contracts.FheServerlessFramework?.blockNumber ?? 0;
+  config.deployer = manifest?.deployer ?? "";
+
+  for (const [name, deployment] of Object.entries(manifest?.contracts ?? {})) {
+    const abi = BUNDLED_ABIS[name];
+    if (abi && ethers.id(JSON.stringify(abi)) !== deployment.abiHash) {
+      console.warn(`Bundled ${name} ABI does not match the deployment on chain ${chainId}`);
+    }
+  }
+  return manifest;
+}
+
+selectDeployment(DEFAULT_CHAIN_ID);
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,41 +103,48 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
+// Per-chain RPC endpoints: VITE_RPC_URLS_<chainId> (comma separated, for URLs
+// with API keys), the manifest's local node, then rpcEndpoints.json
+const rpcConfigs: Record<string, RpcPoolConfig> = rpcEndpoints;
+const rpcPools = new Map<number, RpcPool>();
+
+const rpcPoolConfig = (chainId: number): RpcPoolConfig => {
+  const fromEnv: string = import.meta.env[`VITE_RPC_URLS_${chainId}`] || "";
+  const urls = [
+    ...fromEnv.split(","),
+    manifests[chainId]?.rpcUrl ?? "",
+    ...(rpcConfigs[chainId]?.urls ?? [])
+  ].map(url => url.trim()).filter(Boolean);
+  return { ...rpcConfigs[chainId], urls: [...new Set(urls)] };
+};
+
+// Reads go to the RPC pool of the selected chain, or through the wallet when
+// none is configured. Critical reads need the pool's quorum to agree.
+export const getReadProvider = async (critical = false): Promise<ethers.Provider> => {
+  let pool = rpcPools.get(config.chainId);
+  if (!pool) {
+    const poolConfig = rpcPoolConfig(config.chainId);
+    if (poolConfig.urls.length > 0) {
+      pool = RpcPool.create(config.chainId, poolConfig);
+      rpcPools.set(config.chainId, pool);
     }
   }
-  
-  throw new Error("All RPC providers failed");
+  if (pool) {
+    return critical ? pool.critical() : pool;
+  }
+  const wallet = getWalletProvider();
+  if (wallet) {
+    return new ethers.BrowserProvider(wallet);
+  }
+  throw new Error(`No RPC available for chain ${config.chainId}`);
 };
 
 export async function getContractReadOnly() {
+  if (!config.contractAddress) {
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getReadProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -67,19 +159,109 @@ export async function getContractReadOnly() {
   }
 }
 
+// `critical` reads need agreeing answers from the RPC pool's quorum
+export async function getFrameworkReadOnly(critical = false) {
+  if (!config.frameworkAddress) {
+    return null;
+  }
+  try {
+    const provider = await getReadProvider(critical);
+    const code = await retry(() => provider.getCode(config.frameworkAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return new ethers.Contract(config.frameworkAddress, FRAMEWORK_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only framework contract:", error);
+    return null;
+  }
+}
+
+// Signs with the connected wallet, which must be on the selected chain
+export const getWalletSigner = async () => {
+  const wallet = getWalletProvider();
+  if (!wallet) {
+    throw new Error("No wallet connected");
+  }
+  const provider = new ethers.BrowserProvider(wallet);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== config.chainId) {
+    throw new WrongChainError(Number(chainId), config.chainId, config.network);
+  }
+  return provider.getSigner();
+};
+
+// Asks the wallet to switch to `chainId`, adding the chain from its manifest and
+// RPC pool if the wallet doesn't know it yet. The app follows via chainChanged.
+export async function switchWalletChain(wallet: Eip1193Provider, chainId: number = DEFAULT_CHAIN_ID) {
+  const hexChainId = ethers.toQuantity(chainId);
+  try {
+    await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+  } catch (switchError) {
+    const error = decodeError(switchError);
+    if (!(error instanceof UnrecognizedChainError)) {
+      throw error;
+    }
+    const rpcUrls = rpcPoolConfig(chainId).urls;
+    if (rpcUrls.length === 0) {
+      throw new Error(`No RPC endpoint is configured for chain ${chainId}`);
+    }
+    await wallet.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId: hexChainId,
+          chainName: manifests[chainId]?.network || `Chain ${chainId}`,
+          nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+          rpcUrls
+        }
+      ]
+    });
+  }
+}
+
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+  if (!getWalletProvider()) {
+    throw new Error("No wallet connected");
+  }
+  if (!config.contractAddress) {
+    throw new Error(`UniversalAdapter is not deployed on chain ${config.chainId}`);
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
+    const signer = await getWalletSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
-    throw error;
+    throw decodeError(error);
+  }
+}
+
+export async function getFrameworkWithSigner() {
+  if (!getWalletProvider()) {
+    throw new Error("No wallet connected");
+  }
+  if (!config.frameworkAddress) {
+    throw new Error(`FheServerlessFramework is not deployed on chain ${config.chainId}`);
+  }
+  try {
+    const signer = await getWalletSigner();
+    return new ethers.Contract(config.frameworkAddress, FRAMEWORK_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create framework contract with signer:", error);
+    throw decodeError(error, FRAMEWORK_INTERFACE);
+  }
+}
+
+// Value to send with a metered framework call: whatever the caller's prepaid
+// balance is short of `price`. Anything already deposited is used first.
+export async function paymentFor(framework: ethers.Contract, price: bigint) {
+  if (price === 0n) {
+    return { value: 0n };
   }
+  const signer = framework.runner as ethers.Signer;
+  const balance: bigint = await framework.balances(await signer.getAddress());
+  return { value: price > balance ? price - balance : 0n };
 }
 
 export function normAddr(a: string) { 
@@ -0,0 +1,350 @@
+// devWallet.ts
+import { HDNodeWallet, JsonRpcProvider, Wallet, getBytes, isHexString, parseEther, randomBytes, toBeHex, uuidV4 } from "ethers";
+import { LOCAL_CHAIN_ID, manifests } from "./contract";
+import { Eip1193Provider, Eip6963ProviderInfo } from "./wallets";
+
+// Only in the vite dev server, or in builds made for QA with VITE_DEV_WALLET=true
+export const DEV_WALLET_ENABLED = import.meta.env.DEV || import.meta.env.VITE_DEV_WALLET === "true";
+
+// The mnemonic of the accounts hardhat funds on every local node
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+const DERIVATION_PATH = "m/44'/60'/0'/0";
+const ACCOUNT_COUNT = 10;
+// What each generated account is given on the local node
+const GENERATED_BALANCE = parseEther("10000");
+
+const SETTINGS_KEY = "fhe-dev-wallet";
+
+const CHAIN_ID_HEX = toBeHex(LOCAL_CHAIN_ID);
+
+export type DevWalletMode = "auto" | "confirm";
+export type DevWalletSource = "hardhat" | "generated";
+
+export interface DevWalletSettings {
+  source: DevWalletSource;
+  // Only kept for generated accounts; hardhat's is public anyway
+  mnemonic?: string;
+  accountIndex: number;
+  // "auto" approves every request, "confirm" asks for each one
+  mode: DevWalletMode;
+  // Whether the site was given the accounts, so reloads reconnect silently
+  authorized: boolean;
+}
+
+const DEFAULT_SETTINGS: DevWalletSettings = { source: "hardhat", accountIndex: 0, mode: "auto", authorized: false };
+
+const loadSettings = (): DevWalletSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    const settings = { ...DEFAULT_SETTINGS, ...stored };
+    if (settings.source === "generated" && !settings.mnemonic) settings.source = "hardhat";
+    if (!(settings.accountIndex >= 0 && settings.accountIndex < ACCOUNT_COUNT)) settings.accountIndex = 0;
+    return settings;
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+// The node the wallet sends to: the one the local deployment recorded, unless overridden
+const localRpcUrl = (): string =>
+  (import.meta.env[`VITE_RPC_URLS_${LOCAL_CHAIN_ID}`] || "").split(",")[0].trim() ||
+  manifests[LOCAL_CHAIN_ID]?.rpcUrl ||
+  "http://127.0.0.1:8545";
+
+/** An EIP-1193 error, as wallets throw them; `decodeError` reads the code. */
+class ProviderRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+const deriveAccounts = (mnemonic: string): HDNodeWallet[] => {
+  const root = HDNodeWallet.fromPhrase(mnemonic, undefined, DERIVATION_PATH);
+  return Array.from({ length: ACCOUNT_COUNT }, (_, i) => root.deriveChild(i));
+};
+
+/**
+ * An in-page wallet for the local hardhat chain. It signs with hardhat's
+ * default accounts or ones derived from a generated mnemonic, and sends
+ * everything else to the local node, so the app can be used and scripted
+ * without a browser extension.
+ */
+export class LocalDevWallet implements Eip1193Provider {
+  private settings = loadSettings();
+  private accounts = deriveAccounts(this.settings.mnemonic ?? HARDHAT_MNEMONIC);
+  private readonly node: JsonRpcProvider;
+  private readonly listeners = new Map<string, Set<(...args: any[]) => void>>();
+  private requestId = 0;
+
+  constructor(readonly rpcUrl: string) {
+    this.node = new JsonRpcProvider(rpcUrl, LOCAL_CHAIN_ID, { staticNetwork: true });
+  }
+
+  get mode() {
+    return this.settings.mode;
+  }
+
+  get source() {
+    return this.settings.source;
+  }
+
+  get accountIndex() {
+    return this.settings.accountIndex;
+  }
+
+  get addresses() {
+    return this.accounts.map(account => account.address);
+  }
+
+  get address() {
+    return this.accounts[this.settings.accountIndex].address;
+  }
+
+  async request({ method, params = [] }: { method: string; params?: any[] | Record<string, any> }): Promise<any> {
+    const args = Array.isArray(params) ? params : [params];
+    switch (method) {
+      case "eth_chainId":
+        return CHAIN_ID_HEX;
+      case "net_version":
+        return String(LOCAL_CHAIN_ID);
+      case "eth_accounts":
+        return this.settings.authorized ? [this.address] : [];
+      case "eth_requestAccounts":
+        return this.authorize();
+      case "wallet_switchEthereumChain":
+        if (Number(args[0]?.chainId) !== LOCAL_CHAIN_ID) {
+          throw new ProviderRpcError(4902, `The Local Dev Wallet only serves chain ${LOCAL_CHAIN_ID}`);
+        }
+        return null;
+      case "wallet_addEthereumChain":
+        throw new ProviderRpcError(4200, "The Local Dev Wallet cannot add networks");
+      case "eth_sendTransaction":
+        return this.sendTransaction(args[0]);
+      case "personal_sign":
+        return this.signMessage(args[0], args[1]);
+      case "eth_signTypedData_v4":
+        return this.signTypedData(args[0], args[1]);
+      case "eth_sign":
+      case "eth_signTransaction":
+        throw new ProviderRpcError(4200, `The Local Dev Wallet does not support ${method}`);
+      default:
+        return this.forward(method, args);
+    }
+  }
+
+  on(event: string, handler: (...args: any[]) => void) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(handler);
+  }
+
+  removeListener(event: string, handler: (...args: any[]) => void) {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /** Signs as account `index` from now on. */
+  async selectAccount(index: number) {
+    if (!Number.isInteger(index) || index < 0 || index >= ACCOUNT_COUNT) {
+      throw new Error(`Account index must be between 0 and ${ACCOUNT_COUNT - 1}`);
+    }
+    this.update({ accountIndex: index });
+    await this.fund();
+    this.emitAccounts();
+  }
+
+  setMode(mode: DevWalletMode) {
+    this.update({ mode });
+  }
+
+  /** Goes back to hardhat's default accounts. */
+  useHardhatAccounts() {
+    this.accounts = deriveAccounts(HARDHAT_MNEMONIC);
+    this.update({ source: "hardhat", mnemonic: undefined, accountIndex: 0 });
+    this.emitAccounts();
+  }
+
+  /** Derives accounts from a new random mnemonic and funds them on the local node. */
+  async generateAccounts() {
+    const mnemonic = Wallet.createRandom().mnemonic!.phrase;
+    this.accounts = deriveAccounts(mnemonic);
+    this.update({ source: "generated", mnemonic, accountIndex: 0 });
+    await Promise.all(this.accounts.map((_, i) => this.fund(i)));
+    this.emitAccounts();
+  }
+
+  /** The chain the node itself reports; `eth_chainId` is answered without asking it. */
+  async nodeChainId(): Promise<number> {
+    return Number(await this.forward("eth_chainId", []));
+  }
+
+  async balanceOf(address = this.address): Promise<bigint> {
+    return BigInt(await this.forward("eth_getBalance", [address, "latest"]));
+  }
+
+  private update(changes: Partial<DevWalletSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+  }
+
+  private emit(event: string, ...args: any[]) {
+    this.listeners.get(event)?.forEach(handler => handler(...args));
+  }
+
+  private emitAccounts() {
+    if (this.settings.authorized) this.emit("accountsChanged", [this.address]);
+  }
+
+  // Generated accounts start empty, and lose their balance when the node restarts
+  private async fund(index = this.settings.accountIndex) {
+    if (this.settings.source !== "generated") return;
+    const address = this.accounts[index].address;
+    if ((await this.balanceOf(address)) === 0n) {
+      await this.forward("hardhat_setBalance", [address, toBeHex(GENERATED_BALANCE)]);
+    }
+  }
+
+  private approve(description: string) {
+    if (this.settings.mode === "confirm" && !window.confirm(`Local Dev Wallet\n\n${description}`)) {
+      throw new ProviderRpcError(4001, "User rejected the request");
+    }
+  }
+
+  private async authorize(): Promise<string[]> {
+    if (!this.settings.authorized) {
+      this.approve(`Connect ${this.address} to this site?`);
+      await this.fund();
+      this.update({ authorized: true });
+      this.emit("connect", { chainId: CHAIN_ID_HEX });
+    }
+    return [this.address];
+  }
+
+  // The account that signs, checked against the one the request names
+  private signer(address?: string): HDNodeWallet {
+    if (!this.settings.authorized) {
+      throw new ProviderRpcError(4100, "Connect the Local Dev Wallet first");
+    }
+    const account = this.accounts[this.settings.accountIndex];
+    if (address && address.toLowerCase() !== account.address.toLowerCase()) {
+      throw new ProviderRpcError(4100, `The Local Dev Wallet signs as ${account.address}, not ${address}`);
+    }
+    return account;
+  }
+
+  private async sendTransaction(tx: Record<string, any>): Promise<string> {
+    const signer = this.signer(tx?.from).connect(this.node);
+    this.approve(
+      `Send a transaction from ${signer.address} to ${tx.to ?? "a new contract"}` +
+        (tx.value && BigInt(tx.value) > 0n ? ` with ${BigInt(tx.value)} wei` : "") +
+        "?"
+    );
+    // Speed-ups and cancellations send their own nonce and fees; the rest is filled in
+    const populated = await signer.populateTransaction({
+      to: tx.to,
+      data: tx.data ?? tx.input,
+      value: tx.value,
+      gasLimit: tx.gas,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+      chainId: LOCAL_CHAIN_ID
+    });
+    return this.forward("eth_sendRawTransaction", [await signer.signTransaction(populated)]);
+  }
+
+  private async signMessage(message: string, address: string): Promise<string> {
+    const signer = this.signer(address);
+    this.approve(`Sign a message as ${signer.address}?`);
+    return signer.signMessage(isHexString(message) ? getBytes(message) : message);
+  }
+
+  private async signTypedData(address: string, json: string | Record<string, any>): Promise<string> {
+    const signer = this.signer(address);
+    const typedData = typeof json === "string" ? JSON.parse(json) : json;
+    // ethers derives the domain type itself
+    const { EIP712Domain, ...types } = typedData.types;
+    this.approve(`Sign ${typedData.primaryType ?? "typed data"} as ${signer.address}?`);
+    return signer.signTypedData(typedData.domain, types, typedData.message);
+  }
+
+  // Passes the node's errors on unchanged, as wallets do
+  private async forward(method: string, params: any[]): Promise<any> {
+    const response = await fetch(this.rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++this.requestId, method, params })
+    });
+    const { result, error } = await response.json();
+    if (error) {
+      throw new ProviderRpcError(error.code, error.message, error.data);
+    }
+    return result;
+  }
+}
+
+const DEV_WALLET_INFO: Eip6963ProviderInfo = {
+  // crypto.randomUUID is missing outside secure contexts, e.g. a LAN address
+  uuid: uuidV4(randomBytes(16)),
+  name: "Local Dev Wallet",
+  icon:
+    "data:image/svg+xml," +
+    encodeURIComponent(
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48">` +
+        `<rect width="48" height="48" rx="12" fill="#f59e0b"/>` +
+        `<text x="24" y="30" font-family="monospace" font-size="14" font-weight="bold" fill="#1e293b" ` +
+        `text-anchor="middle">DEV</text></svg>`
+    ),
+  rdns: "localhost.devwallet"
+};
+
+declare global {
+  interface Window {
+    // Lets QA scripts switch accounts and modes from the console or a test runner
+    devWallet?: LocalDevWallet;
+  }
+}
+
+let devWallet: LocalDevWallet | null = null;
+
+export const getDevWallet = () => devWallet;
+
+export const isDevWallet = (provider: unknown) => !!devWallet && provider === devWallet;
+
+/**
+ * Announces the dev wallet under EIP-6963, so the wallet selector lists it,
+ * once the local node answers as chain 31337. Does nothing outside dev
+ * builds. Returns a function that stops announcing.
+ */
+export function startDevWallet(): () => void {
+  if (!DEV_WALLET_ENABLED) return () => {};
+  const wallet = new LocalDevWallet(localRpcUrl());
+  const announce = () =>
+    window.dispatchEvent(
+      new CustomEvent("eip6963:announceProvider", { detail: Object.freeze({ info: DEV_WALLET_INFO, provider: wallet }) })
+    );
+  let stopped = false;
+
+  wallet
+    .nodeChainId()
+    .then(chainId => {
+      if (chainId !== LOCAL_CHAIN_ID) {
+        console.info(`Local Dev Wallet disabled: ${wallet.rpcUrl} is chain ${chainId}, not ${LOCAL_CHAIN_ID}`);
+        return;
+      }
+      if (stopped) return;
+      devWallet = wallet;
+      window.devWallet = wallet;
+      window.addEventListener("eip6963:requestProvider", announce);
+      announce();
+    })
+    .catch(() => console.info(`Local Dev Wallet disabled: no node at ${wallet.rpcUrl}`));
+
+  return () => {
+    stopped = true;
+    window.removeEventListener("eip6963:requestProvider", announce);
+  };
+}
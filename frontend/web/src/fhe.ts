@@ -0,0 +1,149 @@
+// fhe.ts
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+import { config } from "./contract";
+
+const UINT32_MAX = 0xffffffff;
+const SEPOLIA_CHAIN_ID = 11155111;
+
+let sdkReady: Promise<boolean> | null = null;
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+// Only chains with a deployed FHEVM coprocessor and relayer can encrypt inputs.
+export const isFheSupportedChain = (chainId: number) => chainId === SEPOLIA_CHAIN_ID;
+
+// The relayer SDK bundle reads `window.relayerSDK` (loaded from index.html) at
+// import time, so it is imported lazily to keep the app usable without it.
+const loadRelayerSDK = () => import("@zama-fhe/relayer-sdk/bundle");
+
+export async function getFhevmInstance(eip1193: any): Promise<FhevmInstance> {
+  const chainId = Number(await eip1193.request({ method: "eth_chainId" }));
+  if (!isFheSupportedChain(chainId)) {
+    throw new Error(`FHE encryption is not available on chain ${chainId}`);
+  }
+
+  const { initSDK, createInstance, SepoliaConfig } = await loadRelayerSDK();
+  if (!sdkReady) {
+    sdkReady = initSDK().catch((e) => {
+      sdkReady = null;
+      throw e;
+    });
+  }
+  await sdkReady;
+
+  let instance = instances.get(chainId);
+  if (!instance) {
+    const instanceConfig: FhevmInstanceConfig = {
+      ...SepoliaConfig,
+      ...((config as any).fhevm || {}),
+      network: eip1193
+    };
+    instance = createInstance(instanceConfig);
+    instance.catch(() => instances.delete(chainId));
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+export const assertUint32 = (label: string, value: string | number) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > UINT32_MAX) {
+    throw new Error(`${label} must be an integer between 0 and ${UINT32_MAX}`);
+  }
+  return n;
+};
+
+/**
+ * Encrypts uint32 values client-side for `contractAddress`, bound to
+ * `userAddress`. Only the ciphertext handles and the input proof are
+ * returned; the plaintext values never leave the browser.
+ */
+export async function encryptUint32Values(
+  eip1193: any,
+  contractAddress: string,
+  userAddress: string,
+  values: number[]
+): Promise<{ handles: string[]; inputProof: string }> {
+  const instance = await getFhevmInstance(eip1193);
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach(value => input.add32(value));
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+type DecryptionPermit = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+// Signed EIP-712 permits, kept in memory only so the private key never
+// outlives the page.
+const permits = new Map<string, DecryptionPermit>();
+
+const getDecryptionPermit = async (
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  userAddress: string,
+  contractAddress: string
+): Promise<DecryptionPermit> => {
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = permits.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 86400 > now + 60) {
+    return cached;
+  }
+
+  const durationDays = 1;
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp: now, durationDays };
+  permits.set(key, permit);
+  return permit;
+};
+
+/**
+ * Decrypts uint32 handles for the connected account only. The wallet signs
+ * an EIP-712 permit for a throwaway keypair and the relayer returns the
+ * values re-encrypted under it, so nothing is revealed on-chain. The
+ * account must be ACL-allowed on every handle.
+ */
+export async function userDecryptUint32Values(
+  eip1193: any,
+  contractAddress: string,
+  handles: string[]
+): Promise<number[]> {
+  const instance = await getFhevmInstance(eip1193);
+  const signer = await new ethers.BrowserProvider(eip1193).getSigner();
+  const userAddress = await signer.getAddress();
+  const permit = await getDecryptionPermit(instance, signer, userAddress, contractAddress);
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    permit.startTimestamp,
+    permit.durationDays
+  );
+  return handles.map(handle => {
+    const value = results[handle] ?? results[handle.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Handle ${handle} could not be decrypted`);
+    }
+    return Number(value);
+  });
+}
@@ -0,0 +1,262 @@
+// functionDetails.ts
+import { ethers } from "ethers";
+import { config } from "./contract";
+import { FunctionStatusName, StatusChange, loadOnChainStatuses, loadStatusHistory } from "./functionStatus";
+
+// Subset of IACL, mirrors src/sdk/acl.ts
+const ACL_ABI = ["function isAllowed(bytes32 handle, address account) view returns (bool)"];
+
+// Mirrors FheServerlessFramework.ChargeKind
+const CHARGE_DECRYPTION = 1n;
+const CHARGE_EXECUTION_DECRYPTION = 4n;
+
+export interface HandleAccess {
+  account: string;
+  // Why the account is checked: owner, framework, grantee or you
+  roles: string[];
+  input: boolean;
+  parameters: boolean;
+}
+
+export interface DecryptionRequestInfo {
+  requestId: string;
+  // Set for requests revealing the result of a program execution
+  executionId?: string;
+  payer: string;
+  // Wei charged for the request
+  amount: bigint;
+  status: "pending" | "fulfilled" | "refunded";
+  // Refund deadline of the escrow, in seconds; 0 when nothing was escrowed
+  deadline: number;
+  transactionHash: string;
+  blockNumber: number;
+  settledTransactionHash?: string;
+}
+
+export interface EventInfo {
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface ProgramExecutionInfo extends EventInfo {
+  executionId: string;
+  programId: string;
+  executor: string;
+  // Revealed by the decryption oracle, null while it stays encrypted
+  result: number | null;
+}
+
+export interface OnChainFunction {
+  id: string;
+  owner: string;
+  timestamp: number;
+  inputHandle: string;
+  parametersHandle: string;
+  status: FunctionStatusName;
+  // Execution schema the owner bound with setFunctionSchema, ZeroHash when none
+  schemaHash: string;
+}
+
+export interface FunctionDetails {
+  // The UniversalAdapter record as stored, including fields the list drops
+  record: Record<string, any> | null;
+  onChain: OnChainFunction | null;
+  access: HandleAccess[];
+  decryptionRequests: DecryptionRequestInfo[];
+  executions: EventInfo[];
+  programExecutions: ProgramExecutionInfo[];
+  revealed: { input: number; parameters: number } | null;
+  history: StatusChange[];
+}
+
+const eventLogs = (logs: (ethers.EventLog | ethers.Log)[]) =>
+  logs.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog);
+
+const eventInfo = (log: ethers.Log): EventInfo => ({
+  transactionHash: log.transactionHash,
+  blockNumber: log.blockNumber
+});
+
+export async function loadFunctionRecord(adapter: ethers.Contract, id: string) {
+  const bytes = await adapter.getData(`function_${id}`);
+  return ethers.dataLength(bytes) > 0 ? JSON.parse(ethers.toUtf8String(bytes)) : null;
+}
+
+// Who may use the handles: the owner, the framework itself, every account
+// the owner granted access to, and the connected account
+async function loadAccess(
+  framework: ethers.Contract,
+  fn: OnChainFunction,
+  account: string
+): Promise<HandleAccess[]> {
+  const candidates = new Map<string, Set<string>>();
+  const add = (address: string, role: string) => {
+    const key = ethers.getAddress(address);
+    candidates.set(key, (candidates.get(key) ?? new Set()).add(role));
+  };
+  add(fn.owner, "owner");
+  add(await framework.getAddress(), "framework");
+  const grants = await framework.queryFilter(
+    framework.filters.FunctionAccessGranted(fn.id),
+    config.frameworkDeploymentBlock
+  );
+  eventLogs(grants).forEach(log => add(log.args.account, "grantee"));
+  if (account) add(account, "you");
+
+  const acl = new ethers.Contract(await framework.aclAddress(), ACL_ABI, framework.runner);
+  return Promise.all(
+    [...candidates].map(async ([address, roles]) => {
+      const [input, parameters] = await Promise.all([
+        acl.isAllowed(fn.inputHandle, address),
+        acl.isAllowed(fn.parametersHandle, address)
+      ]);
+      return { account: address, roles: [...roles], input, parameters };
+    })
+  );
+}
+
+// The request id of a decryption is the `ref` of the Charged event of the
+// transaction that requested it
+async function chargedRequest(
+  framework: ethers.Contract,
+  log: ethers.EventLog,
+  kind: bigint
+): Promise<DecryptionRequestInfo | null> {
+  const receipt = await framework.runner!.provider!.getTransactionReceipt(log.transactionHash);
+  for (const entry of receipt?.logs ?? []) {
+    let parsed: ethers.LogDescription | null = null;
+    try {
+      parsed = framework.interface.parseLog(entry);
+    } catch {
+      // Not a framework event
+    }
+    if (parsed?.name !== "Charged" || parsed.args.kind !== kind) continue;
+    const escrow = await framework.escrows(parsed.args.ref);
+    return {
+      requestId: parsed.args.ref.toString(),
+      payer: parsed.args.account,
+      amount: parsed.args.amount,
+      status: "pending",
+      deadline: Number(escrow.deadline),
+      ...eventInfo(log)
+    };
+  }
+  return null;
+}
+
+// Requests revealing the function are found through DecryptionRequested,
+// those revealing the result of one of its executions through
+// ExecutionDecryptionRequested
+async function loadDecryptionRequests(framework: ethers.Contract, functionId: string, executionIds: string[]) {
+  const fromBlock = config.frameworkDeploymentBlock;
+  const requested = eventLogs(await framework.queryFilter(framework.filters.DecryptionRequested(functionId), fromBlock));
+  const executionRequested = executionIds.length
+    ? eventLogs(await framework.queryFilter(framework.filters.ExecutionDecryptionRequested(executionIds), fromBlock))
+    : [];
+
+  const requests: DecryptionRequestInfo[] = [];
+  for (const log of requested) {
+    const request = await chargedRequest(framework, log, CHARGE_DECRYPTION);
+    if (request) requests.push(request);
+  }
+  for (const log of executionRequested) {
+    const request = await chargedRequest(framework, log, CHARGE_EXECUTION_DECRYPTION);
+    if (request) requests.push({ ...request, executionId: log.args.executionId.toString() });
+  }
+  requests.sort((a, b) => a.blockNumber - b.blockNumber);
+
+  for (const request of requests) {
+    const [fulfilled] = await framework.queryFilter(framework.filters.DecryptionFulfilled(request.requestId), fromBlock);
+    const [refunded] = fulfilled
+      ? []
+      : await framework.queryFilter(framework.filters.EscrowRefunded(request.requestId), fromBlock);
+    const settled = fulfilled ?? refunded;
+    if (settled) {
+      request.status = fulfilled ? "fulfilled" : "refunded";
+      request.settledTransactionHash = settled.transactionHash;
+    }
+  }
+  return requests;
+}
+
+async function loadProgramExecutions(framework: ethers.Contract, functionId: string) {
+  const logs = eventLogs(
+    await framework.queryFilter(framework.filters.ProgramExecuted(null, null, functionId), config.frameworkDeploymentBlock)
+  );
+  return Promise.all(
+    logs.map(async (log): Promise<ProgramExecutionInfo> => {
+      const executionId = log.args.executionId.toString();
+      const [execution, [result, revealed]] = await Promise.all([
+        framework.executions(executionId),
+        framework.getRevealedResult(executionId)
+      ]);
+      return {
+        executionId,
+        programId: log.args.programId.toString(),
+        executor: execution.executor,
+        result: revealed ? Number(result) : null,
+        ...eventInfo(log)
+      };
+    })
+  );
+}
+
+/**
+ * Everything known about a function record: the stored record, and when it
+ * was submitted on-chain its handles, ACL, decryption requests, executions,
+ * revealed values and status history.
+ */
+export async function loadFunctionDetails(
+  adapter: ethers.Contract | null,
+  framework: ethers.Contract | null,
+  id: string,
+  account: string
+): Promise<FunctionDetails> {
+  const record = adapter ? await loadFunctionRecord(adapter, id) : null;
+  const details: FunctionDetails = {
+    record,
+    onChain: null,
+    access: [],
+    decryptionRequests: [],
+    executions: [],
+    programExecutions: [],
+    revealed: null,
+    history: []
+  };
+  const onChainId = record?.onChainId ? String(record.onChainId) : "";
+  if (!framework || !onChainId) return details;
+
+  const fn = await framework.encryptedFunctions(onChainId);
+  if (fn.owner === ethers.ZeroAddress) return details;
+  const [statuses, schemaHash] = await Promise.all([
+    loadOnChainStatuses(framework, [onChainId]),
+    framework.functionSchemas(onChainId)
+  ]);
+  const onChain: OnChainFunction = {
+    id: onChainId,
+    owner: fn.owner,
+    timestamp: Number(fn.timestamp),
+    inputHandle: fn.encryptedInput,
+    parametersHandle: fn.encryptedParameters,
+    status: statuses[onChainId],
+    schemaHash
+  };
+  details.onChain = onChain;
+
+  const programExecutions = await loadProgramExecutions(framework, onChainId);
+  const [access, decryptionRequests, executed, decrypted, history] = await Promise.all([
+    loadAccess(framework, onChain, account),
+    loadDecryptionRequests(framework, onChainId, programExecutions.map(execution => execution.executionId)),
+    framework.queryFilter(framework.filters.FunctionExecuted(onChainId), config.frameworkDeploymentBlock),
+    framework.getDecryptedFunction(onChainId),
+    loadStatusHistory(framework, onChainId)
+  ]);
+  details.access = access;
+  details.decryptionRequests = decryptionRequests;
+  details.executions = executed.map(eventInfo);
+  details.programExecutions = programExecutions;
+  const [input, parameters, wasExecuted] = decrypted;
+  details.revealed = wasExecuted ? { input: Number(input), parameters: Number(parameters) } : null;
+  details.history = history;
+  return details;
+}
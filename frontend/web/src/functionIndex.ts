@@ -0,0 +1,111 @@
+// functionIndex.ts
+import { ethers } from "ethers";
+import { config } from "./contract";
+
+const FUNCTION_KEYS_KEY = "function_keys";
+const FUNCTION_KEY_PREFIX = "function_";
+const CACHE_PREFIX = "fhe-function-index";
+// Blocks below the head that are rescanned on every load, in case they reorg
+const REORG_DEPTH = 12;
+// Blocks per eth_getLogs request, below the range public endpoints accept
+const LOG_BLOCK_RANGE = 2000;
+// Requests per load; a longer scan carries on from its cursor next time
+const MAX_RANGES_PER_LOAD = 25;
+
+interface CachedIndex {
+  // Last block whose DataStored events are in `ids`
+  cursor: number;
+  ids: string[];
+}
+
+// Records are stored as `function_<id>`; `function_keys` shares the prefix
+export const functionIdFromKey = (key: string): string | null =>
+  key.startsWith(FUNCTION_KEY_PREFIX) && key !== FUNCTION_KEYS_KEY
+    ? key.slice(FUNCTION_KEY_PREFIX.length)
+    : null;
+
+export interface FunctionIndex {
+  ids: string[];
+  // False while the DataStored scan has not reached the head, so functions
+  // missing from `function_keys` may be missing here as well
+  complete: boolean;
+}
+
+const mergeIds = (...lists: string[][]) => [...new Set(lists.flat())];
+
+const cacheKey = () =>
+  `${CACHE_PREFIX}:${config.chainId}:${config.contractAddress.toLowerCase()}`;
+
+const readCache = (): CachedIndex | null => {
+  try {
+    const raw = localStorage.getItem(cacheKey());
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (index: CachedIndex) => {
+  try {
+    localStorage.setItem(cacheKey(), JSON.stringify(index));
+  } catch (e) {
+    console.warn("Could not cache the function index:", e);
+  }
+};
+
+// The legacy JSON array. Concurrent submitters overwrite each other's
+// entries, so it is only one of the sources of the index.
+export async function readFunctionKeys(contract: ethers.Contract): Promise<string[]> {
+  const keysBytes = await contract.getData(FUNCTION_KEYS_KEY);
+  if (keysBytes === "0x") {
+    return [];
+  }
+  try {
+    const keys = JSON.parse(ethers.toUtf8String(keysBytes));
+    return Array.isArray(keys) ? keys.map(String) : [];
+  } catch (e) {
+    console.error("Error parsing function keys:", e);
+    return [];
+  }
+}
+
+/**
+ * Ids of every function record ever written to the adapter. Each `setData`
+ * emits `DataStored`, so the ids are taken from those events and merged with
+ * `function_keys`; an entry lost from the array is still found. Blocks are
+ * scanned in bounded ranges and the cursor is cached per chain and adapter
+ * after each one, so reloads only fetch new blocks and a failed or unfinished
+ * scan resumes where it stopped.
+ */
+export async function loadFunctionIndex(contract: ethers.Contract): Promise<FunctionIndex> {
+  const keys = await readFunctionKeys(contract);
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    return { ids: keys, complete: false };
+  }
+
+  const cached = readCache();
+  let ids = cached?.ids ?? [];
+  let complete = false;
+  try {
+    const latest = await provider.getBlockNumber();
+    let fromBlock = cached ? cached.cursor + 1 : config.contractDeploymentBlock;
+    for (let ranges = 0; fromBlock <= latest && ranges < MAX_RANGES_PER_LOAD; ranges++) {
+      const toBlock = Math.min(fromBlock + LOG_BLOCK_RANGE - 1, latest);
+      const logs = await contract.queryFilter(contract.filters.DataStored(), fromBlock, toBlock);
+      const found = logs
+        .map((log) => functionIdFromKey((log as ethers.EventLog).args?.key ?? ""))
+        .filter((id): id is string => id !== null);
+      ids = mergeIds(ids, found);
+      writeCache({ cursor: Math.max(fromBlock - 1, Math.min(toBlock, latest - REORG_DEPTH)), ids });
+      fromBlock = toBlock + 1;
+    }
+    complete = fromBlock > latest;
+    if (!complete) {
+      console.warn(`Function index scanned up to block ${fromBlock - 1} of ${latest}, continuing on the next load`);
+    }
+  } catch (e) {
+    console.warn("Could not scan DataStored events, the function index is incomplete:", e);
+  }
+  return { ids: mergeIds(keys, ids), complete };
+}
@@ -0,0 +1,261 @@
+// functionList.ts
+import { ethers } from "ethers";
+import { config, getContractReadOnly, getFrameworkReadOnly } from "./contract";
+import { loadFunctionIndex } from "./functionIndex";
+import { FunctionStatusName, loadOnChainStatuses } from "./functionStatus";
+import { IndexedFunction, fetchIndexedFunctionPage } from "./indexerClient";
+
+export interface FHEFunction {
+  id: string;
+  name: string;
+  description?: string;
+  encryptedData: string;
+  handles?: string[];
+  onChainId?: string;
+  timestamp: number;
+  owner: string;
+  category: string;
+  // From the framework once the function is on-chain; legacy records keep
+  // the status stored with them
+  status: FunctionStatusName;
+}
+
+export const FUNCTION_SORTS = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name A-Z",
+  "name-desc": "Name Z-A"
+};
+
+export type FunctionSort = keyof typeof FUNCTION_SORTS;
+
+// What the functions list shows, as kept in the URL. Dates are the
+// YYYY-MM-DD values of the date inputs, both days included.
+export interface FunctionQuery {
+  search: string;
+  category: string;
+  status: string;
+  owner: string;
+  from: string;
+  to: string;
+  sort: FunctionSort;
+}
+
+export interface FunctionPage {
+  items: FHEFunction[];
+  nextCursor: string | null;
+  // Set when the function index could not be read in full, see loadFunctionIndex
+  incomplete?: boolean;
+}
+
+export const PAGE_SIZE = 12;
+
+const FILTER_KEYS = ["search", "category", "status", "owner", "from", "to"] as const;
+
+export const parseFunctionQuery = (query: string): FunctionQuery => {
+  const params = new URLSearchParams(query);
+  const sort = params.get("sort") ?? "";
+  return {
+    search: params.get("search") ?? "",
+    category: params.get("category") ?? "",
+    status: params.get("status") ?? "",
+    owner: params.get("owner") ?? "",
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    sort: sort in FUNCTION_SORTS ? (sort as FunctionSort) : "newest"
+  };
+};
+
+// The query string of the URL, without defaults. Values are kept as typed,
+// so that the inputs showing them keep their spaces.
+export const functionQueryString = (query: FunctionQuery) => {
+  const params = new URLSearchParams();
+  FILTER_KEYS.forEach(key => {
+    if (query[key]) params.set(key, query[key]);
+  });
+  if (query.sort !== "newest") params.set("sort", query.sort);
+  return params.toString();
+};
+
+export const hasFilters = (query: FunctionQuery) => FILTER_KEYS.some(key => query[key].trim() !== "");
+
+// Record timestamps are in seconds; the date inputs are local days
+const dayStart = (day: string) => (day ? Math.floor(new Date(`${day}T00:00:00`).getTime() / 1000) : NaN);
+
+const dateBounds = (query: FunctionQuery) => {
+  const from = dayStart(query.from);
+  const to = dayStart(query.to) + 24 * 60 * 60 - 1;
+  return { from: Number.isNaN(from) ? undefined : from, to: Number.isNaN(to) ? undefined : to };
+};
+
+export const fromIndexed = (fn: IndexedFunction): FHEFunction => ({
+  id: fn.id,
+  name: fn.name ?? "",
+  description: fn.description ?? undefined,
+  encryptedData: fn.data ?? "",
+  handles: fn.handles,
+  onChainId: fn.onChainId ?? undefined,
+  timestamp: fn.timestamp ?? 0,
+  owner: fn.owner ?? "",
+  category: fn.category ?? "",
+  status: (fn.status || "pending") as FunctionStatusName
+});
+
+// The status in a record can be written by anyone; submitted functions take
+// theirs from the framework. The indexer already does the same.
+export const applyOnChainStatuses = async (list: FHEFunction[]) => {
+  const onChain = list.filter(func => func.onChainId);
+  if (onChain.length === 0) return;
+  try {
+    const framework = await getFrameworkReadOnly();
+    if (!framework) return;
+    const statuses = await loadOnChainStatuses(framework, onChain.map(func => func.onChainId!));
+    onChain.forEach(func => {
+      func.status = statuses[func.onChainId!];
+    });
+  } catch (e) {
+    console.error("Error loading function statuses:", e);
+  }
+};
+
+// Parsed records by chain, adapter and id; null for missing or unreadable
+// ones. Cleared when the list is refreshed or a record changes.
+const records = new Map<string, FHEFunction | null>();
+
+export const clearFunctionCache = () => records.clear();
+
+const recordKey = (id: string) => `${config.chainId}:${config.contractAddress.toLowerCase()}:${id}`;
+
+const readRecord = async (contract: ethers.Contract, id: string): Promise<FHEFunction | null> => {
+  const key = recordKey(id);
+  if (records.has(key)) {
+    const cached = records.get(key);
+    return cached ? { ...cached } : null;
+  }
+  let funcBytes: string;
+  try {
+    funcBytes = await contract.getData(`function_${id}`);
+  } catch (e) {
+    console.error(`Error loading function ${id}:`, e);
+    // Not cached, the next load tries again
+    return null;
+  }
+  let record: FHEFunction | null = null;
+  if (ethers.dataLength(funcBytes) > 0) {
+    try {
+      const funcData = JSON.parse(ethers.toUtf8String(funcBytes));
+      record = {
+        id,
+        name: funcData.name,
+        description: funcData.description,
+        encryptedData: funcData.data,
+        handles: funcData.handles,
+        onChainId: funcData.onChainId,
+        timestamp: funcData.timestamp,
+        owner: funcData.owner,
+        category: funcData.category,
+        status: funcData.status || "pending"
+      };
+    } catch (e) {
+      console.error(`Error parsing function data for ${id}:`, e);
+    }
+  }
+  records.set(key, record);
+  return record ? { ...record } : null;
+};
+
+/** Reads the records of `ids` over RPC, skipping missing ones; statuses are not applied. */
+export const readFunctionRecords = async (contract: ethers.Contract, ids: string[]) => {
+  const list: FHEFunction[] = [];
+  for (const id of ids) {
+    const record = await readRecord(contract, id);
+    if (record) list.push(record);
+  }
+  return list;
+};
+
+const matches = (func: FHEFunction, query: FunctionQuery) => {
+  const { from, to } = dateBounds(query);
+  const text = `${func.name ?? ""}\n${func.description ?? ""}`.toLowerCase();
+  return (
+    query.search
+      .toLowerCase()
+      .split(/\s+/)
+      .every(word => text.includes(word)) &&
+    (!query.category || func.category === query.category) &&
+    (!query.status || func.status === query.status) &&
+    (!query.owner.trim() || func.owner?.toLowerCase() === query.owner.trim().toLowerCase()) &&
+    (from === undefined || func.timestamp >= from) &&
+    (to === undefined || func.timestamp <= to)
+  );
+};
+
+const compare = (sort: FunctionSort) => (a: FHEFunction, b: FHEFunction) => {
+  switch (sort) {
+    case "oldest":
+      return a.timestamp - b.timestamp;
+    case "name":
+      return (a.name ?? "").localeCompare(b.name ?? "");
+    case "name-desc":
+      return (b.name ?? "").localeCompare(a.name ?? "");
+    default:
+      return b.timestamp - a.timestamp;
+  }
+};
+
+// Without an indexer the cursor is the offset of the page. The index is in
+// creation order, so unfiltered pages by date only read their own records;
+// filters and name sorts read every record once, then use the cache.
+const loadRpcPage = async (query: FunctionQuery, cursor: string | null): Promise<FunctionPage> => {
+  const contract = await getContractReadOnly();
+  if (!contract) return { items: [], nextCursor: null };
+
+  const offset = Number(cursor) || 0;
+  const { ids, complete } = await loadFunctionIndex(contract);
+  let items: FHEFunction[];
+  let total: number;
+  if (!hasFilters(query) && (query.sort === "newest" || query.sort === "oldest")) {
+    const ordered = query.sort === "newest" ? [...ids].reverse() : ids;
+    total = ordered.length;
+    items = await readFunctionRecords(contract, ordered.slice(offset, offset + PAGE_SIZE));
+    await applyOnChainStatuses(items);
+  } else {
+    const all = await readFunctionRecords(contract, ids);
+    // Statuses are only needed up front to filter by them
+    if (query.status) await applyOnChainStatuses(all);
+    const found = all.filter(func => matches(func, query)).sort(compare(query.sort));
+    total = found.length;
+    items = found.slice(offset, offset + PAGE_SIZE);
+    if (!query.status) await applyOnChainStatuses(items);
+  }
+  return {
+    items,
+    nextCursor: offset + PAGE_SIZE < total ? String(offset + PAGE_SIZE) : null,
+    incomplete: !complete
+  };
+};
+
+/**
+ * One page of the functions list. The indexer filters and sorts it
+ * server-side; without one, the records are read over RPC.
+ */
+export async function fetchFunctionPage(query: FunctionQuery, cursor: string | null): Promise<FunctionPage> {
+  try {
+    const { from, to } = dateBounds(query);
+    const params = new URLSearchParams({ sort: query.sort, limit: String(PAGE_SIZE) });
+    (["search", "category", "status", "owner"] as const).forEach(key => {
+      if (query[key].trim()) params.set(key, query[key].trim());
+    });
+    if (from !== undefined) params.set("from", String(from));
+    if (to !== undefined) params.set("to", String(to));
+    if (cursor) params.set("cursor", cursor);
+
+    const page = await fetchIndexedFunctionPage(params);
+    if (page) {
+      return { items: page.items.map(fromIndexed), nextCursor: page.nextCursor };
+    }
+  } catch (e) {
+    console.warn("Indexer unavailable, reading functions over RPC:", e);
+  }
+  return loadRpcPage(query, cursor);
+}
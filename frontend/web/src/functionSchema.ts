@@ -0,0 +1,137 @@
+// functionSchema.ts
+import { ethers } from "ethers";
+
+// Largest value of each parameter type. Every value is encrypted as a
+// euint32, which is what the program's Arg instructions read; the type only
+// bounds what the form accepts.
+export const PARAMETER_TYPES = {
+  euint8: 0xff,
+  euint16: 0xffff,
+  euint32: 0xffffffff,
+  ebool: 1
+};
+
+export type ParameterType = keyof typeof PARAMETER_TYPES;
+
+export interface FunctionParameter {
+  name: string;
+  type: ParameterType;
+  min?: number;
+  max?: number;
+}
+
+// How a function is executed, as declared in its record: the registered
+// program to run and the encrypted inputs it reads, in Arg order
+export interface FunctionSchema {
+  programId: string;
+  parameters: FunctionParameter[];
+}
+
+// One encrypted input proof holds at most 2048 bits
+export const MAX_PARAMETERS = 64;
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const parameterBounds = (param: FunctionParameter) => ({
+  min: param.min ?? 0,
+  max: param.max ?? PARAMETER_TYPES[param.type]
+});
+
+/** The schema of a stored record, or null when it declares none. */
+export const readFunctionSchema = (record: Record<string, any> | null): FunctionSchema | null => {
+  if (!record || record.programId === undefined || record.programId === "") return null;
+  const parameters = Array.isArray(record.parameters) ? record.parameters : [];
+  return {
+    programId: String(record.programId),
+    parameters: parameters.map((param: any) => ({
+      name: String(param?.name ?? ""),
+      type: param?.type,
+      min: typeof param?.min === "number" ? param.min : undefined,
+      max: typeof param?.max === "number" ? param.max : undefined
+    }))
+  };
+};
+
+/**
+ * What the owner binds on-chain with setFunctionSchema. Anyone can overwrite
+ * the record, so its schema is only run when it hashes to the bound one.
+ */
+export const schemaHash = (schema: FunctionSchema): string =>
+  ethers.id(
+    JSON.stringify({
+      programId: schema.programId,
+      parameters: schema.parameters.map(({ name, type, min, max }) => ({ name, type, min, max }))
+    })
+  );
+
+/** What is wrong with a schema; empty when it can be used. */
+export const schemaErrors = (schema: FunctionSchema): string[] => {
+  const errors: string[] = [];
+  if (!/^[1-9][0-9]*$/.test(schema.programId)) {
+    errors.push("The program id must be a positive integer");
+  }
+  if (schema.parameters.length > MAX_PARAMETERS) {
+    errors.push(`At most ${MAX_PARAMETERS} parameters fit in one encrypted input`);
+  }
+  const names = new Set<string>();
+  schema.parameters.forEach((param, i) => {
+    const label = param.name || `Parameter ${i + 1}`;
+    if (!NAME_PATTERN.test(param.name)) {
+      errors.push(`${label}: names are letters, digits and underscores, not starting with a digit`);
+    } else if (names.has(param.name)) {
+      errors.push(`${label} is declared twice`);
+    }
+    names.add(param.name);
+    if (!(param.type in PARAMETER_TYPES)) {
+      errors.push(`${label}: unknown type ${param.type}`);
+      return;
+    }
+    const limit = PARAMETER_TYPES[param.type];
+    const { min, max } = parameterBounds(param);
+    for (const [bound, value] of [["minimum", min], ["maximum", max]] as const) {
+      if (!Number.isInteger(value) || value < 0 || value > limit) {
+        errors.push(`${label}: the ${bound} must be an integer between 0 and ${limit}`);
+      }
+    }
+    if (min > max) {
+      errors.push(`${label}: the minimum is above the maximum`);
+    }
+  });
+  return errors;
+};
+
+/** Parses what was entered for `param`; throws a message for the form when it is out of range. */
+export const parseParameterValue = (param: FunctionParameter, raw: string): number => {
+  if (param.type === "ebool") {
+    if (raw === "true" || raw === "1") return 1;
+    if (raw === "false" || raw === "0" || raw === "") return 0;
+    throw new Error(`${param.name} must be true or false`);
+  }
+  const { min, max } = parameterBounds(param);
+  const value = Number(raw);
+  if (raw.trim() === "" || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${param.name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+};
+
+// A parameter row of the create form, with the bounds as typed
+export interface ParameterDraft {
+  name: string;
+  type: ParameterType;
+  min: string;
+  max: string;
+}
+
+export const emptyParameter = (): ParameterDraft => ({ name: "", type: "euint32", min: "", max: "" });
+
+/** The schema the create form describes; empty bounds default to the type's range. */
+export const schemaFromDrafts = (programId: string, drafts: ParameterDraft[]): FunctionSchema => ({
+  programId: programId.trim(),
+  parameters: drafts.map(draft => ({
+    name: draft.name.trim(),
+    type: draft.type,
+    ...(draft.min.trim() !== "" && { min: Number(draft.min) }),
+    ...(draft.max.trim() !== "" && { max: Number(draft.max) })
+  }))
+});
@@ -0,0 +1,87 @@
+// functionStatus.ts
+import { ethers } from "ethers";
+import { config } from "./contract";
+import { fetchStatusChanges } from "./indexerClient";
+
+// Mirrors FheServerlessFramework.FunctionStatus
+export const FUNCTION_STATUSES = ["pending", "verified", "rejected", "deprecated"] as const;
+
+export type FunctionStatusName = (typeof FUNCTION_STATUSES)[number];
+
+export interface StatusChange {
+  from: FunctionStatusName;
+  to: FunctionStatusName;
+  actor: string;
+  reason: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+const statusName = (value: ethers.BigNumberish): FunctionStatusName =>
+  FUNCTION_STATUSES[Number(value)] ?? "pending";
+
+export const statusValue = (status: FunctionStatusName) => FUNCTION_STATUSES.indexOf(status);
+
+/**
+ * Statuses the connected account may move a function to. Mirrors the checks
+ * of `setFunctionStatus`: reviewers verify or reject pending functions, and
+ * reviewers or the owner deprecate verified ones.
+ */
+export const allowedTransitions = (
+  from: FunctionStatusName,
+  roles: { reviewer: boolean; owner: boolean }
+): FunctionStatusName[] => {
+  if (from === "pending") return roles.reviewer ? ["verified", "rejected"] : [];
+  if (from === "verified") return roles.reviewer || roles.owner ? ["deprecated"] : [];
+  return [];
+};
+
+// The admin counts as a reviewer
+export const isReviewer = async (framework: ethers.Contract, account: string) => {
+  if (!account) return false;
+  const [reviewer, admin] = await Promise.all([framework.reviewers(account), framework.admin()]);
+  return reviewer || admin.toLowerCase() === account.toLowerCase();
+};
+
+// On-chain status of each function id
+export const loadOnChainStatuses = async (framework: ethers.Contract, onChainIds: string[]) => {
+  const statuses: Record<string, FunctionStatusName> = {};
+  await Promise.all(
+    [...new Set(onChainIds)].map(async id => {
+      statuses[id] = statusName(await framework.functionStatus(id));
+    })
+  );
+  return statuses;
+};
+
+// Audit trail of a function, oldest first: from the indexer when there is
+// one, otherwise from the framework's FunctionStatusChanged events
+export const loadStatusHistory = async (framework: ethers.Contract, onChainId: string): Promise<StatusChange[]> => {
+  try {
+    const indexed = await fetchStatusChanges(onChainId);
+    if (indexed) {
+      return indexed.map(change => ({
+        ...change,
+        from: change.from as FunctionStatusName,
+        to: change.to as FunctionStatusName
+      }));
+    }
+  } catch (e) {
+    console.warn("Indexer unavailable, reading the status history over RPC:", e);
+  }
+
+  const logs = await framework.queryFilter(
+    framework.filters.FunctionStatusChanged(onChainId),
+    config.frameworkDeploymentBlock
+  );
+  return logs
+    .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+    .map(log => ({
+      from: statusName(log.args.from),
+      to: statusName(log.args.to),
+      actor: log.args.actor,
+      reason: log.args.reason,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber
+    }));
+};
@@ -0,0 +1,96 @@
+// indexerClient.ts
+import { config } from "./contract";
+
+// Base URL of `npx hardhat fhe:indexer`; empty reads everything over RPC
+export const INDEXER_URL = (import.meta.env.VITE_INDEXER_URL || "").replace(/\/$/, "");
+
+const PAGE_SIZE = 100;
+
+export interface IndexedFunction {
+  id: string;
+  name: string | null;
+  description: string | null;
+  category: string | null;
+  status: string | null;
+  owner: string | null;
+  timestamp: number | null;
+  onChainId: string | null;
+  data: string | null;
+  handles: string[];
+  executed: boolean;
+}
+
+export interface IndexedStatusChange {
+  functionId: string;
+  from: string;
+  to: string;
+  actor: string;
+  reason: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+const getJson = async (path: string) => {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(`Indexer ${path} answered ${response.status}`);
+  }
+  return response.json();
+};
+
+// Whether the indexer is configured and follows the selected chain
+const indexerFollowsChain = async () => {
+  if (!INDEXER_URL) {
+    return false;
+  }
+  const status = await getJson("/status");
+  if (Number(status.chainId) !== config.chainId) {
+    console.warn(`Indexer follows chain ${status.chainId}, reading chain ${config.chainId} over RPC`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Every function record the indexer knows, or null when no indexer is
+ * configured or it follows another chain than the selected one.
+ */
+export async function fetchIndexedFunctions(): Promise<IndexedFunction[] | null> {
+  if (!(await indexerFollowsChain())) {
+    return null;
+  }
+
+  const functions: IndexedFunction[] = [];
+  let cursor: string | null = null;
+  do {
+    const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (cursor) {
+      query.set("cursor", cursor);
+    }
+    const page = await getJson(`/functions?${query}`);
+    functions.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return functions;
+}
+
+/**
+ * One page of `/functions` with the given filters, sort and cursor, or null
+ * without a usable indexer.
+ */
+export async function fetchIndexedFunctionPage(
+  params: URLSearchParams
+): Promise<{ items: IndexedFunction[]; nextCursor: string | null } | null> {
+  if (!(await indexerFollowsChain())) {
+    return null;
+  }
+  return getJson(`/functions?${params}`);
+}
+
+// Review history of an on-chain function, oldest first; null without a usable indexer
+export async function fetchStatusChanges(onChainId: string): Promise<IndexedStatusChange[] | null> {
+  if (!(await indexerFollowsChain())) {
+    return null;
+  }
+  return getJson(`/status-changes/${encodeURIComponent(onChainId)}`);
+}
@@ -0,0 +1,49 @@
+// route.ts
+import { useEffect, useState } from "react";
+
+// Hash routes, so that links work on static hosting without rewrites:
+//   #/functions?search=...   the functions list, filtered as in the query
+//   #/functions/<id>?...     details of the function record <id>; the query
+//                            is the one of the list it was opened from
+export interface Route {
+  tab: string | null;
+  functionId: string | null;
+  query: string;
+}
+
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ""] = hash.replace(/^#\/?/, "").split("?");
+  const [tab, id] = path.split("/");
+  return {
+    tab: tab || null,
+    functionId: tab === "functions" && id ? decodeURIComponent(id) : null,
+    query
+  };
+};
+
+const withQuery = (path: string, query: string) => (query ? `${path}?${query}` : path);
+
+export const functionsHash = (query = "") => withQuery("#/functions", query);
+
+export const functionDetailsHash = (id: string, query = "") =>
+  withQuery(`#/functions/${encodeURIComponent(id)}`, query);
+
+// `replace` keeps the history entry, e.g. while a filter is being typed
+export const navigate = (hash: string, replace = false) => {
+  if (window.location.hash === hash) return;
+  if (replace) {
+    window.location.replace(hash);
+  } else {
+    window.location.hash = hash;
+  }
+};
+
+export const useRoute = () => {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+  useEffect(() => {
+    const onChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
+  return route;
+};
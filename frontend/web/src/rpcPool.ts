@@ -0,0 +1,288 @@
+// rpcPool.ts
+import { ethers, JsonRpcError, JsonRpcPayload, JsonRpcResult } from "ethers";
+import { RpcError } from "./errors";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+// Weight of the newest request in an endpoint's average latency
+const LATENCY_SMOOTHING = 0.3;
+// JSON-RPC error codes some providers use instead of HTTP 429
+const RATE_LIMIT_CODES = new Set([429, -32005]);
+// Index of the block tag parameter of the reads a quorum compares
+const BLOCK_TAG_PARAMS: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getTransactionCount: 1
+};
+
+export interface RpcPoolConfig {
+  urls: string[];
+  // Matching answers a critical read needs, capped at the number of URLs
+  quorum?: number;
+  timeoutMs?: number;
+}
+
+type JsonRpcResponse = JsonRpcResult | JsonRpcError;
+
+interface Endpoint {
+  url: string;
+  // Average of recent response times, null until the first answer
+  latencyMs: number | null;
+  // Consecutive failures, reset by the next answer
+  failures: number;
+  backoffUntil: number;
+  chainCheck?: Promise<boolean>;
+  // Set when the endpoint turned out to serve another chain
+  wrongChain?: boolean;
+}
+
+class EndpointError extends Error {
+  constructor(message: string, readonly retryAfterMs = 0) {
+    super(message);
+  }
+}
+
+const isRateLimited = (response: JsonRpcResponse | JsonRpcResponse[]) =>
+  (Array.isArray(response) ? response : [response]).some(
+    r => "error" in r && RATE_LIMIT_CODES.has(r.error.code)
+  );
+
+const retryAfterMs = (response: Response) => {
+  const seconds = Number(response.headers.get("retry-after"));
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+};
+
+const methodsOf = (payload: JsonRpcPayload | JsonRpcPayload[]) =>
+  (Array.isArray(payload) ? payload : [payload]).map(p => p.method).join(", ");
+
+const readsLatest = (payload: JsonRpcPayload) => {
+  const index = BLOCK_TAG_PARAMS[payload.method];
+  if (index === undefined) return false;
+  const tag = (payload.params as unknown[] | undefined)?.[index];
+  return tag === undefined || tag === "latest";
+};
+
+// Endpoints a block apart would disagree on `latest`, so reads are pinned to a
+// block every endpoint asked has
+const pinToBlock = (payload: JsonRpcPayload, block: number): JsonRpcPayload => {
+  if (!readsLatest(payload)) return payload;
+  const params = [...((payload.params as unknown[] | undefined) ?? [])];
+  params[BLOCK_TAG_PARAMS[payload.method]] = ethers.toQuantity(block);
+  return { ...payload, params };
+};
+
+/**
+ * JSON-RPC provider over several endpoints of one chain. Each request goes to
+ * the healthy endpoint with the lowest latency and moves on to the next one
+ * when it fails; endpoints that time out, answer 429 or fail otherwise are
+ * skipped for an exponentially growing backoff. `critical()` returns a view
+ * over the same endpoints that only accepts an answer once `quorum` of them
+ * returned it.
+ */
+export class RpcPool extends ethers.JsonRpcApiProvider {
+  private criticalView: RpcPool | undefined;
+
+  private constructor(
+    readonly chainId: number,
+    private readonly endpoints: Endpoint[],
+    private readonly timeoutMs: number,
+    private readonly quorum: number,
+    private readonly criticalQuorum: number
+  ) {
+    const network = ethers.Network.from(chainId);
+    // Unbatched, so that each request fails over and is compared on its own
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  static create(chainId: number, config: RpcPoolConfig): RpcPool {
+    if (config.urls.length === 0) {
+      throw new Error(`No RPC URLs configured for chain ${chainId}`);
+    }
+    const endpoints = config.urls.map(url => ({ url, latencyMs: null, failures: 0, backoffUntil: 0 }));
+    const quorum = Math.min(Math.max(config.quorum ?? 1, 1), endpoints.length);
+    return new RpcPool(chainId, endpoints, config.timeoutMs ?? DEFAULT_TIMEOUT_MS, 1, quorum);
+  }
+
+  critical(): RpcPool {
+    if (this.quorum === this.criticalQuorum) {
+      return this;
+    }
+    this.criticalView ??= new RpcPool(
+      this.chainId,
+      this.endpoints,
+      this.timeoutMs,
+      this.criticalQuorum,
+      this.criticalQuorum
+    );
+    return this.criticalView;
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResponse[]> {
+    const response = this.quorum > 1 ? await this.sendWithQuorum(payload) : await this.sendToFirst(payload);
+    return Array.isArray(response) ? response : [response];
+  }
+
+  private async sendToFirst(payload: JsonRpcPayload | JsonRpcPayload[]) {
+    let lastError: unknown;
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.post(endpoint, payload);
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    throw new RpcError(`All RPC endpoints of chain ${this.chainId} failed on ${methodsOf(payload)}`, {
+      cause: lastError
+    });
+  }
+
+  // Asks just enough endpoints to reach the quorum if they agree, and one
+  // more for every answer that is missing or differs. Reads of `latest` go to
+  // the endpoints that returned their head, at the lowest of those heads.
+  private async sendWithQuorum(request: JsonRpcPayload | JsonRpcPayload[]) {
+    let ranked = this.ranked();
+    let payload = request;
+    if ((Array.isArray(request) ? request : [request]).some(readsLatest)) {
+      const heads = await this.heads(ranked);
+      ranked = ranked.filter(endpoint => heads.has(endpoint));
+      const block = Math.min(...heads.values());
+      payload = Array.isArray(request) ? request.map(p => pinToBlock(p, block)) : pinToBlock(request, block);
+    }
+    const answers = new Map<string, { count: number; response: JsonRpcResponse | JsonRpcResponse[] }>();
+    let asked = 0;
+    while (asked < ranked.length) {
+      const best = Math.max(0, ...[...answers.values()].map(answer => answer.count));
+      const batch = ranked.slice(asked, asked + this.quorum - best);
+      asked += batch.length;
+
+      const settled = await Promise.allSettled(batch.map(endpoint => this.post(endpoint, payload)));
+      for (const result of settled) {
+        if (result.status === "fulfilled") {
+          const key = JSON.stringify(result.value);
+          const answer = answers.get(key) ?? { count: 0, response: result.value };
+          answer.count++;
+          answers.set(key, answer);
+        }
+      }
+      const agreed = [...answers.values()].find(answer => answer.count >= this.quorum);
+      if (agreed) {
+        return agreed.response;
+      }
+    }
+    throw new RpcError(
+      `No ${this.quorum} of ${ranked.length} RPC endpoints of chain ${this.chainId} agreed on ${methodsOf(payload)}`
+    );
+  }
+
+  // Current block of each endpoint that answers
+  private async heads(endpoints: Endpoint[]): Promise<Map<Endpoint, number>> {
+    const heads = new Map<Endpoint, number>();
+    const payload: JsonRpcPayload = { method: "eth_blockNumber", params: [], id: 0, jsonrpc: "2.0" };
+    await Promise.allSettled(
+      endpoints.map(async endpoint => {
+        const response = await this.post(endpoint, payload);
+        if (!Array.isArray(response) && "result" in response) {
+          heads.set(endpoint, Number(response.result));
+        }
+      })
+    );
+    if (heads.size === 0) {
+      throw new RpcError(`No RPC endpoint of chain ${this.chainId} returned its block number`);
+    }
+    return heads;
+  }
+
+  // Endpoints out of backoff by latency, penalised for recent failures, then
+  // the ones in backoff by how soon it ends as a last resort. Endpoints
+  // without a measured latency come first so that each one gets tried.
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const score = (e: Endpoint) => (e.latencyMs ?? 0) * (1 + e.failures);
+    const usable = this.endpoints.filter(e => !e.wrongChain);
+    const ready = usable.filter(e => e.backoffUntil <= now).sort((a, b) => score(a) - score(b));
+    const waiting = usable.filter(e => e.backoffUntil > now).sort((a, b) => a.backoffUntil - b.backoffUntil);
+    return [...ready, ...waiting];
+  }
+
+  private async post(endpoint: Endpoint, payload: JsonRpcPayload | JsonRpcPayload[]) {
+    endpoint.chainCheck ??= this.checkChain(endpoint);
+    if (!(await endpoint.chainCheck)) {
+      throw new Error(`${endpoint.url} is not on chain ${this.chainId}`);
+    }
+
+    const started = performance.now();
+    let response: JsonRpcResponse | JsonRpcResponse[];
+    try {
+      response = await this.fetchJson(endpoint.url, payload);
+    } catch (e) {
+      this.recordFailure(endpoint, e);
+      throw e;
+    }
+    const elapsed = performance.now() - started;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null ? elapsed : endpoint.latencyMs + LATENCY_SMOOTHING * (elapsed - endpoint.latencyMs);
+    endpoint.failures = 0;
+    endpoint.backoffUntil = 0;
+    return response;
+  }
+
+  // A misconfigured URL must not answer for this chain. Endpoints that can't
+  // be reached are checked again on their next request.
+  private async checkChain(endpoint: Endpoint): Promise<boolean> {
+    try {
+      const response = await this.fetchJson(endpoint.url, { method: "eth_chainId", params: [], id: 0, jsonrpc: "2.0" });
+      if (Array.isArray(response) || !("result" in response)) {
+        throw new EndpointError(`${endpoint.url} did not return a chain id`);
+      }
+      if (Number(response.result) !== this.chainId) {
+        console.warn(`Ignoring RPC ${endpoint.url}: it serves chain ${Number(response.result)}, not ${this.chainId}`);
+        endpoint.wrongChain = true;
+        return false;
+      }
+      return true;
+    } catch (e) {
+      endpoint.chainCheck = undefined;
+      this.recordFailure(endpoint, e);
+      throw e;
+    }
+  }
+
+  private async fetchJson(url: string, payload: JsonRpcPayload | JsonRpcPayload[]) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+      if (response.status === 429) {
+        throw new EndpointError(`${url} is rate limiting`, retryAfterMs(response));
+      }
+      if (!response.ok) {
+        throw new EndpointError(`${url} answered ${response.status}`);
+      }
+      const body: JsonRpcResponse | JsonRpcResponse[] = await response.json();
+      if (isRateLimited(body)) {
+        throw new EndpointError(`${url} is rate limiting`);
+      }
+      return body;
+    } catch (e) {
+      throw controller.signal.aborted ? new EndpointError(`${url} timed out after ${this.timeoutMs}ms`) : e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.failures++;
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (endpoint.failures - 1));
+    const retryAfter = error instanceof EndpointError ? error.retryAfterMs : 0;
+    endpoint.backoffUntil = Date.now() + Math.max(backoff, retryAfter);
+    console.warn(`RPC ${endpoint.url} failed (${error}), skipping it for ${Math.max(backoff, retryAfter)}ms`);
+  }
+}
@@ -0,0 +1,359 @@
+// txManager.ts
+import { ethers } from "ethers";
+import { LOCAL_CHAIN_ID, config, getReadProvider, getWalletSigner } from "./contract";
+
+const STORAGE_KEY = "fhe-transactions";
+// Settled transactions kept in the history; pending ones are never dropped
+const MAX_HISTORY = 50;
+const POLL_INTERVAL_MS = 4000;
+// How long a transaction may be unknown to the node, with its nonce still
+// unused, before it counts as dropped from the mempool
+const DROP_TIMEOUT_MS = 10 * 60 * 1000;
+// Replacements must pay at least 10% more; 25% also beats a rising base fee
+const FEE_BUMP_PERCENT = 125n;
+const CANCEL_GAS_LIMIT = 21000n;
+// Blocks searched for the transaction that used the nonce of one the wallet
+// replaced by itself
+const REPLACEMENT_SCAN_BLOCKS = 100;
+
+export type TxStatus = "pending" | "confirmed" | "failed" | "dropped" | "replaced" | "cancelled";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  // Wei amounts as decimal strings
+  value: string;
+  gasLimit: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  // What the user sees in the history, e.g. "Verify function 1a2b3c"
+  label: string;
+  // What the app does once it confirms, see App.tsx
+  kind: string;
+  status: TxStatus;
+  confirmations: number;
+  blockNumber?: number;
+  submittedAt: number;
+  // Last time the node still knew the transaction, and the head block then
+  lastSeenAt: number;
+  lastSeenBlock?: number;
+  // The speed-up or cancellation this one replaced, and the other way round
+  replaces?: string;
+  replacedBy?: string;
+  cancellation?: boolean;
+  // Whatever the app needs to finish its flow after a reload
+  meta?: Record<string, any>;
+}
+
+type Listener = (transactions: TrackedTransaction[], changed: TrackedTransaction[]) => void;
+
+const listeners = new Set<Listener>();
+
+export const requiredConfirmations = (chainId: number) => (chainId === LOCAL_CHAIN_ID ? 1 : 2);
+
+const readAll = (): TrackedTransaction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeAll = (transactions: TrackedTransaction[], changed: TrackedTransaction[]) => {
+  let settled = 0;
+  const kept = transactions.filter(tx => tx.status === "pending" || ++settled <= MAX_HISTORY);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.warn("Failed to persist transactions:", e);
+  }
+  const current = kept.filter(tx => tx.chainId === config.chainId);
+  listeners.forEach(listener => listener(current, changed));
+};
+
+// Transactions of the selected chain, newest first
+export const listTransactions = () => readAll().filter(tx => tx.chainId === config.chainId);
+
+export const getTransaction = (hash: string) => readAll().find(tx => tx.hash === hash) ?? null;
+
+export const subscribeTransactions = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateTransaction = (hash: string, patch: Partial<TrackedTransaction>) => {
+  const all = readAll();
+  const tx = all.find(t => t.hash === hash);
+  if (!tx) return;
+  Object.assign(tx, patch);
+  writeAll(all, [tx]);
+};
+
+// Records a transaction the wallet just sent, before anything waits on it
+export const trackTransaction = (
+  response: ethers.TransactionResponse,
+  label: string,
+  kind: string,
+  extra: Partial<TrackedTransaction> = {}
+): TrackedTransaction => {
+  const now = Date.now();
+  const tx: TrackedTransaction = {
+    hash: response.hash,
+    chainId: Number(response.chainId) || config.chainId,
+    from: response.from,
+    nonce: response.nonce,
+    to: response.to,
+    data: response.data,
+    value: response.value.toString(),
+    gasLimit: response.gasLimit.toString(),
+    gasPrice: response.maxFeePerGas === null ? response.gasPrice?.toString() : undefined,
+    maxFeePerGas: response.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString(),
+    label,
+    kind,
+    status: "pending",
+    confirmations: 0,
+    submittedAt: now,
+    lastSeenAt: now,
+    ...extra
+  };
+  writeAll([tx, ...readAll().filter(t => t.hash !== tx.hash)], [tx]);
+  return tx;
+};
+
+// Another transaction of ours with the same sender and nonce that was not
+// voided itself
+const sibling = (all: TrackedTransaction[], tx: TrackedTransaction) =>
+  all.find(
+    t =>
+      t.hash !== tx.hash &&
+      t.chainId === tx.chainId &&
+      t.nonce === tx.nonce &&
+      normFrom(t) === normFrom(tx) &&
+      ["pending", "confirmed", "failed"].includes(t.status)
+  );
+
+const normFrom = (tx: TrackedTransaction) => tx.from.toLowerCase();
+
+// The transaction that used the nonce of `tx` when we didn't send it, e.g. the
+// wallet's own speed-up or cancel. Like ethers' TransactionResponse.wait, it
+// looks through the blocks mined since `tx` was last seen.
+const findReplacement = async (provider: ethers.Provider, tx: TrackedTransaction, head: number) => {
+  const start = Math.max(tx.lastSeenBlock ?? head - REPLACEMENT_SCAN_BLOCKS, 0);
+  const end = Math.min(head, start + REPLACEMENT_SCAN_BLOCKS);
+  for (let blockNumber = start; blockNumber <= end; blockNumber++) {
+    const block = await provider.getBlock(blockNumber, true);
+    const found = block?.prefetchedTransactions.find(
+      t => t.from.toLowerCase() === normFrom(tx) && t.nonce === tx.nonce
+    );
+    if (found) return found;
+  }
+  return null;
+};
+
+const sameCall = (tx: TrackedTransaction, response: ethers.TransactionResponse) =>
+  (tx.to ?? "").toLowerCase() === (response.to ?? "").toLowerCase() &&
+  tx.data === response.data &&
+  BigInt(tx.value) === response.value;
+
+/**
+ * Checks every pending transaction of the selected chain: mined ones count
+ * confirmations until `requiredConfirmations`, reverted ones fail, and ones
+ * whose nonce was used by another transaction are replaced (or cancelled,
+ * when that was our cancellation). A transaction the node forgot while its
+ * nonce is still free is dropped after `DROP_TIMEOUT_MS`.
+ */
+export const refreshTransactions = async () => {
+  const all = readAll();
+  const pending = all.filter(tx => tx.status === "pending" && tx.chainId === config.chainId);
+  if (pending.length === 0) return;
+
+  const provider = await getReadProvider();
+  const head = await provider.getBlockNumber();
+  const changed: TrackedTransaction[] = [];
+  const nonces = new Map<string, number>();
+
+  for (const tx of pending) {
+    const before = JSON.stringify(tx);
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt) {
+      tx.blockNumber = receipt.blockNumber;
+      tx.confirmations = Math.max(head, receipt.blockNumber) - receipt.blockNumber + 1;
+      tx.lastSeenAt = Date.now();
+      tx.lastSeenBlock = head;
+      if (receipt.status === 0) {
+        tx.status = "failed";
+      } else if (tx.confirmations >= requiredConfirmations(tx.chainId)) {
+        tx.status = "confirmed";
+      }
+    } else {
+      // Unmined, or in a block that was reorged out
+      tx.blockNumber = undefined;
+      tx.confirmations = 0;
+      const from = normFrom(tx);
+      if (!nonces.has(from)) {
+        nonces.set(from, await provider.getTransactionCount(from, "latest"));
+      }
+      if (nonces.get(from)! > tx.nonce) {
+        // Nodes may still return a replaced transaction for a while
+        const other = sibling(all, tx);
+        if (other) {
+          tx.status = other.cancellation ? "cancelled" : "replaced";
+          tx.replacedBy = other.hash;
+        } else {
+          const replacement = await findReplacement(provider, tx, head);
+          // A different call with the same nonce voided this one
+          const cancellation = !!replacement && !sameCall(tx, replacement);
+          if (replacement) {
+            const label = cancellation ? `Cancel: ${tx.label}` : tx.label;
+            trackTransaction(replacement, label, cancellation ? "cancel" : tx.kind, { replaces: tx.hash, cancellation });
+          }
+          tx.status = cancellation ? "cancelled" : "replaced";
+          tx.replacedBy = replacement?.hash;
+        }
+      } else if (await provider.getTransaction(tx.hash)) {
+        tx.lastSeenAt = Date.now();
+        tx.lastSeenBlock = head;
+      } else if (Date.now() - tx.lastSeenAt > DROP_TIMEOUT_MS) {
+        tx.status = "dropped";
+      }
+    }
+    if (JSON.stringify(tx) !== before) {
+      changed.push(tx);
+    }
+  }
+  if (changed.length > 0) {
+    // Re-read, transactions may have been sent while this one was waiting
+    const updated = new Map(changed.map(tx => [tx.hash, tx]));
+    writeAll(readAll().map(tx => updated.get(tx.hash) ?? tx), changed);
+  }
+};
+
+// Refreshes pending transactions until the returned function is called
+export const watchTransactions = () => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const tick = async () => {
+    try {
+      await refreshTransactions();
+    } catch (e) {
+      console.warn("Failed to refresh transactions:", e);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+  tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
+
+// The transaction itself, or the speed-up that replaced it
+export const settledTransaction = (hash: string) => {
+  let tx = getTransaction(hash);
+  while (tx?.status === "replaced" && tx.replacedBy) {
+    tx = getTransaction(tx.replacedBy);
+  }
+  return tx;
+};
+
+/**
+ * Resolves with the receipt once the transaction, or the speed-up that
+ * replaced it, is confirmed. Rejects when it fails, is dropped or cancelled.
+ */
+export const waitForTransaction = async (hash: string): Promise<ethers.TransactionReceipt> => {
+  for (;;) {
+    const tx = settledTransaction(hash);
+    if (!tx) {
+      throw new Error(`Transaction ${hash} is not tracked`);
+    }
+    if (tx.status === "confirmed") {
+      const receipt = await (await getReadProvider()).getTransactionReceipt(tx.hash);
+      if (receipt) return receipt;
+    } else if (tx.status !== "pending") {
+      throw new Error(`Transaction ${tx.hash} ${tx.status === "replaced" ? "was replaced" : tx.status}`);
+    }
+    await new Promise(res => setTimeout(res, POLL_INTERVAL_MS));
+    await refreshTransactions();
+  }
+};
+
+const bump = (fee: string | undefined, current: bigint | null) => {
+  const bumped = (BigInt(fee ?? 0) * FEE_BUMP_PERCENT) / 100n;
+  return current !== null && current > bumped ? current : bumped;
+};
+
+// Sends a transaction with the nonce of `hash` and higher fees, so that
+// whichever of the two is mined first voids the other
+const replace = async (
+  hash: string,
+  request: ethers.TransactionRequest,
+  label: string,
+  cancellation: boolean
+) => {
+  const tx = getTransaction(hash);
+  if (!tx || tx.status !== "pending") {
+    throw new Error("Only pending transactions can be replaced");
+  }
+  const signer = await getWalletSigner();
+  if ((await signer.getAddress()).toLowerCase() !== normFrom(tx)) {
+    throw new Error(`Switch the wallet to ${tx.from} to replace this transaction`);
+  }
+
+  const fees = await signer.provider.getFeeData();
+  const feeFields =
+    tx.maxFeePerGas !== undefined
+      ? {
+          maxFeePerGas: bump(tx.maxFeePerGas, fees.maxFeePerGas),
+          maxPriorityFeePerGas: bump(tx.maxPriorityFeePerGas, fees.maxPriorityFeePerGas)
+        }
+      : { gasPrice: bump(tx.gasPrice, fees.gasPrice) };
+
+  const response = await signer.sendTransaction({ ...request, ...feeFields, nonce: tx.nonce });
+  const replacement = trackTransaction(response, label, cancellation ? "cancel" : tx.kind, {
+    replaces: tx.hash,
+    cancellation,
+    meta: cancellation ? undefined : tx.meta
+  });
+  if (response.nonce !== tx.nonce) {
+    // Some wallets assign their own nonce; the original stays in the mempool
+    throw new Error("The wallet ignored the nonce and sent a separate transaction; use the wallet's speed-up instead");
+  }
+  return replacement;
+};
+
+export const speedUpTransaction = (hash: string) => {
+  const tx = getTransaction(hash);
+  if (!tx) throw new Error(`Transaction ${hash} is not tracked`);
+  return replace(
+    hash,
+    { to: tx.to, data: tx.data, value: BigInt(tx.value), gasLimit: BigInt(tx.gasLimit) },
+    tx.label,
+    false
+  );
+};
+
+// An empty transfer to ourselves with the same nonce
+export const cancelTransaction = (hash: string) => {
+  const tx = getTransaction(hash);
+  if (!tx) throw new Error(`Transaction ${hash} is not tracked`);
+  return replace(hash, { to: tx.from, data: "0x", value: 0n, gasLimit: CANCEL_GAS_LIMIT }, `Cancel: ${tx.label}`, true);
+};
+
+export const clearSettledTransactions = () => {
+  const all = readAll();
+  writeAll(
+    all.filter(tx => tx.chainId !== config.chainId || tx.status === "pending"),
+    []
+  );
+};
@@ -0,0 +1,156 @@
+// wallets.ts
+
+// EIP-1193 provider, as injected by browser wallets
+export interface Eip1193Provider {
+  request: (request: { method: string; params?: any[] | Record<string, any> }) => Promise<any>;
+  on?: (event: string, handler: (...args: any[]) => void) => void;
+  removeListener?: (event: string, handler: (...args: any[]) => void) => void;
+}
+
+// What a wallet announces about itself under EIP-6963
+export interface Eip6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's own icon
+  icon: string;
+  // Reverse domain name, e.g. io.metamask; stable across page loads
+  rdns: string;
+}
+
+interface Eip6963AnnounceEvent extends Event {
+  detail: { info: Eip6963ProviderInfo; provider: Eip1193Provider };
+}
+
+export interface WalletInfo {
+  // rdns for announced and legacy wallets alike, so the last one can be found again
+  id: string;
+  name: string;
+  icon: string;
+  provider: Eip1193Provider | null;
+  isInstalled: boolean;
+  // Found through a window global rather than announced
+  legacy?: boolean;
+  downloadUrl?: string;
+}
+
+const LAST_WALLET_KEY = "fhe-last-wallet";
+
+// Wallets that predate EIP-6963 expose a global instead; they are listed
+// unless the same wallet announced itself. Without any of them installed,
+// the first ones are suggested for download.
+const LEGACY_WALLETS: { id: string; name: string; find: () => any; downloadUrl: string }[] = [
+  {
+    id: "io.metamask",
+    name: "MetaMask",
+    find: () => ((window as any).ethereum?.isMetaMask ? (window as any).ethereum : null),
+    downloadUrl: "https://metamask.io/"
+  },
+  {
+    id: "com.okex.wallet",
+    name: "OKX Wallet",
+    find: () => (window as any).okxwallet ?? null,
+    downloadUrl: "https://www.okx.com/web3"
+  },
+  {
+    id: "com.binance.wallet",
+    name: "Binance Wallet",
+    find: () => (window as any).BinanceChain ?? null,
+    downloadUrl: "https://www.bnbchain.org/en/binance-wallet"
+  }
+];
+
+// Legacy wallets carry no icon; they get their initial on a neutral badge
+const initialIcon = (name: string) =>
+  "data:image/svg+xml," +
+  encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48">` +
+      `<rect width="48" height="48" rx="12" fill="#334155"/>` +
+      `<text x="24" y="31" font-family="sans-serif" font-size="22" fill="#e2e8f0" text-anchor="middle">` +
+      `${(name.match(/[A-Za-z0-9]/)?.[0] ?? "?").toUpperCase()}</text></svg>`
+  );
+
+const announced = new Map<string, WalletInfo>();
+
+// Only data URIs are rendered, so a wallet cannot make the page load remote content
+const safeIcon = (info: Eip6963ProviderInfo) =>
+  typeof info.icon === "string" && info.icon.startsWith("data:image/") ? info.icon : initialIcon(info.name);
+
+const legacyWallets = (): WalletInfo[] => {
+  const providers = new Set([...announced.values()].map(wallet => wallet.provider));
+  const wallets: WalletInfo[] = [];
+  for (const legacy of LEGACY_WALLETS) {
+    const provider = legacy.find();
+    if (announced.has(legacy.id) || (provider && providers.has(provider))) continue;
+    wallets.push({
+      id: legacy.id,
+      name: legacy.name,
+      icon: initialIcon(legacy.name),
+      provider,
+      isInstalled: !!provider,
+      legacy: true,
+      downloadUrl: legacy.downloadUrl
+    });
+  }
+  // Some other injected wallet that neither announces itself nor poses as MetaMask
+  const injected = (window as any).ethereum;
+  if (injected && !providers.has(injected) && !wallets.some(wallet => wallet.provider === injected)) {
+    wallets.push({
+      id: "injected",
+      name: "Browser Wallet",
+      icon: initialIcon("Browser Wallet"),
+      provider: injected,
+      isInstalled: true,
+      legacy: true
+    });
+  }
+  return wallets;
+};
+
+export const getLastWalletId = () => localStorage.getItem(LAST_WALLET_KEY);
+
+export const rememberWallet = (wallet: WalletInfo) => localStorage.setItem(LAST_WALLET_KEY, wallet.id);
+
+export const forgetWallet = () => localStorage.removeItem(LAST_WALLET_KEY);
+
+// Installed wallets first, the last one used at the top
+const ordered = (wallets: WalletInfo[]) => {
+  const last = getLastWalletId();
+  const rank = (wallet: WalletInfo) => (wallet.id === last ? 0 : wallet.isInstalled ? 1 : 2);
+  return [...wallets].sort((a, b) => rank(a) - rank(b));
+};
+
+export const listWallets = () => ordered([...announced.values(), ...legacyWallets()]);
+
+/**
+ * Collects the wallets that announce themselves under EIP-6963, and calls
+ * `onChange` with the full list, legacy ones included, whenever another one
+ * shows up. Returns a function that stops listening.
+ */
+export function discoverWallets(onChange: (wallets: WalletInfo[]) => void): () => void {
+  const onAnnounce = (event: Event) => {
+    const { info, provider } = (event as Eip6963AnnounceEvent).detail ?? {};
+    if (!info?.rdns || !provider) return;
+    // Wallets announce again on every request; the latest provider wins
+    announced.set(info.rdns, {
+      id: info.rdns,
+      name: info.name,
+      icon: safeIcon(info),
+      provider,
+      isInstalled: true
+    });
+    onChange(listWallets());
+  };
+  window.addEventListener("eip6963:announceProvider", onAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+  onChange(listWallets());
+  return () => window.removeEventListener("eip6963:announceProvider", onAnnounce);
+}
+
+// The wallet the app signs with; the injected one until a wallet is picked
+let activeProvider: Eip1193Provider | null = null;
+
+export const setWalletProvider = (provider: Eip1193Provider | null) => {
+  activeProvider = provider;
+};
+
+export const getWalletProvider = (): Eip1193Provider | null => activeProvider ?? (window as any).ethereum ?? null;
@@ -1,7 +1,29 @@
-import { HardhatUserConfig } from "hardhat/config";
+import "dotenv/config";
+import { HardhatUserConfig, extendEnvironment } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import { envAccounts, keystoreAccounts } from "./src/deploy/accounts";
+import "./tasks/billing";
+import "./tasks/deploy";
+import "./tasks/dsl";
+import "./tasks/functions";
+import "./tasks/indexer";
+import "./tasks/migrate";
+import "./tasks/oracle";
+
+// Providers are created on first use, so the keystore can still be filled in
+// here, for commands that run against Sepolia only
+extendEnvironment((hre) => {
+  if (hre.network.name === "sepolia") {
+    const accounts = keystoreAccounts();
+    if (accounts) {
+      hre.network.config.accounts = accounts;
+    }
+  }
+});
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,10 +31,19 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: process.env.LOCALHOST_RPC_URL ?? "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL ?? "https://sepolia.drpc.org",
+      accounts: envAccounts(),
+    },
+  },
+  namedAccounts: {
+    deployer: {
+      default: 0,
     },
   },
   solidity: {
@@ -0,0 +1,52 @@
+import fs from "fs";
+import { decryptKeystoreJsonSync } from "ethers";
+import type { HttpNetworkAccountsUserConfig } from "hardhat/types";
+
+/**
+ * Signing accounts for remote networks, read from the environment (or `.env`):
+ *
+ * - `DEPLOYER_PRIVATE_KEY`: a single private key
+ * - `DEPLOYER_KEYSTORE` and `DEPLOYER_KEYSTORE_PASSWORD`: an encrypted JSON
+ *   keystore, as written by geth, clef or `ethers.Wallet#encrypt`
+ * - `MNEMONIC`: an HD wallet, accounts derived at m/44'/60'/0'/0/i
+ *
+ * With none of them set the network has no accounts and is read-only. A
+ * keystore is left out here, see `keystoreAccounts`.
+ */
+export function envAccounts(
+  env: NodeJS.ProcessEnv = process.env,
+): HttpNetworkAccountsUserConfig {
+  if (env.DEPLOYER_PRIVATE_KEY) {
+    return [env.DEPLOYER_PRIVATE_KEY];
+  }
+  if (env.DEPLOYER_KEYSTORE) {
+    return [];
+  }
+  if (env.MNEMONIC) {
+    return { mnemonic: env.MNEMONIC };
+  }
+  return [];
+}
+
+/**
+ * The account of `DEPLOYER_KEYSTORE`, or `undefined` if `envAccounts` already
+ * resolved the accounts. Decrypting takes a few seconds and needs the
+ * password, so it is only done for commands that run against the network.
+ */
+export function keystoreAccounts(
+  env: NodeJS.ProcessEnv = process.env,
+): string[] | undefined {
+  if (env.DEPLOYER_PRIVATE_KEY || !env.DEPLOYER_KEYSTORE) {
+    return undefined;
+  }
+  if (env.DEPLOYER_KEYSTORE_PASSWORD === undefined) {
+    throw new Error(
+      "DEPLOYER_KEYSTORE is set but DEPLOYER_KEYSTORE_PASSWORD is not",
+    );
+  }
+  const account = decryptKeystoreJsonSync(
+    fs.readFileSync(env.DEPLOYER_KEYSTORE, "utf8"),
+    env.DEPLOYER_KEYSTORE_PASSWORD,
+  );
+  return [account.privateKey];
+}
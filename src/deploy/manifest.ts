@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import { id } from "ethers";
+
+/** Bumped when the manifest layout changes; readers ignore other versions. */
+export const MANIFEST_VERSION = 1;
+
+export interface ContractDeployment {
+  address: string;
+  /** Null for deployments recorded before manifests existed. */
+  transactionHash: string | null;
+  blockNumber: number | null;
+  /** keccak256 of the JSON-serialized ABI, to detect a stale frontend ABI. */
+  abiHash: string;
+}
+
+/** Everything deployed on one chain, stored as `<chainId>.json`. */
+export interface DeploymentManifest {
+  version: number;
+  chainId: number;
+  network: string;
+  /** Only recorded for local nodes, remote RPC URLs may embed API keys. */
+  rpcUrl?: string;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export type ManifestTarget = Pick<
+  DeploymentManifest,
+  "chainId" | "network" | "rpcUrl" | "deployer"
+>;
+
+export function abiHash(abi: readonly unknown[]): string {
+  return id(JSON.stringify(abi));
+}
+
+export function manifestPath(dir: string, chainId: number): string {
+  return path.join(dir, `${chainId}.json`);
+}
+
+export function readManifest(
+  dir: string,
+  chainId: number,
+): DeploymentManifest | undefined {
+  const file = manifestPath(dir, chainId);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const manifest = JSON.parse(fs.readFileSync(file, "utf8"));
+  return manifest.version === MANIFEST_VERSION ? manifest : undefined;
+}
+
+/**
+ * Records `contracts` in the manifest of `target.chainId`. Contracts that were
+ * not part of this deployment keep their previous entry.
+ */
+export function updateManifest(
+  dir: string,
+  target: ManifestTarget,
+  contracts: Record<string, ContractDeployment>,
+): DeploymentManifest {
+  const previous = readManifest(dir, target.chainId);
+  const manifest: DeploymentManifest = {
+    version: MANIFEST_VERSION,
+    ...target,
+    updatedAt: new Date().toISOString(),
+    contracts: { ...previous?.contracts, ...contracts },
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    manifestPath(dir, target.chainId),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+  return manifest;
+}
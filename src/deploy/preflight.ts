@@ -0,0 +1,76 @@
+import readline from "readline";
+import { formatEther } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const LOCAL_CHAIN_ID = 31337n;
+
+export interface DeployFlags {
+  /** Deploy to remote networks without asking for confirmation. */
+  yes: boolean;
+}
+
+/** Set by the `deploy` task override in tasks/deploy.ts. */
+export const deployFlags: DeployFlags = { yes: false };
+
+/**
+ * Fails when the node behind `--network` is not on the chain configured for
+ * that network, before anything is signed.
+ */
+export async function assertChainId(
+  hre: HardhatRuntimeEnvironment,
+): Promise<bigint> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const expected = hre.network.config.chainId;
+  if (expected !== undefined && BigInt(expected) !== chainId) {
+    throw new Error(
+      `Network "${hre.network.name}" expects chainId ${expected} but its RPC reports ${chainId}`,
+    );
+  }
+  return chainId;
+}
+
+/**
+ * Asks before deploying to a remote chain. Without a terminal, the deploy only
+ * proceeds with `--yes`.
+ */
+export async function confirmDeployment(
+  hre: HardhatRuntimeEnvironment,
+  chainId: bigint,
+  deployer: string,
+  contracts: string[],
+): Promise<void> {
+  if (chainId === LOCAL_CHAIN_ID) {
+    return;
+  }
+
+  const balance = await hre.ethers.provider.getBalance(deployer);
+  console.log(`Network:   ${hre.network.name} (chainId ${chainId})`);
+  console.log(`Deployer:  ${deployer} (${formatEther(balance)} ETH)`);
+  console.log(`Contracts: ${contracts.join(", ")}`);
+
+  if (deployFlags.yes) {
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Refusing to deploy to ${hre.network.name} without confirmation, pass --yes`,
+    );
+  }
+  const answer = await ask("Proceed? [y/N] ");
+  if (!/^y(es)?$/i.test(answer)) {
+    throw new Error("Deployment cancelled");
+  }
+}
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (ans) => {
+      rl.close();
+      resolve(ans.trim());
+    }),
+  );
+}
@@ -0,0 +1,261 @@
+import { Indexed, Interface, Log, LogDescription, Provider } from "ethers";
+
+import { UNIVERSAL_ADAPTER_ABI } from "../migration/adapterSnapshot";
+import { FHE_SERVERLESS_FRAMEWORK_ABI } from "../sdk/abi";
+import { IndexedEvent, IndexerStore } from "./IndexerStore";
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_WINDOW = 128;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+const FRAMEWORK_INTERFACE = new Interface(FHE_SERVERLESS_FRAMEWORK_ABI);
+const ADAPTER_INTERFACE = new Interface(UNIVERSAL_ADAPTER_ABI);
+
+// Events the query tables are built from; everything else is skipped.
+const INDEXED_EVENTS = new Set([
+  "DataStored",
+  "FunctionSubmitted",
+  "Charged",
+  "DecryptionRequested",
+  "DecryptionFulfilled",
+  "EscrowRefunded",
+  "FunctionExecuted",
+  "ProgramExecuted",
+  "ExecutionDecryptionRequested",
+  "ExecutionResultRevealed",
+  "FunctionStatusChanged",
+]);
+
+export interface IndexerOptions {
+  /** FheServerlessFramework address. */
+  framework?: string;
+  /** UniversalAdapter address. */
+  adapter?: string;
+  /** First block to index, ideally the deployment block. Defaults to 0. */
+  fromBlock?: number;
+  /** Blocks to stay behind the head. Defaults to 0; reorgs are rolled back either way. */
+  confirmations?: number;
+  /** Blocks per `eth_getLogs` request. */
+  batchSize?: number;
+  /** How many blocks back a reorg is detected. */
+  reorgWindow?: number;
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Follows FheServerlessFramework and UniversalAdapter events into an
+ * `IndexerStore`. Block hashes of indexed blocks are kept for `reorgWindow`
+ * blocks; when the chain no longer has one of them, the store is rolled back
+ * to the newest block still on the chain and indexing continues from there.
+ */
+export class Indexer {
+  private readonly addresses: string[];
+  private running: Promise<void> | undefined;
+  private stopped = false;
+
+  constructor(
+    readonly provider: Provider,
+    readonly store: IndexerStore,
+    private readonly options: IndexerOptions,
+  ) {
+    this.addresses = [options.framework, options.adapter]
+      .filter((address): address is string => !!address)
+      .map((address) => address.toLowerCase());
+    if (this.addresses.length === 0) {
+      throw new Error("Indexer needs a framework or adapter address");
+    }
+  }
+
+  /** Indexes new blocks and returns how many events were stored. */
+  async poll(): Promise<number> {
+    await this.checkTarget();
+    await this.rollbackReorg();
+
+    const head =
+      (await this.provider.getBlockNumber()) -
+      (this.options.confirmations ?? 0);
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let cursor = this.store.cursor ?? (this.options.fromBlock ?? 0) - 1;
+    let indexed = 0;
+
+    while (cursor < head) {
+      const toBlock = Math.min(head, cursor + batchSize);
+      const logs = await this.provider.getLogs({
+        address: this.addresses,
+        fromBlock: cursor + 1,
+        toBlock,
+      });
+      const events: IndexedEvent[] = [];
+      for (const log of logs) {
+        const event = await this.decode(log);
+        if (event) {
+          events.push(event);
+        }
+      }
+      const last = await this.provider.getBlock(toBlock);
+      if (!last?.hash) {
+        throw new Error(`Block ${toBlock} not found`);
+      }
+
+      const blocks = new Map(
+        logs.map((log) => [log.blockNumber, log.blockHash]),
+      );
+      blocks.set(toBlock, last.hash);
+      this.store.ingest(
+        events,
+        [...blocks].map(([number, hash]) => ({ number, hash })),
+        toBlock,
+      );
+      this.store.pruneBlocks(
+        toBlock - (this.options.reorgWindow ?? DEFAULT_REORG_WINDOW),
+      );
+      this.store.save();
+
+      indexed += events.length;
+      cursor = toBlock;
+    }
+    if (indexed > 0) {
+      this.log(`indexed ${indexed} event(s) up to block ${cursor}`);
+    }
+    return indexed;
+  }
+
+  /** Polls until `stop()` is called. */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.stopped = false;
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.running = (async () => {
+      while (!this.stopped) {
+        try {
+          await this.poll();
+        } catch (e) {
+          this.log(`poll failed: ${e instanceof Error ? e.message : e}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval));
+      }
+    })();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.running;
+    this.running = undefined;
+  }
+
+  // A database is only ever filled from one chain and one pair of contracts.
+  private async checkTarget(): Promise<void> {
+    const { chainId } = await this.provider.getNetwork();
+    const target: Record<string, string> = {
+      chainId: chainId.toString(),
+      framework: this.options.framework?.toLowerCase() ?? "",
+      adapter: this.options.adapter?.toLowerCase() ?? "",
+    };
+    for (const [key, value] of Object.entries(target)) {
+      const stored = this.store.getMeta(key);
+      if (stored === undefined) {
+        this.store.setMeta(key, value);
+      } else if (stored !== value) {
+        throw new Error(
+          `Indexer database was built for ${key} ${stored || "(none)"}, not ${value || "(none)"}`,
+        );
+      }
+    }
+  }
+
+  private async rollbackReorg(): Promise<void> {
+    const recent = this.store.recentBlocks();
+    for (const [i, block] of recent.entries()) {
+      const onChain = await this.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        if (i > 0) {
+          this.log(
+            `reorg detected, rolling back from block ${recent[0].number} to ${block.number}`,
+          );
+          this.store.rollback(block.number);
+          this.store.save();
+        }
+        return;
+      }
+    }
+    if (recent.length > 0) {
+      throw new Error(
+        `Reorg deeper than the last ${recent.length} recorded blocks, rebuild the index from scratch`,
+      );
+    }
+  }
+
+  private async decode(log: Log): Promise<IndexedEvent | null> {
+    const iface =
+      log.address.toLowerCase() === this.options.framework?.toLowerCase()
+        ? FRAMEWORK_INTERFACE
+        : ADAPTER_INTERFACE;
+    let parsed: LogDescription | null;
+    try {
+      parsed = iface.parseLog(log);
+    } catch {
+      return null;
+    }
+    if (!parsed || !INDEXED_EVENTS.has(parsed.name)) {
+      return null;
+    }
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      // Indexed strings and bytes only carry their hash.
+      args[input.name] = value instanceof Indexed ? value.hash! : String(value);
+    });
+    Object.assign(args, await this.enrich(parsed.name, args, log));
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      address: log.address,
+      name: parsed.name,
+      args,
+    };
+  }
+
+  // Values the events don't carry, read once while indexing and stored with
+  // the event so a rebuild after a reorg needs no RPC calls.
+  private async enrich(
+    name: string,
+    args: Record<string, string>,
+    log: Log,
+  ): Promise<Record<string, string>> {
+    if (name === "FunctionExecuted") {
+      // Read at the latest block, as public RPCs only keep recent state. A
+      // function is decrypted once, so the values never change after
+      // `executed` is set.
+      const result = await this.provider.call({
+        to: log.address,
+        data: FRAMEWORK_INTERFACE.encodeFunctionData("getDecryptedFunction", [
+          args.id,
+        ]),
+      });
+      const [input, parameters] = FRAMEWORK_INTERFACE.decodeFunctionResult(
+        "getDecryptedFunction",
+        result,
+      );
+      return { input: input.toString(), parameters: parameters.toString() };
+    }
+    if (name === "Charged" && args.kind === "2") {
+      const tx = await this.provider.getTransaction(log.transactionHash);
+      const call = tx && FRAMEWORK_INTERFACE.parseTransaction(tx);
+      if (call?.name === "requestExecutionStatsDecryption") {
+        return { fnName: call.args[0] };
+      }
+    }
+    return {};
+  }
+
+  private log(message: string) {
+    this.options.log?.(`[indexer] ${message}`);
+  }
+}
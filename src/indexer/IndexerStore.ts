@@ -0,0 +1,784 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { toUtf8String } from "ethers";
+
+import { functionIdFromKey } from "../migration/adapterSnapshot";
+import { DERIVED_TABLES, SCHEMA, SCHEMA_VERSION } from "./schema";
+
+/** A contract log as stored by the indexer, with every argument as a string. */
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  address: string;
+  name: string;
+  args: Record<string, string>;
+}
+
+/** A frontend function record from UniversalAdapter, joined with its on-chain state. */
+export interface IndexedFunction {
+  id: string;
+  name: string | null;
+  description: string | null;
+  category: string | null;
+  status: string | null;
+  owner: string | null;
+  timestamp: number | null;
+  onChainId: string | null;
+  data: string | null;
+  handles: string[];
+  executed: boolean;
+  input: number | null;
+  parameters: number | null;
+  blockNumber: number;
+  updatedBlock: number;
+}
+
+/** One `FunctionStatusChanged` event; `functionId` is the on-chain id. */
+export interface IndexedStatusChange {
+  functionId: string;
+  from: string;
+  to: string;
+  actor: string;
+  reason: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface IndexedExecution {
+  id: string;
+  programId: string;
+  functionId: string;
+  executor: string | null;
+  /** Set once the result was revealed through the decryption oracle. */
+  result: number | null;
+  transactionHash: string;
+  blockNumber: number;
+  revealedBlock: number | null;
+}
+
+export type DecryptionRequestKind = "function" | "stats" | "execution";
+export type DecryptionRequestStatus = "pending" | "fulfilled" | "refunded";
+
+export interface IndexedDecryptionRequest {
+  requestId: string;
+  kind: DecryptionRequestKind;
+  functionId: string | null;
+  fnName: string | null;
+  executionId: string | null;
+  payer: string;
+  /** Wei held in escrow. */
+  amount: string;
+  status: DecryptionRequestStatus;
+  transactionHash: string;
+  blockNumber: number;
+  settledBlock: number | null;
+}
+
+export interface FunctionFilter {
+  owner?: string;
+  category?: string;
+  status?: string;
+  executed?: boolean;
+  /** Words that must all appear in the name or the description. */
+  search?: string;
+  /** Bounds of the record's timestamp, in seconds, inclusive. */
+  from?: number;
+  to?: number;
+}
+
+export const FUNCTION_SORTS = [
+  "newest",
+  "oldest",
+  "name",
+  "name-desc",
+] as const;
+export type FunctionSort = (typeof FUNCTION_SORTS)[number];
+
+export interface ExecutionFilter {
+  functionId?: string;
+  programId?: string;
+  executor?: string;
+}
+
+export interface DecryptionRequestFilter {
+  kind?: DecryptionRequestKind;
+  status?: DecryptionRequestStatus;
+  payer?: string;
+  functionId?: string;
+}
+
+/** Newest first. `cursor` is the `nextCursor` of the previous page. */
+export interface PageOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+/** A cursor only continues a page of the same sort. */
+export interface FunctionPageOptions extends PageOptions {
+  sort?: FunctionSort;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/** A filter or cursor the store cannot use; the API answers it with 400. */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidQueryError";
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Mirrors FheServerlessFramework.ChargeKind
+const CHARGE_SUBMISSION = "0";
+const CHARGE_DECRYPTION = "1";
+const CHARGE_STATS_DECRYPTION = "2";
+const CHARGE_PROGRAM_EXECUTION = "3";
+const CHARGE_EXECUTION_DECRYPTION = "4";
+
+const DECRYPTION_KINDS: Record<string, DecryptionRequestKind> = {
+  [CHARGE_DECRYPTION]: "function",
+  [CHARGE_STATS_DECRYPTION]: "stats",
+  [CHARGE_EXECUTION_DECRYPTION]: "execution",
+};
+
+// Mirrors FheServerlessFramework.FunctionStatus
+const FUNCTION_STATUSES = ["pending", "verified", "rejected", "deprecated"];
+
+type Row = Record<string, SqlValue>;
+
+// Pages are ordered by `key` when given, then by creation. The cursor keeps
+// `value` of the last row, compared as `param` to `sql`.
+interface PageOrder {
+  key?: { sql: string; param: string; value: (row: Row) => string };
+  descending: boolean;
+}
+
+const NEWEST_FIRST: PageOrder = { descending: true };
+
+const NAME_KEY = {
+  sql: "lower(COALESCE(f.name, ''))",
+  param: "lower(?)",
+  value: (row: Row) => String(row.name ?? ""),
+};
+
+const FUNCTION_ORDERS: Record<FunctionSort, PageOrder> = {
+  newest: NEWEST_FIRST,
+  oldest: { descending: false },
+  name: { key: NAME_KEY, descending: false },
+  "name-desc": { key: NAME_KEY, descending: true },
+};
+
+/**
+ * SQLite (sql.js) storage of the indexer. Events are appended as they are
+ * followed and applied to the query tables; `rollback` drops the events of
+ * reorged blocks and rebuilds the query tables from the remaining ones.
+ */
+export class IndexerStore {
+  private constructor(
+    private readonly db: Database,
+    readonly file: string | undefined,
+  ) {
+    db.run(SCHEMA);
+    if (this.getMeta("schemaVersion") !== String(SCHEMA_VERSION)) {
+      this.transaction(() => {
+        this.rebuild();
+        this.setMeta("schemaVersion", String(SCHEMA_VERSION));
+      });
+    }
+  }
+
+  /** Opens the database at `file`, or an in-memory one. */
+  static async open(file?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    const data =
+      file && fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+    return new IndexerStore(new SQL.Database(data), file);
+  }
+
+  save(): void {
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, this.db.export());
+    fs.renameSync(tmp, this.file);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.one("SELECT value FROM meta WHERE key = ?", [key]);
+    return row ? String(row.value) : undefined;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.run(
+      "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+      [key, value],
+    );
+  }
+
+  /** Last block whose events are stored, or undefined before the first poll. */
+  get cursor(): number | undefined {
+    const value = this.getMeta("cursor");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  set cursor(block: number) {
+    this.setMeta("cursor", String(block));
+  }
+
+  /** Recorded block hashes, newest first. */
+  recentBlocks(): { number: number; hash: string }[] {
+    return this.all("SELECT number, hash FROM blocks ORDER BY number DESC").map(
+      (row) => ({ number: Number(row.number), hash: String(row.hash) }),
+    );
+  }
+
+  /** Forgets block hashes below `block`; reorgs deeper than that are no longer detected. */
+  pruneBlocks(block: number): void {
+    this.db.run("DELETE FROM blocks WHERE number < ?", [block]);
+  }
+
+  /**
+   * Stores and applies the events of the blocks up to `cursor`, which must
+   * come in chain order, and records `blocks` for reorg detection.
+   */
+  ingest(
+    events: IndexedEvent[],
+    blocks: { number: number; hash: string }[],
+    cursor: number,
+  ): void {
+    this.transaction(() => {
+      for (const event of events) {
+        this.db.run(
+          "INSERT OR REPLACE INTO events VALUES (?, ?, ?, ?, ?, ?, ?)",
+          [
+            event.blockNumber,
+            event.logIndex,
+            event.blockHash,
+            event.transactionHash,
+            event.address,
+            event.name,
+            JSON.stringify(event.args),
+          ],
+        );
+        this.apply(event);
+      }
+      for (const block of blocks) {
+        this.db.run(
+          "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)",
+          [block.number, block.hash],
+        );
+      }
+      this.cursor = cursor;
+    });
+  }
+
+  /** Drops everything after `block` and rebuilds the query tables. */
+  rollback(block: number): void {
+    this.transaction(() => {
+      this.db.run("DELETE FROM events WHERE block_number > ?", [block]);
+      this.db.run("DELETE FROM blocks WHERE number > ?", [block]);
+      this.rebuild();
+      this.cursor = block;
+    });
+  }
+
+  // Recreates the query tables, with their current columns, from the events.
+  private rebuild(): void {
+    for (const table of DERIVED_TABLES) {
+      this.db.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+    this.db.run(SCHEMA);
+    for (const event of this.events()) {
+      this.apply(event);
+    }
+  }
+
+  events(): IndexedEvent[] {
+    return this.all(
+      "SELECT * FROM events ORDER BY block_number, log_index",
+    ).map((row) => ({
+      blockNumber: Number(row.block_number),
+      blockHash: String(row.block_hash),
+      logIndex: Number(row.log_index),
+      transactionHash: String(row.transaction_hash),
+      address: String(row.address),
+      name: String(row.name),
+      args: JSON.parse(String(row.args)),
+    }));
+  }
+
+  getFunction(id: string): IndexedFunction | null {
+    const row = this.one(`${FUNCTION_SELECT} WHERE f.id = ?`, [id]);
+    return row ? toFunction(row) : null;
+  }
+
+  functions(filter: FunctionFilter = {}, page: FunctionPageOptions = {}) {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (filter.owner !== undefined) {
+      where.push("lower(f.owner) = lower(?)");
+      params.push(filter.owner);
+    }
+    if (filter.category !== undefined) {
+      where.push("f.category = ?");
+      params.push(filter.category);
+    }
+    if (filter.status !== undefined) {
+      where.push("current_status = ?");
+      params.push(filter.status);
+    }
+    if (filter.executed !== undefined) {
+      where.push("COALESCE(ff.executed, 0) = ?");
+      params.push(filter.executed ? 1 : 0);
+    }
+    for (const word of (filter.search ?? "").toLowerCase().split(/\s+/)) {
+      if (word) {
+        const pattern = `%${word.replace(/[\\%_]/g, "\\$&")}%`;
+        where.push(
+          "(lower(COALESCE(f.name, '')) LIKE ? ESCAPE '\\' OR lower(COALESCE(f.description, '')) LIKE ? ESCAPE '\\')",
+        );
+        params.push(pattern, pattern);
+      }
+    }
+    if (filter.from !== undefined) {
+      where.push("f.timestamp >= ?");
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      where.push("f.timestamp <= ?");
+      params.push(filter.to);
+    }
+    const sort = page.sort ?? "newest";
+    if (!FUNCTION_ORDERS[sort]) {
+      throw new InvalidQueryError(`Unknown sort ${sort}`);
+    }
+    return this.page(
+      FUNCTION_SELECT,
+      "f",
+      where,
+      params,
+      page,
+      toFunction,
+      FUNCTION_ORDERS[sort],
+    );
+  }
+
+  executions(filter: ExecutionFilter = {}, page: PageOptions = {}) {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (filter.functionId !== undefined) {
+      where.push("e.function_id = ?");
+      params.push(filter.functionId);
+    }
+    if (filter.programId !== undefined) {
+      where.push("e.program_id = ?");
+      params.push(filter.programId);
+    }
+    if (filter.executor !== undefined) {
+      where.push("lower(e.executor) = lower(?)");
+      params.push(filter.executor);
+    }
+    return this.page(
+      "SELECT e.* FROM executions e",
+      "e",
+      where,
+      params,
+      page,
+      (row): IndexedExecution => ({
+        id: String(row.id),
+        programId: String(row.program_id),
+        functionId: String(row.function_id),
+        executor: nullableString(row.executor),
+        result: row.result === null ? null : Number(row.result),
+        transactionHash: String(row.transaction_hash),
+        blockNumber: Number(row.created_block),
+        revealedBlock:
+          row.revealed_block === null ? null : Number(row.revealed_block),
+      }),
+    );
+  }
+
+  /** Status changes of the on-chain function `functionId`, oldest first. */
+  statusChanges(functionId: string): IndexedStatusChange[] {
+    return this.all(
+      `SELECT * FROM status_changes WHERE function_id = ?
+       ORDER BY created_block, created_log`,
+      [functionId],
+    ).map((row) => ({
+      functionId: String(row.function_id),
+      from: String(row.from_status),
+      to: String(row.to_status),
+      actor: String(row.actor),
+      reason: String(row.reason),
+      transactionHash: String(row.transaction_hash),
+      blockNumber: Number(row.created_block),
+    }));
+  }
+
+  decryptionRequests(
+    filter: DecryptionRequestFilter = {},
+    page: PageOptions = {},
+  ) {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (filter.kind !== undefined) {
+      where.push("r.kind = ?");
+      params.push(filter.kind);
+    }
+    if (filter.status !== undefined) {
+      where.push("r.status = ?");
+      params.push(filter.status);
+    }
+    if (filter.payer !== undefined) {
+      where.push("lower(r.payer) = lower(?)");
+      params.push(filter.payer);
+    }
+    if (filter.functionId !== undefined) {
+      where.push("r.function_id = ?");
+      params.push(filter.functionId);
+    }
+    return this.page(
+      "SELECT r.* FROM decryption_requests r",
+      "r",
+      where,
+      params,
+      page,
+      (row): IndexedDecryptionRequest => ({
+        requestId: String(row.request_id),
+        kind: row.kind as DecryptionRequestKind,
+        functionId: nullableString(row.function_id),
+        fnName: nullableString(row.fn_name),
+        executionId: nullableString(row.execution_id),
+        payer: String(row.payer),
+        amount: String(row.amount),
+        status: row.status as DecryptionRequestStatus,
+        transactionHash: String(row.transaction_hash),
+        blockNumber: Number(row.created_block),
+        settledBlock:
+          row.settled_block === null ? null : Number(row.settled_block),
+      }),
+    );
+  }
+
+  private apply(event: IndexedEvent): void {
+    const { args } = event;
+    switch (event.name) {
+      case "DataStored": {
+        const id = functionIdFromKey(args.key);
+        if (id === undefined) {
+          return;
+        }
+        let record: Record<string, unknown>;
+        try {
+          record = JSON.parse(toUtf8String(args.value));
+        } catch {
+          return;
+        }
+        this.db.run(
+          `INSERT INTO functions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET name = excluded.name, description = excluded.description,
+             category = excluded.category,
+             status = excluded.status, owner = excluded.owner, timestamp = excluded.timestamp,
+             on_chain_id = excluded.on_chain_id, data = excluded.data, handles = excluded.handles,
+             updated_block = excluded.updated_block`,
+          [
+            id,
+            optionalString(record.name),
+            optionalString(record.description),
+            optionalString(record.category),
+            optionalString(record.status) ?? "pending",
+            optionalString(record.owner) ?? args.sender,
+            typeof record.timestamp === "number" ? record.timestamp : null,
+            optionalString(record.onChainId),
+            optionalString(record.data),
+            Array.isArray(record.handles)
+              ? JSON.stringify(record.handles)
+              : null,
+            event.blockNumber,
+            event.logIndex,
+            event.blockNumber,
+          ],
+        );
+        return;
+      }
+      case "FunctionSubmitted":
+        this.db.run(
+          `INSERT INTO framework_functions (id, timestamp, submitted_block) VALUES (?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET timestamp = excluded.timestamp`,
+          [args.id, Number(args.timestamp), event.blockNumber],
+        );
+        return;
+      case "Charged":
+        this.applyCharge(event);
+        return;
+      case "DecryptionRequested":
+        this.db.run(
+          "UPDATE decryption_requests SET function_id = ? WHERE transaction_hash = ? AND kind = 'function'",
+          [args.id, event.transactionHash],
+        );
+        return;
+      case "DecryptionFulfilled":
+      case "EscrowRefunded":
+        this.db.run(
+          "UPDATE decryption_requests SET status = ?, settled_block = ? WHERE request_id = ?",
+          [
+            event.name === "DecryptionFulfilled" ? "fulfilled" : "refunded",
+            event.blockNumber,
+            args.requestID ?? args.requestId,
+          ],
+        );
+        return;
+      case "FunctionExecuted":
+        this.db.run(
+          "UPDATE framework_functions SET executed = 1, input = ?, parameters = ?, executed_block = ? WHERE id = ?",
+          [
+            args.input === undefined ? null : Number(args.input),
+            args.parameters === undefined ? null : Number(args.parameters),
+            event.blockNumber,
+            args.id,
+          ],
+        );
+        return;
+      case "ExecutionDecryptionRequested":
+        this.db.run(
+          `UPDATE decryption_requests SET execution_id = ?,
+             function_id = (SELECT function_id FROM executions WHERE id = ?)
+           WHERE request_id = ?`,
+          [args.executionId, args.executionId, args.requestId],
+        );
+        return;
+      case "ExecutionResultRevealed":
+        this.db.run(
+          "UPDATE executions SET result = ?, revealed_block = ? WHERE id = ?",
+          [Number(args.result), event.blockNumber, args.executionId],
+        );
+        return;
+      case "FunctionStatusChanged":
+        this.db.run(
+          "INSERT OR REPLACE INTO status_changes VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+          [
+            args.id,
+            FUNCTION_STATUSES[Number(args.from)] ?? args.from,
+            FUNCTION_STATUSES[Number(args.to)] ?? args.to,
+            args.actor,
+            args.reason,
+            event.transactionHash,
+            event.blockNumber,
+            event.logIndex,
+          ],
+        );
+        return;
+      case "ProgramExecuted":
+        this.db.run(
+          `INSERT INTO executions (id, program_id, function_id, transaction_hash, created_block, created_log)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET program_id = excluded.program_id, function_id = excluded.function_id,
+             created_block = excluded.created_block, created_log = excluded.created_log`,
+          [
+            args.executionId,
+            args.programId,
+            args.functionId,
+            event.transactionHash,
+            event.blockNumber,
+            event.logIndex,
+          ],
+        );
+        return;
+    }
+  }
+
+  // Charged precedes the event of the call that paid, so rows are upserted
+  // from whichever of the two comes first.
+  private applyCharge(event: IndexedEvent): void {
+    const { account, kind, ref, amount } = event.args;
+    switch (kind) {
+      case CHARGE_SUBMISSION:
+        this.db.run(
+          `INSERT INTO framework_functions (id, owner, submitted_block) VALUES (?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET owner = excluded.owner`,
+          [ref, account, event.blockNumber],
+        );
+        return;
+      case CHARGE_DECRYPTION:
+      case CHARGE_STATS_DECRYPTION:
+      case CHARGE_EXECUTION_DECRYPTION:
+        this.db.run(
+          `INSERT OR REPLACE INTO decryption_requests
+           (request_id, kind, fn_name, payer, amount, status, transaction_hash, created_block, created_log)
+           VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+          [
+            ref,
+            DECRYPTION_KINDS[kind],
+            event.args.fnName ?? null,
+            account,
+            amount,
+            event.transactionHash,
+            event.blockNumber,
+            event.logIndex,
+          ],
+        );
+        return;
+      case CHARGE_PROGRAM_EXECUTION:
+        this.db.run(
+          `INSERT INTO executions (id, program_id, function_id, executor, transaction_hash, created_block, created_log)
+           VALUES (?, '', '', ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET executor = excluded.executor`,
+          [
+            ref,
+            account,
+            event.transactionHash,
+            event.blockNumber,
+            event.logIndex,
+          ],
+        );
+        return;
+    }
+  }
+
+  private page<T>(
+    select: string,
+    alias: string,
+    where: string[],
+    params: SqlValue[],
+    page: PageOptions,
+    map: (row: Row) => T,
+    order: PageOrder = NEWEST_FIRST,
+  ): Page<T> {
+    const limit = Math.min(
+      Math.max(page.limit ?? DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const columns = [`${alias}.created_block`, `${alias}.created_log`];
+    if (order.key) {
+      columns.unshift(order.key.sql);
+    }
+    const direction = order.descending ? "DESC" : "ASC";
+    const conditions = [...where];
+    const values = [...params];
+    if (page.cursor) {
+      const [block, log, key] = decodeCursor(page.cursor);
+      if (order.key && key === undefined) {
+        throw new InvalidQueryError(`Invalid cursor ${page.cursor}`);
+      }
+      conditions.push(
+        `(${columns.join(", ")}) ${order.descending ? "<" : ">"} (${order.key ? `${order.key.param}, ` : ""}?, ?)`,
+      );
+      values.push(...(order.key ? [key!] : []), block, log);
+    }
+    const rows = this.all(
+      `${select}${conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""}
+       ORDER BY ${columns.map((column) => `${column} ${direction}`).join(", ")} LIMIT ?`,
+      [...values, limit + 1],
+    );
+    const last = rows.length > limit ? rows[limit - 1] : undefined;
+    return {
+      items: rows.slice(0, limit).map(map),
+      nextCursor: last
+        ? encodeCursor(
+            Number(last.created_block),
+            Number(last.created_log),
+            order.key?.value(last),
+          )
+        : null,
+    };
+  }
+
+  private transaction(body: () => void): void {
+    this.db.run("BEGIN");
+    try {
+      body();
+      this.db.run("COMMIT");
+    } catch (e) {
+      this.db.run("ROLLBACK");
+      throw e;
+    }
+  }
+
+  private one(sql: string, params: SqlValue[] = []): Row | undefined {
+    return this.all(sql, params)[0];
+  }
+
+  private all(sql: string, params: SqlValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+// Once the function is submitted on-chain, its status is the one of the
+// framework; the status in the adapter record can be written by anyone.
+const FUNCTION_SELECT = `SELECT f.*, ff.executed, ff.input, ff.parameters,
+    CASE WHEN ff.id IS NULL THEN f.status ELSE COALESCE(
+      (SELECT s.to_status FROM status_changes s WHERE s.function_id = f.on_chain_id
+       ORDER BY s.created_block DESC, s.created_log DESC LIMIT 1),
+      'pending') END AS current_status
+  FROM functions f LEFT JOIN framework_functions ff ON ff.id = f.on_chain_id`;
+
+function toFunction(row: Row): IndexedFunction {
+  return {
+    id: String(row.id),
+    name: nullableString(row.name),
+    description: nullableString(row.description),
+    category: nullableString(row.category),
+    status: nullableString(row.current_status),
+    owner: nullableString(row.owner),
+    timestamp: row.timestamp === null ? null : Number(row.timestamp),
+    onChainId: nullableString(row.on_chain_id),
+    data: nullableString(row.data),
+    handles: row.handles === null ? [] : JSON.parse(String(row.handles)),
+    executed: row.executed === 1,
+    input: row.input === null ? null : Number(row.input),
+    parameters: row.parameters === null ? null : Number(row.parameters),
+    blockNumber: Number(row.created_block),
+    updatedBlock: Number(row.updated_block),
+  };
+}
+
+// `key` is the sort value of the last row, when the page is sorted by one.
+function encodeCursor(block: number, log: number, key?: string): string {
+  return Buffer.from(
+    key === undefined ? `${block}:${log}` : `${block}:${log}:${key}`,
+  ).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [number, number, string | undefined] {
+  const [, block, log, key] =
+    Buffer.from(cursor, "base64url")
+      .toString()
+      .match(/^(\d+):(\d+)(?::([\s\S]*))?$/) ?? [];
+  if (block === undefined) {
+    throw new InvalidQueryError(`Invalid cursor ${cursor}`);
+  }
+  return [Number(block), Number(log), key];
+}
+
+function nullableString(value: SqlValue | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function optionalString(value: unknown): string | null {
+  return value === undefined || value === null ? null : String(value);
+}
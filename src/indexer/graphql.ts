@@ -0,0 +1,149 @@
+import { GraphQLSchema, buildSchema, graphql } from "graphql";
+
+import { FunctionSort, IndexerStore } from "./IndexerStore";
+
+export const GRAPHQL_SCHEMA = `
+  type Function {
+    id: ID!
+    name: String
+    description: String
+    category: String
+    status: String
+    owner: String
+    timestamp: Int
+    onChainId: String
+    data: String
+    handles: [String!]!
+    executed: Boolean!
+    input: Float
+    parameters: Float
+    blockNumber: Int!
+    updatedBlock: Int!
+  }
+
+  type StatusChange {
+    functionId: String!
+    from: String!
+    to: String!
+    actor: String!
+    reason: String!
+    transactionHash: String!
+    blockNumber: Int!
+  }
+
+  type Execution {
+    id: ID!
+    programId: String!
+    functionId: String!
+    executor: String
+    result: Float
+    transactionHash: String!
+    blockNumber: Int!
+    revealedBlock: Int
+  }
+
+  type DecryptionRequest {
+    requestId: ID!
+    kind: String!
+    functionId: String
+    fnName: String
+    executionId: String
+    payer: String!
+    amount: String!
+    status: String!
+    transactionHash: String!
+    blockNumber: Int!
+    settledBlock: Int
+  }
+
+  type FunctionPage {
+    items: [Function!]!
+    nextCursor: String
+  }
+
+  type ExecutionPage {
+    items: [Execution!]!
+    nextCursor: String
+  }
+
+  type DecryptionRequestPage {
+    items: [DecryptionRequest!]!
+    nextCursor: String
+  }
+
+  type Status {
+    chainId: String
+    indexedBlock: Int
+  }
+
+  type Query {
+    status: Status!
+    function(id: ID!): Function
+    functions(
+      search: String
+      owner: String
+      category: String
+      status: String
+      executed: Boolean
+      from: Int
+      to: Int
+      sort: String
+      limit: Int
+      cursor: String
+    ): FunctionPage!
+    statusChanges(functionId: String!): [StatusChange!]!
+    executions(
+      functionId: String
+      programId: String
+      executor: String
+      limit: Int
+      cursor: String
+    ): ExecutionPage!
+    decryptionRequests(
+      kind: String
+      status: String
+      payer: String
+      functionId: String
+      limit: Int
+      cursor: String
+    ): DecryptionRequestPage!
+  }
+`;
+
+// Splits query arguments into the store's filter and page options. An
+// explicit null means no filter.
+function split<T extends object>(
+  args: T & { limit?: number; cursor?: string },
+) {
+  const { limit, cursor, ...filter } = args;
+  const defined = Object.fromEntries(
+    Object.entries(filter).filter(([, value]) => value !== null),
+  );
+  return [
+    defined as Omit<T, "limit" | "cursor">,
+    { limit: limit ?? undefined, cursor: cursor ?? undefined },
+  ] as const;
+}
+
+export function createGraphQLHandler(store: IndexerStore) {
+  const schema: GraphQLSchema = buildSchema(GRAPHQL_SCHEMA);
+  const rootValue = {
+    status: () => ({
+      chainId: store.getMeta("chainId") ?? null,
+      indexedBlock: store.cursor ?? null,
+    }),
+    function: ({ id }: { id: string }) => store.getFunction(id),
+    functions: ({ sort, ...args }: { sort?: FunctionSort | null }) => {
+      const [filter, page] = split(args);
+      return store.functions(filter, { ...page, sort: sort ?? undefined });
+    },
+    statusChanges: ({ functionId }: { functionId: string }) =>
+      store.statusChanges(functionId),
+    executions: (args: object) => store.executions(...split(args)),
+    decryptionRequests: (args: object) =>
+      store.decryptionRequests(...split(args)),
+  };
+
+  return (source: string, variableValues?: Record<string, unknown>) =>
+    graphql({ schema, source, rootValue, variableValues });
+}
@@ -0,0 +1,100 @@
+// Raw events are the source of truth; the other tables are derived from them
+// and rebuilt after a reorg rolls events back, or when SCHEMA_VERSION changes.
+export const SCHEMA_VERSION = 3;
+
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  address TEXT NOT NULL,
+  name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS functions (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  description TEXT,
+  category TEXT,
+  status TEXT,
+  owner TEXT,
+  timestamp INTEGER,
+  on_chain_id TEXT,
+  data TEXT,
+  handles TEXT,
+  created_block INTEGER NOT NULL,
+  created_log INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS framework_functions (
+  id TEXT PRIMARY KEY,
+  owner TEXT,
+  timestamp INTEGER,
+  executed INTEGER NOT NULL DEFAULT 0,
+  input INTEGER,
+  parameters INTEGER,
+  submitted_block INTEGER NOT NULL,
+  executed_block INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS executions (
+  id TEXT PRIMARY KEY,
+  program_id TEXT NOT NULL,
+  function_id TEXT NOT NULL,
+  executor TEXT,
+  result INTEGER,
+  transaction_hash TEXT NOT NULL,
+  created_block INTEGER NOT NULL,
+  created_log INTEGER NOT NULL,
+  revealed_block INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS status_changes (
+  function_id TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  created_block INTEGER NOT NULL,
+  created_log INTEGER NOT NULL,
+  PRIMARY KEY (created_block, created_log)
+);
+
+CREATE TABLE IF NOT EXISTS decryption_requests (
+  request_id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  function_id TEXT,
+  fn_name TEXT,
+  execution_id TEXT,
+  payer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  status TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  created_block INTEGER NOT NULL,
+  created_log INTEGER NOT NULL,
+  settled_block INTEGER
+);
+`;
+
+export const DERIVED_TABLES = [
+  "functions",
+  "framework_functions",
+  "executions",
+  "status_changes",
+  "decryption_requests",
+];
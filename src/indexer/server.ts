@@ -0,0 +1,187 @@
+import http from "http";
+
+import { createGraphQLHandler } from "./graphql";
+import {
+  DecryptionRequestKind,
+  DecryptionRequestStatus,
+  FunctionSort,
+  IndexerStore,
+  InvalidQueryError,
+  PageOptions,
+} from "./IndexerStore";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * REST and GraphQL API over an `IndexerStore`:
+ *
+ *   GET  /status
+ *   GET  /functions?search=&owner=&category=&status=&executed=&from=&to=&sort=&limit=&cursor=
+ *   GET  /functions/:id
+ *   GET  /status-changes/:onChainId
+ *   GET  /executions?functionId=&programId=&executor=&limit=&cursor=
+ *   GET  /decryption-requests?kind=&status=&payer=&functionId=&limit=&cursor=
+ *   POST /graphql  { "query": "...", "variables": {} }
+ *
+ * Lists are newest first and paginated with the returned `nextCursor`;
+ * functions can also be sorted `oldest`, by `name` or `name-desc`.
+ */
+export function createIndexerServer(store: IndexerStore): http.Server {
+  const runGraphQL = createGraphQLHandler(store);
+
+  const route = async (
+    req: http.IncomingMessage,
+    url: URL,
+  ): Promise<unknown> => {
+    const query = url.searchParams;
+    const param = (name: string) => query.get(name) ?? undefined;
+    const page: PageOptions = {
+      limit: integer(param("limit")),
+      cursor: param("cursor"),
+    };
+
+    if (url.pathname === "/graphql") {
+      const body =
+        req.method === "POST"
+          ? JSON.parse(await readBody(req))
+          : {
+              query: param("query"),
+              variables: JSON.parse(param("variables") ?? "{}"),
+            };
+      if (typeof body.query !== "string") {
+        throw new InvalidQueryError("Missing GraphQL query");
+      }
+      return runGraphQL(body.query, body.variables);
+    }
+    if (req.method !== "GET") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    if (url.pathname === "/status") {
+      return {
+        chainId: store.getMeta("chainId") ?? null,
+        indexedBlock: store.cursor ?? null,
+      };
+    }
+    if (url.pathname === "/functions") {
+      return store.functions(
+        {
+          owner: param("owner"),
+          category: param("category"),
+          status: param("status"),
+          executed: boolean(param("executed")),
+          search: param("search"),
+          from: integer(param("from")),
+          to: integer(param("to")),
+        },
+        { ...page, sort: param("sort") as FunctionSort | undefined },
+      );
+    }
+    const fn = url.pathname.match(/^\/functions\/([^/]+)$/);
+    if (fn) {
+      const found = store.getFunction(decodeURIComponent(fn[1]));
+      if (!found) {
+        throw new HttpError(404, "Function not found");
+      }
+      return found;
+    }
+    const changes = url.pathname.match(/^\/status-changes\/([^/]+)$/);
+    if (changes) {
+      return store.statusChanges(decodeURIComponent(changes[1]));
+    }
+    if (url.pathname === "/executions") {
+      return store.executions(
+        {
+          functionId: param("functionId"),
+          programId: param("programId"),
+          executor: param("executor"),
+        },
+        page,
+      );
+    }
+    if (url.pathname === "/decryption-requests") {
+      return store.decryptionRequests(
+        {
+          kind: param("kind") as DecryptionRequestKind | undefined,
+          status: param("status") as DecryptionRequestStatus | undefined,
+          payer: param("payer"),
+          functionId: param("functionId"),
+        },
+        page,
+      );
+    }
+    throw new HttpError(404, "Not found");
+  };
+
+  return http.createServer(async (req, res) => {
+    // The frontend is served from another origin.
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let status = 200;
+    let payload: unknown;
+    try {
+      payload = await route(req, new URL(req.url ?? "/", "http://indexer"));
+    } catch (e) {
+      status =
+        e instanceof HttpError
+          ? e.status
+          : e instanceof InvalidQueryError || e instanceof SyntaxError
+            ? 400
+            : 500;
+      payload = { error: e instanceof Error ? e.message : String(e) };
+    }
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+  });
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function integer(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const n = Number(value);
+  if (!Number.isInteger(n)) {
+    throw new InvalidQueryError(`Expected an integer, got ${value}`);
+  }
+  return n;
+}
+
+function boolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value !== "true" && value !== "false") {
+    throw new InvalidQueryError(`Expected true or false, got ${value}`);
+  }
+  return value === "true";
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
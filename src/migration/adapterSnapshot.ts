@@ -0,0 +1,286 @@
+import {
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  EventLog,
+  hexlify,
+  toUtf8Bytes,
+  toUtf8String,
+} from "ethers";
+
+/** Bumped when the snapshot layout changes; imports reject other versions. */
+export const SNAPSHOT_VERSION = 1;
+
+export const FUNCTION_KEYS_KEY = "function_keys";
+
+export const UNIVERSAL_ADAPTER_ABI = [
+  "function getData(string key) view returns (bytes)",
+  "function setData(string key, bytes value)",
+  "event DataStored(address indexed sender, string key, bytes value)",
+] as const;
+
+export interface SnapshotRecord {
+  /** Storage key, `function_<id>`. */
+  key: string;
+  /** Raw stored bytes as 0x-prefixed hex, copied without decoding. */
+  value: string;
+}
+
+export interface AdapterSnapshot {
+  version: number;
+  source: {
+    chainId: number;
+    adapter: string;
+    /** Block all records were read at. */
+    blockNumber: number;
+  };
+  exportedAt: string;
+  /** Function ids in `function_keys` order, then ids only found in `DataStored` events. */
+  keys: string[];
+  records: SnapshotRecord[];
+  /** Ids listed in `function_keys` whose `function_<id>` record is empty. */
+  missing: string[];
+}
+
+export interface ExportOptions {
+  /** First block to scan for `DataStored` events, ideally the adapter's deployment block. */
+  fromBlock?: number;
+}
+
+export interface ImportOptions {
+  /** Writes sent before waiting for them to be mined. Defaults to 10. */
+  batchSize?: number;
+  onProgress?: (event: ImportProgress) => void;
+}
+
+export type ImportProgress =
+  | { type: "skipped"; key: string }
+  | { type: "written"; key: string; transactionHash: string }
+  | { type: "failed"; key: string; reason: string };
+
+export interface ImportReport {
+  written: string[];
+  /** Keys that already held the snapshot value, e.g. from an interrupted import. */
+  skipped: string[];
+}
+
+/** Thrown when writes of a batch fail or read back a different value. Rerunning the import resumes. */
+export class AdapterImportError extends Error {
+  constructor(
+    readonly failedKeys: string[],
+    readonly report: ImportReport,
+  ) {
+    super(
+      `Import stopped, ${failedKeys.length} write(s) failed: ${failedKeys.join(", ")}`,
+    );
+    this.name = "AdapterImportError";
+  }
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+
+export function connectAdapter(
+  address: string,
+  runner: ContractRunner,
+): Contract {
+  return new Contract(address, UNIVERSAL_ADAPTER_ABI, runner);
+}
+
+export function functionKey(id: string): string {
+  return `function_${id}`;
+}
+
+export function functionIdFromKey(key: string): string | undefined {
+  return key.startsWith("function_") && key !== FUNCTION_KEYS_KEY
+    ? key.slice("function_".length)
+    : undefined;
+}
+
+export function parseFunctionKeys(bytes: string): string[] {
+  if (bytes === "0x") {
+    return [];
+  }
+  const keys = JSON.parse(toUtf8String(bytes));
+  if (!Array.isArray(keys) || keys.some((key) => typeof key !== "string")) {
+    throw new Error(`${FUNCTION_KEYS_KEY} is not a JSON array of strings`);
+  }
+  return keys;
+}
+
+/**
+ * Reads `function_keys` and every `function_<id>` record at one block, so the
+ * snapshot is consistent even while the frontend keeps writing. Concurrent
+ * submitters can overwrite each other's `function_keys` entries, so ids are
+ * also collected from the `DataStored` events of every record write.
+ */
+export async function exportAdapterSnapshot(
+  adapter: Contract,
+  options: ExportOptions = {},
+): Promise<AdapterSnapshot> {
+  const provider = adapter.runner?.provider;
+  if (!provider) {
+    throw new Error("Adapter runner is not connected to a provider");
+  }
+  const [{ chainId }, blockNumber] = await Promise.all([
+    provider.getNetwork(),
+    provider.getBlockNumber(),
+  ]);
+  const read = (key: string): Promise<string> =>
+    adapter.getData(key, { blockTag: blockNumber });
+
+  const logs = await adapter.queryFilter(
+    adapter.filters.DataStored(),
+    options.fromBlock ?? 0,
+    blockNumber,
+  );
+  const written = logs.flatMap((log) => {
+    const id = functionIdFromKey((log as EventLog).args?.key ?? "");
+    return id === undefined ? [] : [id];
+  });
+  const keys = [
+    ...new Set([
+      ...parseFunctionKeys(await read(FUNCTION_KEYS_KEY)),
+      ...written,
+    ]),
+  ];
+  const records: SnapshotRecord[] = [];
+  const missing: string[] = [];
+  for (const id of keys) {
+    const value = await read(functionKey(id));
+    if (value === "0x") {
+      missing.push(id);
+    } else {
+      records.push({ key: functionKey(id), value });
+    }
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    source: {
+      chainId: Number(chainId),
+      adapter: await adapter.getAddress(),
+      blockNumber,
+    },
+    exportedAt: new Date().toISOString(),
+    keys,
+    records,
+    missing,
+  };
+}
+
+export function assertSnapshot(snapshot: AdapterSnapshot): void {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`,
+    );
+  }
+  const listed = new Set(snapshot.keys.map(functionKey));
+  for (const record of snapshot.records) {
+    if (!listed.has(record.key)) {
+      throw new Error(
+        `Record ${record.key} is not listed in the snapshot keys`,
+      );
+    }
+  }
+}
+
+/**
+ * Replays a snapshot into `adapter` through `setData`. Records are written
+ * first and `function_keys` last, so readers never see an id without its
+ * record. Ids the target already lists are kept after the snapshot's.
+ *
+ * Every write is read back. Keys already holding the snapshot value are
+ * skipped, so rerunning an import that failed part way resumes it.
+ */
+export async function importAdapterSnapshot(
+  adapter: Contract,
+  snapshot: AdapterSnapshot,
+  options: ImportOptions = {},
+): Promise<ImportReport> {
+  assertSnapshot(snapshot);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid batch size ${batchSize}`);
+  }
+  const report: ImportReport = { written: [], skipped: [] };
+
+  const targetKeys = parseFunctionKeys(
+    await adapter.getData(FUNCTION_KEYS_KEY),
+  );
+  const keys = [...new Set([...snapshot.keys, ...targetKeys])];
+  const writes = [
+    ...snapshot.records,
+    {
+      key: FUNCTION_KEYS_KEY,
+      value: hexlify(toUtf8Bytes(JSON.stringify(keys))),
+    },
+  ];
+
+  // function_keys goes in a batch of its own, after every record landed.
+  const batches: SnapshotRecord[][] = [];
+  for (let i = 0; i < writes.length - 1; i += batchSize) {
+    batches.push(writes.slice(i, Math.min(i + batchSize, writes.length - 1)));
+  }
+  batches.push(writes.slice(-1));
+
+  for (const batch of batches) {
+    await importBatch(adapter, batch, report, options);
+  }
+  return report;
+}
+
+async function importBatch(
+  adapter: Contract,
+  batch: SnapshotRecord[],
+  report: ImportReport,
+  options: ImportOptions,
+): Promise<void> {
+  const failed: string[] = [];
+  const fail = (key: string, reason: string) => {
+    failed.push(key);
+    options.onProgress?.({ type: "failed", key, reason });
+  };
+
+  const pending: { record: SnapshotRecord; tx: ContractTransactionResponse }[] =
+    [];
+  for (const record of batch) {
+    const current: string = await adapter.getData(record.key);
+    if (current.toLowerCase() === record.value.toLowerCase()) {
+      report.skipped.push(record.key);
+      options.onProgress?.({ type: "skipped", key: record.key });
+      continue;
+    }
+    try {
+      pending.push({
+        record,
+        tx: await adapter.setData(record.key, record.value),
+      });
+    } catch (e) {
+      fail(record.key, (e as Error).message);
+    }
+  }
+
+  for (const { record, tx } of pending) {
+    try {
+      await tx.wait();
+    } catch (e) {
+      fail(record.key, (e as Error).message);
+      continue;
+    }
+    const stored: string = await adapter.getData(record.key);
+    if (stored.toLowerCase() !== record.value.toLowerCase()) {
+      fail(record.key, "read back a different value");
+      continue;
+    }
+    report.written.push(record.key);
+    options.onProgress?.({
+      type: "written",
+      key: record.key,
+      transactionHash: tx.hash,
+    });
+  }
+
+  if (failed.length > 0) {
+    throw new AdapterImportError(failed, report);
+  }
+}
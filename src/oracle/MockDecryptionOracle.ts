@@ -0,0 +1,276 @@
+import { AbiCoder, concat, ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DECRYPTION_FULFILLED_EVENT = new ethers.Interface([
+  "event DecryptionFulfilled(uint256 indexed requestID)",
+]);
+
+export interface MockDecryptionOracleOptions {
+  /** Minimum time a request stays pending before it is fulfilled. */
+  delayMs?: number;
+  /** Probability (0..1) that a request first receives a callback with an invalid proof. */
+  failureRate?: number;
+  /** Request ids that always receive a callback with an invalid proof first. */
+  failRequestIds?: bigint[];
+  /**
+   * Time a request stays unanswered after its invalid proof, 0 (the default)
+   * to answer it on the next poll. `Infinity` never answers it, like an oracle
+   * that went away, so the contract's timeout and refund paths can run.
+   */
+  failureTimeoutMs?: number;
+  /** Only serve requests made by this contract. */
+  contractAddress?: string;
+  /** First block to scan for requests. Defaults to the current block. */
+  fromBlock?: number;
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface PendingDecryptionRequest {
+  requestId: bigint;
+  contractAddress: string;
+  callbackSelector: string;
+  handles: string[];
+  blockNumber: number;
+  transactionHash: string;
+  observedAt: number;
+  injectFailure: boolean;
+  /** When the invalid proof was delivered. */
+  failedAt?: number;
+}
+
+export type FulfilmentStatus = "fulfilled" | "reverted" | "injected-failure";
+
+export interface FulfilmentResult {
+  requestId: bigint;
+  contractAddress: string;
+  status: FulfilmentStatus;
+  reason?: string;
+}
+
+/**
+ * Fulfils `FHE.requestDecryption` callbacks on the hardhat mock network.
+ *
+ * Genuine callbacks (valid `cleartexts`/`proof`) are delivered through the
+ * fhevm mock, which fulfils every pending request at once, so the oracle
+ * answers in bursts: once the oldest request has waited `delayMs`, every
+ * pending request is fulfilled. Requests selected for failure injection
+ * receive a callback with an invalid proof on the first poll that sees them,
+ * which the contract is expected to reject, and stay unanswered at least
+ * until the next poll and for `failureTimeoutMs`. No request is answered
+ * while one is held back that way.
+ */
+export class MockDecryptionOracle {
+  private readonly pending = new Map<string, PendingDecryptionRequest>();
+  private readonly failRequestIds: Set<bigint>;
+  private cursor: number | undefined;
+  private running: Promise<void> | undefined;
+  private stopped = false;
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly options: MockDecryptionOracleOptions = {},
+  ) {
+    if (!hre.fhevm.isMock) {
+      throw new Error(
+        `MockDecryptionOracle requires the fhevm mock, network "${hre.network.name}" is not mocked`,
+      );
+    }
+    this.failRequestIds = new Set(options.failRequestIds ?? []);
+    this.cursor = options.fromBlock;
+  }
+
+  get pendingRequests(): PendingDecryptionRequest[] {
+    return [...this.pending.values()];
+  }
+
+  /** Scans new blocks for decryption requests and fulfils those that are due. */
+  async poll(): Promise<FulfilmentResult[]> {
+    await this.scan();
+    if (this.pending.size === 0) {
+      return [];
+    }
+
+    const now = Date.now();
+    const delayMs = this.options.delayMs ?? 0;
+    const results: FulfilmentResult[] = [];
+    const failedNow = new Set<PendingDecryptionRequest>();
+    for (const request of this.pendingRequests) {
+      if (request.injectFailure && request.failedAt === undefined) {
+        results.push(await this.deliverInvalidProof(request));
+        request.failedAt = now;
+        failedNow.add(request);
+      }
+    }
+
+    const failureTimeoutMs = this.options.failureTimeoutMs ?? 0;
+    const held = this.pendingRequests.some(
+      (request) =>
+        failedNow.has(request) ||
+        (request.failedAt !== undefined &&
+          now - request.failedAt < failureTimeoutMs),
+    );
+    const oldest = Math.min(...this.pendingRequests.map((r) => r.observedAt));
+    if (held || now - oldest < delayMs) {
+      return results;
+    }
+    return [...results, ...(await this.fulfilPending())];
+  }
+
+  /**
+   * Fulfils every pending request now, whatever their delay or injected
+   * failures, e.g. to release requests held back with `failureTimeoutMs`.
+   */
+  async flush(): Promise<FulfilmentResult[]> {
+    await this.scan();
+    return this.pending.size === 0 ? [] : this.fulfilPending();
+  }
+
+  /** Polls until `stop()` is called. */
+  start(onResults?: (results: FulfilmentResult[]) => void): void {
+    if (this.running) {
+      return;
+    }
+    this.stopped = false;
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.running = (async () => {
+      while (!this.stopped) {
+        const results = await this.poll();
+        if (results.length > 0) {
+          onResults?.(results);
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval));
+      }
+    })();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.running;
+    this.running = undefined;
+  }
+
+  private async scan(): Promise<void> {
+    const provider = this.hre.ethers.provider;
+    const latest = await provider.getBlockNumber();
+    if (this.cursor === undefined) {
+      this.cursor = latest;
+    }
+    if (latest < this.cursor) {
+      return;
+    }
+
+    const logs = await provider.getLogs({
+      fromBlock: this.cursor,
+      toBlock: latest,
+    });
+    this.cursor = latest + 1;
+
+    const filter = this.options.contractAddress?.toLowerCase();
+    for (const event of this.hre.fhevm.parseDecryptionRequestEvents(logs)) {
+      const contractAddress = event.contractCallerAddress;
+      if (filter && contractAddress.toLowerCase() !== filter) {
+        continue;
+      }
+      const key = `${contractAddress.toLowerCase()}:${event.requestID}`;
+      if (this.pending.has(key)) {
+        continue;
+      }
+      const rate = this.options.failureRate ?? 0;
+      this.pending.set(key, {
+        requestId: event.requestID,
+        contractAddress,
+        callbackSelector: event.callbackSelectorBytes4Hex,
+        handles: event.handlesBytes32Hex,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        observedAt: Date.now(),
+        injectFailure:
+          this.failRequestIds.has(event.requestID) || Math.random() < rate,
+      });
+      this.log(
+        `observed decryption request ${event.requestID} from ${contractAddress} (${event.handlesBytes32Hex.length} handles)`,
+      );
+    }
+  }
+
+  private async fulfilPending(): Promise<FulfilmentResult[]> {
+    const requests = this.pendingRequests;
+    this.pending.clear();
+    const results: FulfilmentResult[] = [];
+
+    const provider = this.hre.ethers.provider;
+    const fromBlock = (await provider.getBlockNumber()) + 1;
+    // The mock relayer throws when a callback reverts; the per-request status
+    // below is derived from the DecryptionFulfilled logs either way.
+    let reason: string | undefined;
+    try {
+      await this.hre.fhevm.awaitDecryptionOracle();
+    } catch (e) {
+      reason = e instanceof Error ? e.message : String(e);
+    }
+    const toBlock = await provider.getBlockNumber();
+
+    for (const request of requests) {
+      const logs = await provider.getLogs({
+        address: request.contractAddress,
+        topics: DECRYPTION_FULFILLED_EVENT.encodeFilterTopics(
+          "DecryptionFulfilled",
+          [request.requestId],
+        ),
+        fromBlock,
+        toBlock,
+      });
+      const status = logs.length > 0 ? "fulfilled" : "reverted";
+      this.log(
+        `request ${request.requestId} ${status}${status === "reverted" && reason ? `: ${reason}` : ""}`,
+      );
+      results.push({
+        requestId: request.requestId,
+        contractAddress: request.contractAddress,
+        status,
+        ...(status === "reverted" && reason ? { reason } : {}),
+      });
+    }
+    return results;
+  }
+
+  private async deliverInvalidProof(
+    request: PendingDecryptionRequest,
+  ): Promise<FulfilmentResult> {
+    const coder = AbiCoder.defaultAbiCoder();
+    const cleartexts = coder.encode(
+      request.handles.map(() => "uint256"),
+      request.handles.map(() => 0),
+    );
+    const data = concat([
+      request.callbackSelector,
+      coder.encode(
+        ["uint256", "bytes", "bytes"],
+        [request.requestId, cleartexts, "0x"],
+      ),
+    ]);
+
+    let reason = "callback accepted an invalid proof";
+    try {
+      await this.hre.ethers.provider.call({
+        to: request.contractAddress,
+        data,
+      });
+    } catch (e) {
+      reason = e instanceof Error ? e.message : String(e);
+    }
+    this.log(`request ${request.requestId} injected failure: ${reason}`);
+    return {
+      requestId: request.requestId,
+      contractAddress: request.contractAddress,
+      status: "injected-failure",
+      reason,
+    };
+  }
+
+  private log(message: string) {
+    this.options.log?.(`[mock-oracle] ${message}`);
+  }
+}
@@ -0,0 +1,862 @@
+import {
+  BigNumberish,
+  BytesLike,
+  Contract,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  EventLog,
+  Log,
+  Provider,
+  Result,
+  Signer,
+} from "ethers";
+
+import { FHE_SERVERLESS_FRAMEWORK_ABI } from "./abi";
+import { AclClient } from "./acl";
+import { FheServerlessError, decodeError } from "./errors";
+import {
+  BillingEvent,
+  BillingReport,
+  decodeBillingEvent,
+  reconstructBilling,
+} from "./billing";
+import { Instruction, Op } from "./programs";
+import { UserDecryptor } from "./userDecrypt";
+import {
+  BlockRange,
+  DecryptedFunction,
+  DecryptionRequest,
+  DecryptionRequestedEvent,
+  EncryptedFunctionRecord,
+  EncryptedProgramInputs,
+  EscrowRecord,
+  ExecutionDecryptionRequest,
+  ExecutionResultRevealedEvent,
+  ExecutionStatsRevealedEvent,
+  FunctionAccess,
+  FunctionAccessGrantedEvent,
+  FunctionDecryptionRequest,
+  FunctionExecutedEvent,
+  FunctionSchemaSetEvent,
+  FunctionStatus,
+  FunctionStatusChangedEvent,
+  FunctionSubmittedEvent,
+  PaymentOptions,
+  Prices,
+  ProgramExecutedEvent,
+  ProgramExecutionRecord,
+  ProgramRecord,
+  RegisteredProgram,
+  RevealedExecutionStats,
+  RevealedResult,
+  SubmittedFunction,
+  TransactionInfo,
+  UserDecryptedFunction,
+  WaitOptions,
+} from "./types";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Typed client for FheServerlessFramework covering the
+ * submit -> request decryption -> executed lifecycle.
+ */
+export class FheServerlessClient {
+  readonly contract: Contract;
+
+  constructor(
+    readonly address: string,
+    runner: ContractRunner,
+  ) {
+    this.contract = new Contract(address, FHE_SERVERLESS_FRAMEWORK_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): FheServerlessClient {
+    return new FheServerlessClient(address, runner);
+  }
+
+  async functionCount(): Promise<bigint> {
+    return this.contract.functionCount();
+  }
+
+  async getEncryptedFunction(
+    functionId: BigNumberish,
+  ): Promise<EncryptedFunctionRecord> {
+    const [id, encryptedInput, encryptedParameters, timestamp, owner] =
+      await this.contract.encryptedFunctions(functionId);
+    return { id, encryptedInput, encryptedParameters, timestamp, owner };
+  }
+
+  /** `FunctionSubmitted` events in `range`, oldest first. */
+  async getSubmittedFunctions(
+    range: BlockRange = {},
+  ): Promise<FunctionSubmittedEvent[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.FunctionSubmitted(),
+      range.fromBlock ?? 0,
+      range.toBlock ?? "latest",
+    );
+    return logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .map((log) => ({
+        ...this.logInfo(log),
+        functionId: log.args.id,
+        timestamp: log.args.timestamp,
+      }));
+  }
+
+  /**
+   * Allows `account` to use (and user-decrypt) the function's handles.
+   * Only the submitter of `functionId` may grant access.
+   */
+  async grantAccess(
+    functionId: BigNumberish,
+    account: string,
+  ): Promise<FunctionAccessGrantedEvent> {
+    const receipt = await this.send(
+      this.contract.grantFunctionAccess(functionId, account),
+    );
+    const event = this.findEvent(receipt, "FunctionAccessGranted");
+    return {
+      ...this.txInfo(receipt),
+      functionId: event.args.id,
+      account: event.args.account,
+    };
+  }
+
+  /** True when `account` may use both handles of `functionId`. */
+  async hasAccess(functionId: BigNumberish, account: string): Promise<boolean> {
+    return this.contract.hasFunctionAccess(functionId, account);
+  }
+
+  /** Hash of the function's execution schema, `ZeroHash` if none was set. */
+  async getFunctionSchemaHash(functionId: BigNumberish): Promise<string> {
+    return this.contract.functionSchemas(functionId);
+  }
+
+  /**
+   * Binds `functionId` to the execution schema with hash `schemaHash`, so
+   * clients can tell its record was not rewritten. Only its owner may set it.
+   */
+  async setFunctionSchema(
+    functionId: BigNumberish,
+    schemaHash: BytesLike,
+  ): Promise<FunctionSchemaSetEvent> {
+    const receipt = await this.send(
+      this.contract.setFunctionSchema(functionId, schemaHash),
+    );
+    const event = this.findEvent(receipt, "FunctionSchemaSet");
+    return {
+      ...this.txInfo(receipt),
+      functionId: event.args.id,
+      schemaHash: event.args.schemaHash,
+    };
+  }
+
+  async getFunctionStatus(functionId: BigNumberish): Promise<FunctionStatus> {
+    return Number(await this.contract.functionStatus(functionId));
+  }
+
+  /**
+   * Moves the function to `status`. Pending functions are verified or
+   * rejected by reviewers; verified ones are deprecated by a reviewer or
+   * their owner. Other transitions revert with "Invalid transition".
+   */
+  async setFunctionStatus(
+    functionId: BigNumberish,
+    status: FunctionStatus,
+    reason: string,
+  ): Promise<FunctionStatusChangedEvent> {
+    const receipt = await this.send(
+      this.contract.setFunctionStatus(functionId, status, reason),
+    );
+    const event = this.findEvent(receipt, "FunctionStatusChanged");
+    return {
+      ...this.txInfo(receipt),
+      ...this.statusChange(event.args),
+    };
+  }
+
+  /** Status changes of `functionId` in `range`, oldest first. */
+  async getStatusHistory(
+    functionId: BigNumberish,
+    range: BlockRange = {},
+  ): Promise<FunctionStatusChangedEvent[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.FunctionStatusChanged(functionId),
+      range.fromBlock ?? 0,
+      range.toBlock ?? "latest",
+    );
+    return logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .map((log) => ({
+        ...this.logInfo(log),
+        ...this.statusChange(log.args),
+      }));
+  }
+
+  async isReviewer(account: string): Promise<boolean> {
+    return this.contract.reviewers(account);
+  }
+
+  /** Admin only. */
+  async setReviewer(
+    account: string,
+    enabled: boolean,
+  ): Promise<TransactionInfo> {
+    const receipt = await this.send(
+      this.contract.setReviewer(account, enabled),
+    );
+    return this.txInfo(receipt);
+  }
+
+  /** ACL contract the framework grants permissions through. */
+  async acl(): Promise<AclClient> {
+    return new AclClient(await this.contract.aclAddress(), this.provider);
+  }
+
+  /** Queries `IACL.isAllowed` for each handle of `functionId`. */
+  async getAccess(
+    functionId: BigNumberish,
+    account: string,
+  ): Promise<FunctionAccess> {
+    const [fn, acl] = await Promise.all([
+      this.getEncryptedFunction(functionId),
+      this.acl(),
+    ]);
+    const [input, parameters] = await Promise.all([
+      acl.isAllowed(fn.encryptedInput, account),
+      acl.isAllowed(fn.encryptedParameters, account),
+    ]);
+    return { account, input, parameters };
+  }
+
+  /**
+   * Submits two external ciphertext handles produced by `createEncryptedInput`
+   * together with their input proof, and resolves once `FunctionSubmitted` is mined.
+   */
+  async submitEncryptedFunction(
+    encryptedInput: BytesLike,
+    encryptedParameters: BytesLike,
+    inputProof: BytesLike,
+    options: PaymentOptions = {},
+  ): Promise<SubmittedFunction> {
+    const overrides = await this.payment(
+      this.contract.submissionPrice(),
+      options,
+    );
+    const receipt = await this.send(
+      this.contract.submitEncryptedFunction(
+        encryptedInput,
+        encryptedParameters,
+        inputProof,
+        overrides,
+      ),
+    );
+    const event = this.findEvent(receipt, "FunctionSubmitted");
+    return {
+      ...this.txInfo(receipt),
+      functionId: event.args.id,
+      timestamp: event.args.timestamp,
+    };
+  }
+
+  /**
+   * Asks the oracle to reveal the function on-chain. The decryption price is
+   * held in escrow and can be refunded if the callback never lands.
+   */
+  async requestFunctionDecryption(
+    functionId: BigNumberish,
+    options: PaymentOptions = {},
+  ): Promise<FunctionDecryptionRequest> {
+    const overrides = await this.payment(this.decryptionPrice(2n), options);
+    const receipt = await this.send(
+      this.contract.requestFunctionDecryption(functionId, overrides),
+    );
+    const event = this.findEvent(receipt, "DecryptionRequested");
+    return { ...this.decryptionRequest(receipt), functionId: event.args.id };
+  }
+
+  async getDecryptedFunction(
+    functionId: BigNumberish,
+  ): Promise<DecryptedFunction> {
+    const [input, parameters, executed] =
+      await this.contract.getDecryptedFunction(functionId);
+    return { input: Number(input), parameters: Number(parameters), executed };
+  }
+
+  /**
+   * Decrypts the function's input and parameters for the decryptor's account
+   * only. Unlike `requestFunctionDecryption`, nothing is revealed on-chain.
+   */
+  async userDecryptFunction(
+    functionId: BigNumberish,
+    decryptor: UserDecryptor,
+  ): Promise<UserDecryptedFunction> {
+    const fn = await this.getEncryptedFunction(functionId);
+    const [input, parameters] = await decryptor.decryptUint(this.address, [
+      fn.encryptedInput,
+      fn.encryptedParameters,
+    ]);
+    return { input: Number(input), parameters: Number(parameters) };
+  }
+
+  /** Returns the bytes32 handle of the encrypted execution counter for `fnName`. */
+  async getEncryptedExecutionStats(fnName: string): Promise<string> {
+    return this.contract.getEncryptedExecutionStats(fnName);
+  }
+
+  async requestExecutionStatsDecryption(
+    fnName: string,
+    options: PaymentOptions = {},
+  ): Promise<DecryptionRequest> {
+    const overrides = await this.payment(this.decryptionPrice(1n), options);
+    const receipt = await this.send(
+      this.contract.requestExecutionStatsDecryption(fnName, overrides),
+    );
+    return this.decryptionRequest(receipt);
+  }
+
+  async getRevealedExecutionStats(
+    fnName: string,
+  ): Promise<RevealedExecutionStats> {
+    const [count, revealedAtBlock] =
+      await this.contract.getRevealedExecutionStats(fnName);
+    return {
+      fnName,
+      count: Number(count),
+      revealedAtBlock: Number(revealedAtBlock),
+    };
+  }
+
+  /** Names of the functions that have an encrypted execution counter. */
+  async getExecutionStatsNames(): Promise<string[]> {
+    return [...(await this.contract.getExecutionStatsNames())];
+  }
+
+  async getAllRevealedExecutionStats(): Promise<RevealedExecutionStats[]> {
+    const names = await this.getExecutionStatsNames();
+    return Promise.all(
+      names.map((fnName) => this.getRevealedExecutionStats(fnName)),
+    );
+  }
+
+  /**
+   * Requests decryption of the execution counter for `fnName` and waits for
+   * the oracle callback to emit `ExecutionStatsRevealed`.
+   */
+  async requestAndAwaitExecutionStats(
+    fnName: string,
+    options: WaitOptions & PaymentOptions = {},
+  ): Promise<RevealedExecutionStats> {
+    const request = await this.requestExecutionStatsDecryption(fnName, {
+      value: options.value,
+    });
+    await this.waitForExecutionStatsRevealed(fnName, {
+      fromBlock: request.blockNumber,
+      ...options,
+    });
+    return this.getRevealedExecutionStats(fnName);
+  }
+
+  /** Registers a program built with `ProgramBuilder`. */
+  async registerProgram(
+    name: string,
+    instructions: Instruction[],
+  ): Promise<RegisteredProgram> {
+    const receipt = await this.send(
+      this.contract.registerProgram(name, instructions),
+    );
+    const event = this.findEvent(receipt, "ProgramRegistered");
+    return { ...this.txInfo(receipt), programId: event.args.programId };
+  }
+
+  async getProgram(programId: BigNumberish): Promise<ProgramRecord> {
+    const [[id, name, owner, timestamp], instructions] = await Promise.all([
+      this.contract.programs(programId),
+      this.contract.getProgramInstructions(programId),
+    ]);
+    return {
+      id,
+      name,
+      owner,
+      timestamp,
+      instructions: instructions.map(
+        ([op, a, b, c, scalar, imm]: [
+          bigint,
+          bigint,
+          bigint,
+          bigint,
+          boolean,
+          bigint,
+        ]) => ({
+          op: Number(op),
+          a: Number(a),
+          b: Number(b),
+          c: Number(c),
+          scalar,
+          imm: Number(imm),
+        }),
+      ),
+    };
+  }
+
+  /**
+   * Evaluates `programId` homomorphically over the encrypted input and
+   * parameters of `functionId`. Only the function owner may execute it; the
+   * owner is granted access to the encrypted result.
+   */
+  async executeProgram(
+    programId: BigNumberish,
+    functionId: BigNumberish,
+    options: PaymentOptions = {},
+  ): Promise<ProgramExecutedEvent> {
+    const overrides = await this.payment(this.quoteProgram(programId), options);
+    const receipt = await this.send(
+      this.contract.executeProgram(programId, functionId, overrides),
+    );
+    return this.programExecuted(receipt);
+  }
+
+  /**
+   * Like `executeProgram`, with encrypted inputs the program reads through
+   * `Arg` instructions. They must be encrypted for this contract and the
+   * caller.
+   */
+  async executeProgramWithInputs(
+    programId: BigNumberish,
+    functionId: BigNumberish,
+    inputs: EncryptedProgramInputs,
+    options: PaymentOptions = {},
+  ): Promise<ProgramExecutedEvent> {
+    const overrides = await this.payment(this.quoteProgram(programId), options);
+    const receipt = await this.send(
+      this.contract.executeProgramWithInputs(
+        programId,
+        functionId,
+        inputs.handles,
+        inputs.inputProof,
+        overrides,
+      ),
+    );
+    return this.programExecuted(receipt);
+  }
+
+  async getExecution(
+    executionId: BigNumberish,
+  ): Promise<ProgramExecutionRecord> {
+    const [id, programId, functionId, result, executor, timestamp] =
+      await this.contract.executions(executionId);
+    return { id, programId, functionId, result, executor, timestamp };
+  }
+
+  /** Returns the bytes32 handle of the encrypted result of `executionId`. */
+  async getExecutionResult(executionId: BigNumberish): Promise<string> {
+    return this.contract.getExecutionResult(executionId);
+  }
+
+  /** Privately decrypts the result of a program execution for the executor. */
+  async userDecryptExecutionResult(
+    executionId: BigNumberish,
+    decryptor: UserDecryptor,
+  ): Promise<number> {
+    const handle = await this.getExecutionResult(executionId);
+    const [result] = await decryptor.decryptUint(this.address, [handle]);
+    return Number(result);
+  }
+
+  /** Asks the oracle to reveal the result of an execution of the caller on-chain. */
+  async requestExecutionDecryption(
+    executionId: BigNumberish,
+    options: PaymentOptions = {},
+  ): Promise<ExecutionDecryptionRequest> {
+    const overrides = await this.payment(this.decryptionPrice(1n), options);
+    const receipt = await this.send(
+      this.contract.requestExecutionDecryption(executionId, overrides),
+    );
+    const event = this.findEvent(receipt, "ExecutionDecryptionRequested");
+    return {
+      ...this.decryptionRequest(receipt),
+      executionId: event.args.executionId,
+    };
+  }
+
+  async getRevealedResult(executionId: BigNumberish): Promise<RevealedResult> {
+    const [value, revealed] =
+      await this.contract.getRevealedResult(executionId);
+    return { value: Number(value), revealed };
+  }
+
+  /**
+   * Requests decryption of an execution result and waits for the oracle
+   * callback to emit `ExecutionResultRevealed`.
+   */
+  async requestAndAwaitExecutionResult(
+    executionId: BigNumberish,
+    options: WaitOptions & PaymentOptions = {},
+  ): Promise<number> {
+    const request = await this.requestExecutionDecryption(executionId, {
+      value: options.value,
+    });
+    const event = await this.waitForExecutionResultRevealed(executionId, {
+      fromBlock: request.blockNumber,
+      ...options,
+    });
+    return event.result;
+  }
+
+  /**
+   * Requests decryption of `functionId` and waits for the oracle callback
+   * to emit `FunctionExecuted`, then returns the revealed values.
+   */
+  async requestAndAwaitDecryption(
+    functionId: BigNumberish,
+    options: WaitOptions & PaymentOptions = {},
+  ): Promise<DecryptedFunction> {
+    const request = await this.requestFunctionDecryption(functionId, {
+      value: options.value,
+    });
+    await this.waitForFunctionExecuted(functionId, {
+      fromBlock: request.blockNumber,
+      ...options,
+    });
+    return this.getDecryptedFunction(functionId);
+  }
+
+  async getPrices(): Promise<Prices> {
+    const [submissionPrice, decryptionPricePerHandle, decryptionTimeout] =
+      await Promise.all([
+        this.contract.submissionPrice(),
+        this.contract.decryptionPricePerHandle(),
+        this.contract.decryptionTimeout(),
+      ]);
+    return { submissionPrice, decryptionPricePerHandle, decryptionTimeout };
+  }
+
+  async getOpPrice(op: Op): Promise<bigint> {
+    return this.contract.opPrices(op);
+  }
+
+  /** Price of one execution of `programId`, the sum of its op prices. */
+  async quoteProgram(programId: BigNumberish): Promise<bigint> {
+    return this.contract.quoteProgram(programId);
+  }
+
+  /** Admin only. */
+  async setPrices(prices: Prices): Promise<TransactionInfo> {
+    const receipt = await this.send(
+      this.contract.setPrices(
+        prices.submissionPrice,
+        prices.decryptionPricePerHandle,
+        prices.decryptionTimeout,
+      ),
+    );
+    return this.txInfo(receipt);
+  }
+
+  /** Admin only. */
+  async setOpPrice(op: Op, price: bigint): Promise<TransactionInfo> {
+    const receipt = await this.send(this.contract.setOpPrice(op, price));
+    return this.txInfo(receipt);
+  }
+
+  /** Prepaid balance that metered calls are charged from. */
+  async getBalance(account: string): Promise<bigint> {
+    return this.contract.balances(account);
+  }
+
+  async deposit(amount: bigint): Promise<TransactionInfo> {
+    const receipt = await this.send(this.contract.deposit({ value: amount }));
+    return this.txInfo(receipt);
+  }
+
+  async withdraw(amount: bigint): Promise<TransactionInfo> {
+    const receipt = await this.send(this.contract.withdraw(amount));
+    return this.txInfo(receipt);
+  }
+
+  async getEscrow(requestId: BigNumberish): Promise<EscrowRecord> {
+    const [payer, amount, deadline] = await this.contract.escrows(requestId);
+    return { requestId: BigInt(requestId), payer, amount, deadline };
+  }
+
+  /**
+   * Returns the escrowed price of a decryption whose callback did not land
+   * before its deadline to the payer's balance.
+   */
+  async refundDecryption(requestId: BigNumberish): Promise<TransactionInfo> {
+    const receipt = await this.send(this.contract.refundDecryption(requestId));
+    return this.txInfo(receipt);
+  }
+
+  /** Fees earned by the platform and not yet withdrawn. */
+  async collectedFees(): Promise<bigint> {
+    return this.contract.collectedFees();
+  }
+
+  /** Admin only. */
+  async withdrawFees(to: string, amount: bigint): Promise<TransactionInfo> {
+    const receipt = await this.send(this.contract.withdrawFees(to, amount));
+    return this.txInfo(receipt);
+  }
+
+  async getBillingEvents(range: BlockRange = {}): Promise<BillingEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.address,
+      fromBlock: range.fromBlock ?? 0,
+      toBlock: range.toBlock ?? "latest",
+    });
+    return logs.flatMap((log) => {
+      const parsed = this.parseLog(log);
+      const event = parsed && decodeBillingEvent(parsed, log);
+      return event ? [event] : [];
+    });
+  }
+
+  /** Per-account spend rebuilt from the billing events in `range`. */
+  async getBillingReport(range: BlockRange = {}): Promise<BillingReport> {
+    return reconstructBilling(await this.getBillingEvents(range));
+  }
+
+  waitForFunctionSubmitted(
+    functionId: BigNumberish,
+    options: WaitOptions = {},
+  ): Promise<FunctionSubmittedEvent> {
+    return this.waitForEvent(
+      "FunctionSubmitted",
+      functionId,
+      options,
+      (log) => ({
+        ...this.logInfo(log),
+        functionId: log.args.id,
+        timestamp: log.args.timestamp,
+      }),
+    );
+  }
+
+  waitForDecryptionRequested(
+    functionId: BigNumberish,
+    options: WaitOptions = {},
+  ): Promise<DecryptionRequestedEvent> {
+    return this.waitForEvent(
+      "DecryptionRequested",
+      functionId,
+      options,
+      (log) => ({
+        ...this.logInfo(log),
+        functionId: log.args.id,
+      }),
+    );
+  }
+
+  waitForFunctionExecuted(
+    functionId: BigNumberish,
+    options: WaitOptions = {},
+  ): Promise<FunctionExecutedEvent> {
+    return this.waitForEvent(
+      "FunctionExecuted",
+      functionId,
+      options,
+      (log) => ({
+        ...this.logInfo(log),
+        functionId: log.args.id,
+      }),
+    );
+  }
+
+  waitForExecutionResultRevealed(
+    executionId: BigNumberish,
+    options: WaitOptions = {},
+  ): Promise<ExecutionResultRevealedEvent> {
+    return this.waitForEvent(
+      "ExecutionResultRevealed",
+      executionId,
+      options,
+      (log) => ({
+        ...this.logInfo(log),
+        executionId: log.args.executionId,
+        result: Number(log.args.result),
+      }),
+    );
+  }
+
+  waitForExecutionStatsRevealed(
+    fnName: string,
+    options: WaitOptions = {},
+  ): Promise<ExecutionStatsRevealedEvent> {
+    // fnName is an indexed string, so the log only carries its hash.
+    return this.waitForEvent(
+      "ExecutionStatsRevealed",
+      fnName,
+      options,
+      (log) => ({
+        ...this.logInfo(log),
+        fnName,
+        count: Number(log.args.count),
+      }),
+    );
+  }
+
+  protected get provider(): Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error(
+        "FheServerlessClient runner is not connected to a provider",
+      );
+    }
+    return provider;
+  }
+
+  /** Waits for the transaction, rethrowing failures as `FheServerlessError`s. */
+  protected async send(
+    pending: Promise<ContractTransactionResponse>,
+  ): Promise<ContractTransactionReceipt> {
+    let tx: ContractTransactionResponse;
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      tx = await pending;
+      receipt = await tx.wait();
+    } catch (e) {
+      throw decodeError(e, this.contract.interface);
+    }
+    if (!receipt) {
+      throw new FheServerlessError(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  /**
+   * Transaction overrides paying for a metered call: `options.value` if set,
+   * otherwise whatever the caller's balance is short of `price`.
+   */
+  protected async payment(
+    price: Promise<bigint>,
+    options: PaymentOptions,
+  ): Promise<{ value: bigint }> {
+    if (options.value !== undefined) {
+      return { value: options.value };
+    }
+    const amount = await price;
+    if (amount === 0n) {
+      return { value: 0n };
+    }
+    const balance = await this.getBalance(await this.signer.getAddress());
+    return { value: amount > balance ? amount - balance : 0n };
+  }
+
+  protected async decryptionPrice(handles: bigint): Promise<bigint> {
+    return handles * (await this.contract.decryptionPricePerHandle());
+  }
+
+  protected decryptionRequest(
+    receipt: ContractTransactionReceipt,
+  ): DecryptionRequest {
+    const charged = this.findEvent(receipt, "Charged");
+    return {
+      ...this.txInfo(receipt),
+      requestId: charged.args.ref,
+      escrowed: charged.args.amount,
+    };
+  }
+
+  protected get signer(): Signer {
+    const runner = this.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("FheServerlessClient runner is not a signer");
+    }
+    return runner;
+  }
+
+  protected findEvent(receipt: ContractTransactionReceipt, eventName: string) {
+    for (const log of receipt.logs) {
+      const parsed = this.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed;
+      }
+    }
+    throw new Error(`${eventName} not emitted in transaction ${receipt.hash}`);
+  }
+
+  protected parseLog(log: Log) {
+    if (log.address.toLowerCase() !== this.address.toLowerCase()) {
+      return null;
+    }
+    try {
+      return this.contract.interface.parseLog(log);
+    } catch {
+      return null;
+    }
+  }
+
+  protected txInfo(receipt: ContractTransactionReceipt): TransactionInfo {
+    return { transactionHash: receipt.hash, blockNumber: receipt.blockNumber };
+  }
+
+  protected programExecuted(
+    receipt: ContractTransactionReceipt,
+  ): ProgramExecutedEvent {
+    const event = this.findEvent(receipt, "ProgramExecuted");
+    return {
+      ...this.txInfo(receipt),
+      executionId: event.args.executionId,
+      programId: event.args.programId,
+      functionId: event.args.functionId,
+    };
+  }
+
+  protected statusChange(args: Result) {
+    return {
+      functionId: args.id as bigint,
+      from: Number(args.from) as FunctionStatus,
+      to: Number(args.to) as FunctionStatus,
+      actor: args.actor as string,
+      reason: args.reason as string,
+    };
+  }
+
+  protected logInfo(log: Log): TransactionInfo {
+    return {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    };
+  }
+
+  protected async waitForEvent<T>(
+    eventName: string,
+    topic: BigNumberish,
+    options: WaitOptions,
+    map: (log: EventLog) => T,
+  ): Promise<T> {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline =
+      options.timeoutMs === undefined
+        ? undefined
+        : Date.now() + options.timeoutMs;
+    let cursor = options.fromBlock ?? (await this.provider.getBlockNumber());
+
+    for (;;) {
+      const latest = await this.provider.getBlockNumber();
+      if (latest >= cursor) {
+        const logs = await this.contract.queryFilter(
+          this.contract.filters[eventName](topic),
+          cursor,
+          latest,
+        );
+        const match = logs.find(
+          (log): log is EventLog => log instanceof EventLog,
+        );
+        if (match) {
+          return map(match);
+        }
+        cursor = latest + 1;
+      }
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for ${eventName}(${topic})`);
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// Human-readable ABI for contracts/FheServerlessFramework.sol.
+// Encrypted types (euint32, ...) are ABI-encoded as their bytes32 handle.
+export const FHE_SERVERLESS_FRAMEWORK_ABI = [
+  "function functionCount() view returns (uint256)",
+  "function encryptedFunctions(uint256 functionId) view returns (uint256 id, bytes32 encryptedInput, bytes32 encryptedParameters, uint256 timestamp, address owner)",
+  "function decryptedFunctions(uint256 functionId) view returns (uint32 input, uint32 parameters, bool executed)",
+  "function submitEncryptedFunction(bytes32 encryptedInputHandle, bytes32 encryptedParametersHandle, bytes inputProof) payable",
+  "function requestFunctionDecryption(uint256 functionId) payable",
+  "function grantFunctionAccess(uint256 functionId, address account)",
+  "function hasFunctionAccess(uint256 functionId, address account) view returns (bool)",
+  "function aclAddress() view returns (address)",
+  "function getDecryptedFunction(uint256 functionId) view returns (uint32 input, uint32 parameters, bool executed)",
+  "function getEncryptedExecutionStats(string fnName) view returns (bytes32)",
+  "function requestExecutionStatsDecryption(string fnName) payable",
+  "function getRevealedExecutionStats(string fnName) view returns (uint32 count, uint256 revealedAtBlock)",
+  "function getExecutionStatsNames() view returns (string[])",
+  "function MAX_PROGRAM_LENGTH() view returns (uint256)",
+  "function programCount() view returns (uint256)",
+  "function programs(uint256 programId) view returns (uint256 id, string name, address owner, uint256 timestamp)",
+  "function registerProgram(string name, tuple(uint8 op, uint8 a, uint8 b, uint8 c, bool scalar, uint32 imm)[] instructions) returns (uint256)",
+  "function getProgramInstructions(uint256 programId) view returns (tuple(uint8 op, uint8 a, uint8 b, uint8 c, bool scalar, uint32 imm)[])",
+  "function executionCount() view returns (uint256)",
+  "function executions(uint256 executionId) view returns (uint256 id, uint256 programId, uint256 functionId, bytes32 result, address executor, uint256 timestamp)",
+  "function executeProgram(uint256 programId, uint256 functionId) payable returns (uint256)",
+  "function executeProgramWithInputs(uint256 programId, uint256 functionId, bytes32[] inputs, bytes inputProof) payable returns (uint256)",
+  "function getExecutionResult(uint256 executionId) view returns (bytes32)",
+  "function requestExecutionDecryption(uint256 executionId) payable",
+  "function getRevealedResult(uint256 executionId) view returns (uint32 value, bool revealed)",
+  "function admin() view returns (address)",
+  "function submissionPrice() view returns (uint256)",
+  "function decryptionPricePerHandle() view returns (uint256)",
+  "function decryptionTimeout() view returns (uint256)",
+  "function opPrices(uint8 op) view returns (uint256)",
+  "function balances(address account) view returns (uint256)",
+  "function escrows(uint256 requestId) view returns (address payer, uint256 amount, uint256 deadline)",
+  "function collectedFees() view returns (uint256)",
+  "function quoteProgram(uint256 programId) view returns (uint256)",
+  "function setPrices(uint256 submission, uint256 decryptionPerHandle, uint256 timeout)",
+  "function setOpPrice(uint8 op, uint256 price)",
+  "function deposit() payable",
+  "function withdraw(uint256 amount)",
+  "function refundDecryption(uint256 requestId)",
+  "function withdrawFees(address to, uint256 amount)",
+  "function functionStatus(uint256 functionId) view returns (uint8)",
+  "function reviewers(address account) view returns (bool)",
+  "function setFunctionStatus(uint256 functionId, uint8 to, string reason)",
+  "function functionSchemas(uint256 functionId) view returns (bytes32)",
+  "function setFunctionSchema(uint256 functionId, bytes32 schemaHash)",
+  "function setReviewer(address account, bool enabled)",
+  "event FunctionSubmitted(uint256 indexed id, uint256 timestamp)",
+  "event DecryptionRequested(uint256 indexed id)",
+  "event FunctionExecuted(uint256 indexed id)",
+  "event FunctionAccessGranted(uint256 indexed id, address indexed account)",
+  "event FunctionSchemaSet(uint256 indexed id, bytes32 schemaHash)",
+  "event ExecutionStatsRevealed(string indexed fnName, uint32 count, uint256 blockNumber)",
+  "event ProgramRegistered(uint256 indexed programId, address indexed owner, string name)",
+  "event ProgramExecuted(uint256 indexed executionId, uint256 indexed programId, uint256 indexed functionId)",
+  "event ExecutionDecryptionRequested(uint256 indexed executionId, uint256 indexed requestId)",
+  "event ExecutionResultRevealed(uint256 indexed executionId, uint32 result)",
+  "event Deposited(address indexed account, uint256 amount)",
+  "event Withdrawn(address indexed account, uint256 amount)",
+  "event Charged(address indexed account, uint8 indexed kind, uint256 indexed ref, uint256 amount)",
+  "event EscrowReleased(uint256 indexed requestId, address indexed payer, uint256 amount)",
+  "event EscrowRefunded(uint256 indexed requestId, address indexed payer, uint256 amount)",
+  "event PricesUpdated(uint256 submissionPrice, uint256 decryptionPricePerHandle, uint256 decryptionTimeout)",
+  "event OpPriceUpdated(uint8 indexed op, uint256 price)",
+  "event FeesWithdrawn(address indexed to, uint256 amount)",
+  "event ReviewerUpdated(address indexed account, bool enabled)",
+  "event FunctionStatusChanged(uint256 indexed id, uint8 from, uint8 to, address indexed actor, string reason)",
+  // Emitted by FHE.checkSignatures once an oracle callback is accepted.
+  "event DecryptionFulfilled(uint256 indexed requestID)",
+  // Reverts of FHE.checkSignatures and FHE.requestDecryption.
+  "error HandlesAlreadySavedForRequestID()",
+  "error InvalidKMSSignatures()",
+  "error NoHandleFoundForRequestID()",
+] as const;
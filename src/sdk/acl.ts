@@ -0,0 +1,34 @@
+import { BytesLike, Contract, ContractRunner } from "ethers";
+
+// Subset of IACL (@fhevm/solidity/lib/Impl.sol) used by the SDK.
+export const ACL_ABI = [
+  "function isAllowed(bytes32 handle, address account) view returns (bool)",
+  "function isAllowedForDecryption(bytes32 handle) view returns (bool)",
+  "function allow(bytes32 handle, address account)",
+] as const;
+
+/**
+ * Read access to the fhevm ACL. The ACL address differs per network (the
+ * hardhat mock deploys its own), use `FheServerlessClient.acl()` to get the
+ * one the framework is configured with. Grants on framework functions go
+ * through `FheServerlessClient.grantAccess`, which calls `IACL.allow` from
+ * the framework contract.
+ */
+export class AclClient {
+  readonly contract: Contract;
+
+  constructor(
+    readonly address: string,
+    runner: ContractRunner,
+  ) {
+    this.contract = new Contract(address, ACL_ABI, runner);
+  }
+
+  async isAllowed(handle: BytesLike, account: string): Promise<boolean> {
+    return this.contract.isAllowed(handle, account);
+  }
+
+  async isAllowedForDecryption(handle: BytesLike): Promise<boolean> {
+    return this.contract.isAllowedForDecryption(handle);
+  }
+}
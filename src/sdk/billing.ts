@@ -0,0 +1,260 @@
+import type { Log, LogDescription } from "ethers";
+
+import type { TransactionInfo } from "./types";
+
+/** What a `Charged` event paid for. Mirrors `FheServerlessFramework.ChargeKind`. */
+export enum ChargeKind {
+  Submission,
+  Decryption,
+  StatsDecryption,
+  ProgramExecution,
+  ExecutionDecryption,
+}
+
+export type ChargeKindName = keyof typeof ChargeKind;
+
+export interface BillingLogInfo extends TransactionInfo {
+  logIndex: number;
+}
+
+export type BillingEvent = BillingLogInfo &
+  (
+    | { type: "Deposited"; account: string; amount: bigint }
+    | { type: "Withdrawn"; account: string; amount: bigint }
+    | {
+        type: "Charged";
+        account: string;
+        kind: ChargeKind;
+        /** Function id, execution id, or decryption request id depending on `kind`. */
+        ref: bigint;
+        amount: bigint;
+      }
+    | {
+        type: "EscrowReleased";
+        requestId: bigint;
+        payer: string;
+        amount: bigint;
+      }
+    | {
+        type: "EscrowRefunded";
+        requestId: bigint;
+        payer: string;
+        amount: bigint;
+      }
+    | { type: "FeesWithdrawn"; to: string; amount: bigint }
+  );
+
+export interface AccountBilling {
+  account: string;
+  deposited: bigint;
+  withdrawn: bigint;
+  /** Gross charges per kind, including decryptions that were later refunded. */
+  charged: Record<ChargeKindName, bigint>;
+  refunded: bigint;
+  /** Decryption charges still waiting for the oracle callback or a refund. */
+  inEscrow: bigint;
+  /** Charges that became platform fees: gross charges minus refunds and open escrow. */
+  spent: bigint;
+  /** Matches the on-chain `balances(account)` when replayed from the deployment block. */
+  balance: bigint;
+}
+
+export interface BillingReport {
+  accounts: AccountBilling[];
+  /** Fees earned over the replayed range, before withdrawals. */
+  fees: bigint;
+  feesWithdrawn: bigint;
+}
+
+const BILLING_EVENTS = new Set([
+  "Deposited",
+  "Withdrawn",
+  "Charged",
+  "EscrowReleased",
+  "EscrowRefunded",
+  "FeesWithdrawn",
+]);
+
+const ESCROWED_KINDS = new Set([
+  ChargeKind.Decryption,
+  ChargeKind.StatsDecryption,
+  ChargeKind.ExecutionDecryption,
+]);
+
+/** Maps a parsed framework log to a billing event, or null for other events. */
+export function decodeBillingEvent(
+  description: LogDescription,
+  log: Log,
+): BillingEvent | null {
+  if (!BILLING_EVENTS.has(description.name)) {
+    return null;
+  }
+  const info: BillingLogInfo = {
+    transactionHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+  };
+  const args = description.args;
+  switch (description.name) {
+    case "Deposited":
+    case "Withdrawn":
+      return {
+        ...info,
+        type: description.name,
+        account: args.account,
+        amount: args.amount,
+      };
+    case "Charged":
+      return {
+        ...info,
+        type: "Charged",
+        account: args.account,
+        kind: Number(args.kind) as ChargeKind,
+        ref: args.ref,
+        amount: args.amount,
+      };
+    case "EscrowReleased":
+    case "EscrowRefunded":
+      return {
+        ...info,
+        type: description.name,
+        requestId: args.requestId,
+        payer: args.payer,
+        amount: args.amount,
+      };
+    default:
+      return {
+        ...info,
+        type: "FeesWithdrawn",
+        to: args.to,
+        amount: args.amount,
+      };
+  }
+}
+
+/**
+ * Replays billing events in chain order and returns each account's spend.
+ * Events before the replayed range are not known, so balances and escrow are
+ * only exact when replaying from the deployment block.
+ */
+export function reconstructBilling(events: BillingEvent[]): BillingReport {
+  const ordered = [...events].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+  );
+  const accounts = new Map<string, AccountBilling>();
+  const openEscrow = new Map<bigint, { payer: string; amount: bigint }>();
+  let fees = 0n;
+  let feesWithdrawn = 0n;
+
+  const account = (address: string) => {
+    const key = address.toLowerCase();
+    let entry = accounts.get(key);
+    if (!entry) {
+      entry = {
+        account: address,
+        deposited: 0n,
+        withdrawn: 0n,
+        charged: {
+          Submission: 0n,
+          Decryption: 0n,
+          StatsDecryption: 0n,
+          ProgramExecution: 0n,
+          ExecutionDecryption: 0n,
+        },
+        refunded: 0n,
+        inEscrow: 0n,
+        spent: 0n,
+        balance: 0n,
+      };
+      accounts.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const event of ordered) {
+    switch (event.type) {
+      case "Deposited":
+        account(event.account).deposited += event.amount;
+        break;
+      case "Withdrawn":
+        account(event.account).withdrawn += event.amount;
+        break;
+      case "Charged": {
+        const entry = account(event.account);
+        entry.charged[ChargeKind[event.kind] as ChargeKindName] += event.amount;
+        if (ESCROWED_KINDS.has(event.kind) && event.amount > 0n) {
+          openEscrow.set(event.ref, {
+            payer: event.account,
+            amount: event.amount,
+          });
+          entry.inEscrow += event.amount;
+        } else {
+          entry.spent += event.amount;
+          fees += event.amount;
+        }
+        break;
+      }
+      case "EscrowReleased":
+      case "EscrowRefunded": {
+        const entry = account(event.payer);
+        // Escrow opened before the replayed range was never counted in.
+        if (openEscrow.delete(event.requestId)) {
+          entry.inEscrow -= event.amount;
+        }
+        if (event.type === "EscrowReleased") {
+          entry.spent += event.amount;
+          fees += event.amount;
+        } else {
+          entry.refunded += event.amount;
+        }
+        break;
+      }
+      case "FeesWithdrawn":
+        feesWithdrawn += event.amount;
+        break;
+    }
+  }
+
+  for (const entry of accounts.values()) {
+    const charged = Object.values(entry.charged).reduce((a, b) => a + b, 0n);
+    entry.balance =
+      entry.deposited + entry.refunded - entry.withdrawn - charged;
+  }
+
+  return { accounts: [...accounts.values()], fees, feesWithdrawn };
+}
+
+/** One CSV row per account, amounts in wei. */
+export function formatBillingCsv(report: BillingReport): string {
+  const header = [
+    "account",
+    "deposited",
+    "withdrawn",
+    "submission",
+    "decryption",
+    "stats_decryption",
+    "program_execution",
+    "execution_decryption",
+    "refunded",
+    "in_escrow",
+    "spent",
+    "balance",
+  ];
+  const rows = report.accounts.map((entry) =>
+    [
+      entry.account,
+      entry.deposited,
+      entry.withdrawn,
+      entry.charged.Submission,
+      entry.charged.Decryption,
+      entry.charged.StatsDecryption,
+      entry.charged.ProgramExecution,
+      entry.charged.ExecutionDecryption,
+      entry.refunded,
+      entry.inEscrow,
+      entry.spent,
+      entry.balance,
+    ].join(","),
+  );
+  return [header.join(","), ...rows].join("\n");
+}
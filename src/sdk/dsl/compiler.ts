@@ -0,0 +1,822 @@
+import {
+  INPUT_REGISTER,
+  Instruction,
+  MAX_PROGRAM_LENGTH,
+  Op,
+  PARAMETERS_REGISTER,
+} from "../programs";
+import { DslCompileError, Span, locate } from "./errors";
+import { BinaryOperator, Expression, parse } from "./parser";
+
+/**
+ * Encrypted values live in registers; plaintext literals are folded at
+ * compile time and only become ciphertexts when an operation needs them to.
+ */
+type Value =
+  | { type: "euint32"; register: number }
+  | { type: "ebool"; register: number }
+  | { type: "uint32"; value: number }
+  | { type: "bool"; value: boolean };
+
+export interface CompileReport {
+  instructionCount: number;
+  maxInstructions: number;
+  /** Instructions per program opcode. */
+  ops: Partial<Record<keyof typeof Op, number>>;
+  /** Calls the program makes on IFHEVMExecutor (`fheAdd`, `fheIfThenElse`, ...). */
+  executorCalls: Record<string, number>;
+  warnings: string[];
+}
+
+export interface CompileOptions {
+  /** Names of the encrypted inputs, by index. */
+  inputs?: string[];
+}
+
+export interface CompiledProgram {
+  instructions: Instruction[];
+  report: CompileReport;
+}
+
+const UINT32_MAX = 0xffffffff;
+
+const INPUT_NAMES = ["x", "input"];
+const PARAMETER_NAMES = ["p", "params", "parameters"];
+const FUNCTIONS: Record<string, number> = {
+  min: 2,
+  max: 2,
+  rotl: 2,
+  rotr: 2,
+  select: 3,
+  uint: 1,
+};
+
+const EXECUTOR_CALLS: Record<Op, string> = {
+  [Op.Const]: "trivialEncrypt",
+  [Op.Add]: "fheAdd",
+  [Op.Sub]: "fheSub",
+  [Op.Mul]: "fheMul",
+  [Op.Div]: "fheDiv",
+  [Op.Rem]: "fheRem",
+  [Op.Min]: "fheMin",
+  [Op.Max]: "fheMax",
+  [Op.Eq]: "fheEq",
+  [Op.Ne]: "fheNe",
+  [Op.Lt]: "fheLt",
+  [Op.Le]: "fheLe",
+  [Op.Gt]: "fheGt",
+  [Op.Ge]: "fheGe",
+  [Op.And]: "fheBitAnd",
+  [Op.Or]: "fheBitOr",
+  [Op.Xor]: "fheBitXor",
+  [Op.Not]: "fheNot",
+  [Op.Neg]: "fheNeg",
+  [Op.Shl]: "fheShl",
+  [Op.Shr]: "fheShr",
+  [Op.Rotl]: "fheRotl",
+  [Op.Rotr]: "fheRotr",
+  [Op.Select]: "fheIfThenElse",
+  [Op.Cast]: "cast",
+  [Op.Arg]: "verifyCiphertext",
+};
+
+const SHIFTS = [Op.Shl, Op.Shr, Op.Rotl, Op.Rotr];
+
+// Instructions reading no register, only their immediate.
+const IMMEDIATE_ONLY = [Op.Const, Op.Arg];
+
+// `3 < x` is compiled as `x > 3`, since only the right operand can be plaintext.
+const FLIPPED: Partial<Record<Op, Op>> = {
+  [Op.Lt]: Op.Gt,
+  [Op.Le]: Op.Ge,
+  [Op.Gt]: Op.Lt,
+  [Op.Ge]: Op.Le,
+};
+
+const BINARY_OPS: Partial<Record<BinaryOperator, Op>> = {
+  "+": Op.Add,
+  "-": Op.Sub,
+  "*": Op.Mul,
+  "/": Op.Div,
+  "%": Op.Rem,
+  "<<": Op.Shl,
+  ">>": Op.Shr,
+  "<": Op.Lt,
+  "<=": Op.Le,
+  ">": Op.Gt,
+  ">=": Op.Ge,
+  "&": Op.And,
+  "|": Op.Or,
+  "^": Op.Xor,
+  "&&": Op.And,
+  "||": Op.Or,
+};
+
+/**
+ * Compiles an expression such as `(x * 3 + p) > 100 ? x : 0` into program
+ * instructions for `FheServerlessFramework.registerProgram`.
+ *
+ * `x` (or `input`) is the function's encrypted input and `p` (or `params`)
+ * its encrypted parameters, both euint32. Comparisons and `&&`, `||`, `!`
+ * produce ebool values; an ebool result is returned as 0 or 1. Expressions
+ * can be preceded by `let name = expr;` bindings.
+ *
+ * `options.inputs` names the encrypted inputs of `executeProgramWithInputs`,
+ * in order; each name reads the euint32 input at its index.
+ *
+ * @throws DslCompileError on syntax and type errors.
+ */
+export function compileExpression(
+  source: string,
+  options: CompileOptions = {},
+): CompiledProgram {
+  return new Compiler(source, options.inputs ?? []).compile();
+}
+
+export function formatReport(report: CompileReport): string {
+  const lines = [
+    `${report.instructionCount} of ${report.maxInstructions} instructions`,
+  ];
+  for (const [op, count] of Object.entries(report.ops)) {
+    lines.push(`  ${op.padEnd(8)} ${count}`);
+  }
+  const calls = Object.entries(report.executorCalls)
+    .map(([name, count]) => `${name} x${count}`)
+    .join(", ");
+  lines.push(`IFHEVMExecutor calls: ${calls || "none"}`);
+  for (const warning of report.warnings) {
+    lines.push(`warning: ${warning}`);
+  }
+  return lines.join("\n");
+}
+
+class Compiler {
+  private readonly instructions: Instruction[] = [];
+  private readonly types: ("euint32" | "ebool")[] = [];
+  private readonly emitted = new Map<string, number>();
+  private readonly scope = new Map<string, { value: Value; used: boolean }>();
+  private readonly warnings: string[] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly inputs: string[],
+  ) {}
+
+  compile(): CompiledProgram {
+    const program = parse(this.source);
+
+    // Input names come from the caller, not the source, so they are not
+    // reported as DslCompileError.
+    this.inputs.forEach((name, index) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Input name '${name}' is not an identifier`);
+      }
+      if (this.isBuiltIn(name) || this.inputs.indexOf(name) !== index) {
+        throw new Error(`Input name '${name}' is already defined`);
+      }
+    });
+
+    for (const binding of program.bindings) {
+      if (this.isBuiltIn(binding.name)) {
+        this.fail(`'${binding.name}' is a built-in name`, binding.span);
+      }
+      if (this.inputs.includes(binding.name)) {
+        this.fail(`'${binding.name}' is an input name`, binding.span);
+      }
+      if (this.scope.has(binding.name)) {
+        this.fail(`'${binding.name}' is already defined`, binding.span);
+      }
+      this.scope.set(binding.name, {
+        value: this.expression(binding.value),
+        used: false,
+      });
+    }
+
+    const resultRegister = this.result(this.expression(program.result));
+
+    for (const [name, entry] of this.scope) {
+      if (!entry.used) {
+        this.warnings.push(`'${name}' is never used`);
+      }
+    }
+
+    const instructions = this.eliminateDeadCode(resultRegister);
+    if (instructions.length > MAX_PROGRAM_LENGTH) {
+      this.fail(
+        `program needs ${instructions.length} instructions, the contract allows ${MAX_PROGRAM_LENGTH}`,
+        program.result.span,
+      );
+    }
+    return { instructions, report: this.report(instructions) };
+  }
+
+  private expression(node: Expression): Value {
+    switch (node.kind) {
+      case "number":
+        if (node.value > BigInt(UINT32_MAX)) {
+          this.fail(
+            `literal ${node.value} does not fit in uint32 (max ${UINT32_MAX})`,
+            node.span,
+          );
+        }
+        return { type: "uint32", value: Number(node.value) };
+      case "boolean":
+        return { type: "bool", value: node.value };
+      case "identifier":
+        return this.identifier(node.name, node.span);
+      case "unary":
+        return this.unary(node.operator, this.expression(node.operand), node);
+      case "binary":
+        return this.binary(
+          node.operator,
+          this.expression(node.left),
+          this.expression(node.right),
+          node.left.span,
+          node.right.span,
+        );
+      case "conditional":
+        return this.select(
+          this.expression(node.test),
+          this.expression(node.consequent),
+          this.expression(node.alternate),
+          node.test.span,
+          node.span,
+        );
+      case "call":
+        return this.call(node);
+    }
+  }
+
+  private isBuiltIn(name: string): boolean {
+    return (
+      INPUT_NAMES.includes(name) ||
+      PARAMETER_NAMES.includes(name) ||
+      name in FUNCTIONS ||
+      name === "true" ||
+      name === "false"
+    );
+  }
+
+  private identifier(name: string, span: Span): Value {
+    if (INPUT_NAMES.includes(name)) {
+      return { type: "euint32", register: INPUT_REGISTER };
+    }
+    if (PARAMETER_NAMES.includes(name)) {
+      return { type: "euint32", register: PARAMETERS_REGISTER };
+    }
+    if (this.inputs.includes(name)) {
+      return this.emit(Op.Arg, 0, 0, 0, this.inputs.indexOf(name));
+    }
+    const entry = this.scope.get(name);
+    if (!entry) {
+      const known = [
+        ...INPUT_NAMES,
+        ...PARAMETER_NAMES,
+        ...this.inputs,
+        ...this.scope.keys(),
+      ];
+      this.fail(
+        `unknown name '${name}', expected one of ${known.join(", ")}`,
+        span,
+      );
+    }
+    entry.used = true;
+    return entry.value;
+  }
+
+  private unary(
+    operator: string,
+    operand: Value,
+    node: Expression & { kind: "unary" },
+  ): Value {
+    if (operator === "!") {
+      this.expectBool(operand, `operator '!'`, node.operand.span);
+      return this.not(operand);
+    }
+    this.expectUint(operand, `operator '${operator}'`, node.operand.span);
+    if (operand.type === "uint32") {
+      return {
+        type: "uint32",
+        value:
+          operator === "-"
+            ? (2 ** 32 - operand.value) % 2 ** 32
+            : ~operand.value >>> 0,
+      };
+    }
+    return this.emit(operator === "-" ? Op.Neg : Op.Not, registerOf(operand));
+  }
+
+  private binary(
+    operator: BinaryOperator,
+    left: Value,
+    right: Value,
+    leftSpan: Span,
+    rightSpan: Span,
+  ): Value {
+    const context = `operator '${operator}'`;
+    const span = { start: leftSpan.start, end: rightSpan.end };
+
+    if (operator === "==" || operator === "!=") {
+      return this.equality(operator, left, right, leftSpan, rightSpan);
+    }
+    if (operator === "&&" || operator === "||") {
+      this.expectBool(left, context, leftSpan);
+      this.expectBool(right, context, rightSpan);
+      return this.bitwise(BINARY_OPS[operator]!, left, right);
+    }
+    if (operator === "&" || operator === "|" || operator === "^") {
+      if (isBool(left) !== isBool(right)) {
+        this.fail(
+          `${context} expects operands of the same type, got ${typeName(left)} and ${typeName(right)}`,
+          span,
+        );
+      }
+      return this.bitwise(BINARY_OPS[operator]!, left, right);
+    }
+
+    this.expectUint(left, context, leftSpan);
+    this.expectUint(right, context, rightSpan);
+    const op = BINARY_OPS[operator]!;
+
+    if (op === Op.Div || op === Op.Rem) {
+      if (right.type !== "uint32") {
+        this.fail(
+          `${context} needs a constant divisor, dividing by an encrypted value is not supported`,
+          rightSpan,
+        );
+      }
+      if (right.value === 0) {
+        this.fail("division by zero", rightSpan);
+      }
+    }
+    if (op === Op.Shl || op === Op.Shr) {
+      return this.shift(op, left, right, rightSpan);
+    }
+    return this.arithmetic(op, left, right);
+  }
+
+  private call(node: Expression & { kind: "call" }): Value {
+    const arity = FUNCTIONS[node.callee];
+    if (arity === undefined) {
+      this.fail(
+        `unknown function '${node.callee}', expected one of ${Object.keys(FUNCTIONS).join(", ")}`,
+        node.span,
+      );
+    }
+    if (node.args.length !== arity) {
+      this.fail(
+        `${node.callee}() expects ${arity} argument${arity === 1 ? "" : "s"}, got ${node.args.length}`,
+        node.span,
+      );
+    }
+
+    const args = node.args.map((arg) => this.expression(arg));
+    const spans = node.args.map((arg) => arg.span);
+    const context = `${node.callee}()`;
+
+    switch (node.callee) {
+      case "select":
+        return this.select(args[0], args[1], args[2], spans[0], node.span);
+      case "uint": {
+        const [value] = args;
+        if (value.type === "bool") {
+          return { type: "uint32", value: value.value ? 1 : 0 };
+        }
+        return value.type === "ebool"
+          ? this.emit(Op.Cast, value.register)
+          : value;
+      }
+      case "rotl":
+      case "rotr":
+        this.expectUint(args[0], context, spans[0]);
+        this.expectUint(args[1], context, spans[1]);
+        return this.shift(
+          node.callee === "rotl" ? Op.Rotl : Op.Rotr,
+          args[0],
+          args[1],
+          spans[1],
+        );
+      default:
+        this.expectUint(args[0], context, spans[0]);
+        this.expectUint(args[1], context, spans[1]);
+        return this.arithmetic(
+          node.callee === "min" ? Op.Min : Op.Max,
+          args[0],
+          args[1],
+        );
+    }
+  }
+
+  private arithmetic(op: Op, left: Value, right: Value): Value {
+    if (left.type === "uint32" && right.type === "uint32") {
+      return fold(op, left.value, right.value);
+    }
+    if (left.type === "uint32") {
+      if (op in FLIPPED || isCommutative(op)) {
+        return this.arithmetic(FLIPPED[op] ?? op, right, left);
+      }
+      left = this.materialize(left);
+    }
+    return this.apply(op, registerOf(left), right);
+  }
+
+  private shift(op: Op, value: Value, amount: Value, amountSpan: Span): Value {
+    if (amount.type === "uint32") {
+      if (amount.value > 0xff) {
+        this.fail(
+          `shift amount ${amount.value} does not fit in 8 bits (max 255)`,
+          amountSpan,
+        );
+      }
+      if (value.type === "uint32") {
+        return fold(op, value.value, amount.value);
+      }
+    } else {
+      const { line, column } = locate(this.source, amountSpan.start);
+      this.warnings.push(
+        `encrypted shift amount at line ${line}, column ${column} is truncated to euint8`,
+      );
+    }
+    return this.apply(op, registerOf(this.materialize(value)), amount);
+  }
+
+  private equality(
+    operator: "==" | "!=",
+    left: Value,
+    right: Value,
+    leftSpan: Span,
+    rightSpan: Span,
+  ): Value {
+    if (isBool(left) !== isBool(right)) {
+      this.fail(
+        `operator '${operator}' expects operands of the same type, got ${typeName(left)} and ${typeName(right)}`,
+        { start: leftSpan.start, end: rightSpan.end },
+      );
+    }
+    if (!isBool(left)) {
+      return this.arithmetic(operator === "==" ? Op.Eq : Op.Ne, left, right);
+    }
+    // ebool has no comparison: a == b is !(a ^ b).
+    const different = this.bitwise(Op.Xor, left, right);
+    return operator === "!=" ? different : this.not(different);
+  }
+
+  private bitwise(op: Op, left: Value, right: Value): Value {
+    if (!isBool(left)) {
+      return this.arithmetic(op, left, right);
+    }
+    if (left.type === "bool" && right.type === "bool") {
+      const value =
+        op === Op.And
+          ? left.value && right.value
+          : op === Op.Or
+            ? left.value || right.value
+            : left.value !== right.value;
+      return { type: "bool", value };
+    }
+    if (left.type === "bool") {
+      [left, right] = [right, left];
+    }
+    if (right.type === "bool") {
+      if (op === Op.And) return right.value ? left : right;
+      if (op === Op.Or) return right.value ? right : left;
+      return right.value ? this.not(left) : left;
+    }
+    return this.emit(op, registerOf(left), registerOf(right));
+  }
+
+  private select(
+    test: Value,
+    ifTrue: Value,
+    ifFalse: Value,
+    testSpan: Span,
+    span: Span,
+  ): Value {
+    if (!isBool(test)) {
+      this.fail(
+        `condition must be an ebool, got ${typeName(test)} (compare it, e.g. 'x != 0')`,
+        testSpan,
+      );
+    }
+    if (isBool(ifTrue) !== isBool(ifFalse)) {
+      this.fail(
+        `both branches must have the same type, got ${typeName(ifTrue)} and ${typeName(ifFalse)}`,
+        span,
+      );
+    }
+    if (test.type === "bool") {
+      return test.value ? ifTrue : ifFalse;
+    }
+    if (sameValue(ifTrue, ifFalse)) {
+      return ifTrue;
+    }
+
+    if (isBool(ifTrue)) {
+      // Boolean branches reduce to logic on the condition.
+      if (ifTrue.type === "bool" && ifFalse.type === "bool") {
+        return ifTrue.value ? test : this.not(test);
+      }
+      if (ifTrue.type === "bool") {
+        return ifTrue.value
+          ? this.bitwise(Op.Or, test, ifFalse)
+          : this.bitwise(Op.And, this.not(test), ifFalse);
+      }
+      if (ifFalse.type === "bool") {
+        return ifFalse.value
+          ? this.bitwise(Op.Or, this.not(test), ifTrue)
+          : this.bitwise(Op.And, test, ifTrue);
+      }
+    }
+    return this.emit(
+      Op.Select,
+      test.register,
+      registerOf(this.materialize(ifTrue)),
+      registerOf(this.materialize(ifFalse)),
+    );
+  }
+
+  private not(value: Value): Value {
+    if (value.type === "bool") {
+      return { type: "bool", value: !value.value };
+    }
+    return this.emit(Op.Not, registerOf(value));
+  }
+
+  /** Encrypts a plaintext uint32 so it can be used as a register operand. */
+  private materialize(value: Value): Value {
+    if (value.type === "uint32") {
+      return this.emit(Op.Const, 0, 0, 0, value.value);
+    }
+    if (value.type === "bool") {
+      return this.emit(
+        Op.Ne,
+        registerOf(this.emit(Op.Const, 0, 0, 0, value.value ? 1 : 0)),
+        0,
+        0,
+        0,
+      );
+    }
+    return value;
+  }
+
+  private apply(op: Op, register: number, right: Value): Value {
+    if (right.type === "uint32") {
+      return this.emit(op, register, 0, 0, right.value);
+    }
+    return this.emit(op, register, registerOf(right));
+  }
+
+  /** Returns the register holding the program result, which must be euint32. */
+  private result(value: Value): number {
+    if (value.type === "euint32") {
+      if (value.register > PARAMETERS_REGISTER) {
+        return value.register;
+      }
+      // The result is the last instruction, so copy a bare input through.
+      return registerOf(this.emit(Op.Add, value.register, 0, 0, 0));
+    }
+    if (value.type === "ebool") {
+      return registerOf(this.emit(Op.Cast, value.register));
+    }
+    const constantValue =
+      value.type === "bool" ? (value.value ? 1 : 0) : value.value;
+    return registerOf(this.emit(Op.Const, 0, 0, 0, constantValue));
+  }
+
+  /**
+   * Appends an instruction, reusing an identical earlier one. Passing `imm`
+   * makes it a scalar instruction (except for Const and Arg, which only use
+   * imm).
+   */
+  private emit(op: Op, a: number, b = 0, c = 0, imm?: number): Value {
+    const instruction: Instruction = {
+      op,
+      a,
+      b,
+      c,
+      scalar: imm !== undefined && !IMMEDIATE_ONLY.includes(op),
+      imm: imm ?? 0,
+    };
+    const key = JSON.stringify(instruction);
+    let register = this.emitted.get(key);
+    if (register === undefined) {
+      this.instructions.push(instruction);
+      this.types.push(this.resultType(op, a, b));
+      register = this.instructions.length + PARAMETERS_REGISTER;
+      this.emitted.set(key, register);
+    }
+    return this.typeOf(register) === "ebool"
+      ? { type: "ebool", register }
+      : { type: "euint32", register };
+  }
+
+  private typeOf(register: number): "euint32" | "ebool" {
+    return register <= PARAMETERS_REGISTER
+      ? "euint32"
+      : this.types[register - PARAMETERS_REGISTER - 1];
+  }
+
+  private resultType(op: Op, a: number, b: number): "euint32" | "ebool" {
+    switch (op) {
+      case Op.Eq:
+      case Op.Ne:
+      case Op.Lt:
+      case Op.Le:
+      case Op.Gt:
+      case Op.Ge:
+        return "ebool";
+      case Op.Select:
+        return this.typeOf(b);
+      case Op.And:
+      case Op.Or:
+      case Op.Xor:
+      case Op.Not:
+        return this.typeOf(a);
+      default:
+        return "euint32";
+    }
+  }
+
+  /** Drops instructions the result does not depend on and renumbers registers. */
+  private eliminateDeadCode(resultRegister: number): Instruction[] {
+    const offset = PARAMETERS_REGISTER + 1;
+    const live = new Set([resultRegister]);
+    for (let i = this.instructions.length - 1; i >= 0; i--) {
+      if (live.has(i + offset)) {
+        operands(this.instructions[i]).forEach((r) => live.add(r));
+      }
+    }
+
+    const renumbered = new Map<number, number>([
+      [INPUT_REGISTER, INPUT_REGISTER],
+      [PARAMETERS_REGISTER, PARAMETERS_REGISTER],
+    ]);
+    const kept: Instruction[] = [];
+    this.instructions.forEach((instruction, i) => {
+      if (!live.has(i + offset)) {
+        return;
+      }
+      const remap = (r: number) => renumbered.get(r)!;
+      const copy = { ...instruction };
+      if (!IMMEDIATE_ONLY.includes(copy.op)) copy.a = remap(copy.a);
+      if (!copy.scalar && usesB(copy.op)) copy.b = remap(copy.b);
+      if (copy.op === Op.Select) copy.c = remap(copy.c);
+      kept.push(copy);
+      renumbered.set(i + offset, kept.length + PARAMETERS_REGISTER);
+    });
+    return kept;
+  }
+
+  private report(instructions: Instruction[]): CompileReport {
+    const ops: CompileReport["ops"] = {};
+    const executorCalls: Record<string, number> = {};
+    const count = (name: string) =>
+      (executorCalls[name] = (executorCalls[name] ?? 0) + 1);
+
+    for (const instruction of instructions) {
+      const name = Op[instruction.op] as keyof typeof Op;
+      ops[name] = (ops[name] ?? 0) + 1;
+      count(EXECUTOR_CALLS[instruction.op]);
+      if (SHIFTS.includes(instruction.op) && !instruction.scalar) {
+        // The encrypted shift amount is first cast to euint8.
+        count("cast");
+      }
+    }
+    return {
+      instructionCount: instructions.length,
+      maxInstructions: MAX_PROGRAM_LENGTH,
+      ops,
+      executorCalls,
+      warnings: this.warnings,
+    };
+  }
+
+  private expectUint(value: Value, context: string, span: Span) {
+    if (isBool(value)) {
+      this.fail(
+        `${context} expects euint32 operands, got ${typeName(value)}`,
+        span,
+      );
+    }
+  }
+
+  private expectBool(value: Value, context: string, span: Span) {
+    if (!isBool(value)) {
+      this.fail(
+        `${context} expects ebool operands, got ${typeName(value)} (compare it, e.g. 'x != 0')`,
+        span,
+      );
+    }
+  }
+
+  private fail(reason: string, span: Span): never {
+    throw new DslCompileError(reason, this.source, span);
+  }
+}
+
+function fold(op: Op, a: number, b: number): Value {
+  const wrap = (n: bigint) => Number(BigInt.asUintN(32, n));
+  const shift = b % 32;
+  switch (op) {
+    case Op.Add:
+      return { type: "uint32", value: wrap(BigInt(a) + BigInt(b)) };
+    case Op.Sub:
+      return { type: "uint32", value: wrap(BigInt(a) - BigInt(b)) };
+    case Op.Mul:
+      return { type: "uint32", value: wrap(BigInt(a) * BigInt(b)) };
+    case Op.Div:
+      return { type: "uint32", value: Math.floor(a / b) };
+    case Op.Rem:
+      return { type: "uint32", value: a % b };
+    case Op.Min:
+      return { type: "uint32", value: Math.min(a, b) };
+    case Op.Max:
+      return { type: "uint32", value: Math.max(a, b) };
+    case Op.And:
+      return { type: "uint32", value: (a & b) >>> 0 };
+    case Op.Or:
+      return { type: "uint32", value: (a | b) >>> 0 };
+    case Op.Xor:
+      return { type: "uint32", value: (a ^ b) >>> 0 };
+    case Op.Shl:
+      return { type: "uint32", value: (a << shift) >>> 0 };
+    case Op.Shr:
+      return { type: "uint32", value: a >>> shift };
+    case Op.Rotl:
+      return {
+        type: "uint32",
+        value: ((a << shift) | (a >>> (32 - shift))) >>> 0,
+      };
+    case Op.Rotr:
+      return {
+        type: "uint32",
+        value: ((a >>> shift) | (a << (32 - shift))) >>> 0,
+      };
+    case Op.Eq:
+      return { type: "bool", value: a === b };
+    case Op.Ne:
+      return { type: "bool", value: a !== b };
+    case Op.Lt:
+      return { type: "bool", value: a < b };
+    case Op.Le:
+      return { type: "bool", value: a <= b };
+    case Op.Gt:
+      return { type: "bool", value: a > b };
+    case Op.Ge:
+      return { type: "bool", value: a >= b };
+    default:
+      throw new Error(`Cannot fold ${Op[op]}`);
+  }
+}
+
+function isCommutative(op: Op): boolean {
+  return [
+    Op.Add,
+    Op.Mul,
+    Op.Min,
+    Op.Max,
+    Op.Eq,
+    Op.Ne,
+    Op.And,
+    Op.Or,
+    Op.Xor,
+  ].includes(op);
+}
+
+function isBool(
+  value: Value,
+): value is Extract<Value, { type: "ebool" | "bool" }> {
+  return value.type === "ebool" || value.type === "bool";
+}
+
+function typeName(value: Value): string {
+  if (value.type === "uint32") return "a uint32 constant";
+  if (value.type === "bool") return "a bool constant";
+  return value.type;
+}
+
+function sameValue(a: Value, b: Value): boolean {
+  if ("register" in a && "register" in b) return a.register === b.register;
+  if ("value" in a && "value" in b) return a.value === b.value;
+  return false;
+}
+
+function registerOf(value: Value): number {
+  if (!("register" in value)) {
+    throw new Error(`Expected an encrypted value, got ${typeName(value)}`);
+  }
+  return value.register;
+}
+
+function usesB(op: Op): boolean {
+  return ![...IMMEDIATE_ONLY, Op.Not, Op.Neg, Op.Cast].includes(op);
+}
+
+function operands(instruction: Instruction): number[] {
+  if (IMMEDIATE_ONLY.includes(instruction.op)) return [];
+  const registers = [instruction.a];
+  if (!instruction.scalar && usesB(instruction.op))
+    registers.push(instruction.b);
+  if (instruction.op === Op.Select) registers.push(instruction.c);
+  return registers;
+}
@@ -0,0 +1,46 @@
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Compile error pointing at the offending part of the expression. `message`
+ * includes the source line with the span underlined; `reason` is the bare
+ * description.
+ */
+export class DslCompileError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(
+    readonly reason: string,
+    readonly source: string,
+    readonly span: Span,
+  ) {
+    const { line, column, text } = locate(source, span.start);
+    const width = Math.max(
+      1,
+      Math.min(span.end, span.start + text.length - column + 1) - span.start,
+    );
+    super(
+      `${reason} (line ${line}, column ${column})\n` +
+        `  ${text}\n` +
+        `  ${" ".repeat(column - 1)}${"^".repeat(width)}`,
+    );
+    this.name = "DslCompileError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export function locate(source: string, offset: number) {
+  const before = source.slice(0, offset);
+  const line = before.split("\n").length;
+  const lineStart = before.lastIndexOf("\n") + 1;
+  const lineEnd = source.indexOf("\n", lineStart);
+  const text = source.slice(
+    lineStart,
+    lineEnd === -1 ? source.length : lineEnd,
+  );
+  return { line, column: offset - lineStart + 1, text };
+}
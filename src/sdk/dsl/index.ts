@@ -0,0 +1,10 @@
+export { compileExpression, formatReport } from "./compiler";
+export type {
+  CompiledProgram,
+  CompileOptions,
+  CompileReport,
+} from "./compiler";
+export { DslCompileError } from "./errors";
+export type { Span } from "./errors";
+export { parse } from "./parser";
+export type { Expression, ProgramSource } from "./parser";
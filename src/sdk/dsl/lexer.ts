@@ -0,0 +1,108 @@
+import { DslCompileError, Span } from "./errors";
+
+export type TokenKind = "number" | "identifier" | "punctuator" | "eof";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  span: Span;
+}
+
+// Longest first, so `<<` is not read as two `<`.
+const PUNCTUATORS = [
+  "<<",
+  ">>",
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "&",
+  "|",
+  "^",
+  "!",
+  "~",
+  "?",
+  ":",
+  "(",
+  ")",
+  ",",
+  ";",
+  "=",
+];
+
+// Decimal or 0x-prefixed hex; `_` only separates digits, one at a time.
+const NUMBER_LITERAL = /^(0x[0-9a-fA-F]+(_[0-9a-fA-F]+)*|[0-9]+(_[0-9]+)*)$/;
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+    if (source.startsWith("//", pos)) {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+      continue;
+    }
+
+    const start = pos;
+    if (/[0-9]/.test(ch)) {
+      // The whole word is the literal, so `12ab` is one bad literal rather
+      // than a number followed by an identifier.
+      const text = /^[A-Za-z_0-9]+/.exec(source.slice(pos))![0];
+      pos += text.length;
+      if (!NUMBER_LITERAL.test(text)) {
+        throw new DslCompileError(`invalid number literal '${text}'`, source, {
+          start,
+          end: pos,
+        });
+      }
+      tokens.push({
+        kind: "number",
+        text,
+        span: { start, end: pos },
+      });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z_0-9]*/.exec(source.slice(pos))!;
+      pos += match[0].length;
+      tokens.push({
+        kind: "identifier",
+        text: match[0],
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, pos));
+    if (!punctuator) {
+      throw new DslCompileError(`unexpected character '${ch}'`, source, {
+        start,
+        end: start + 1,
+      });
+    }
+    pos += punctuator.length;
+    tokens.push({
+      kind: "punctuator",
+      text: punctuator,
+      span: { start, end: pos },
+    });
+  }
+
+  tokens.push({ kind: "eof", text: "", span: { start: pos, end: pos } });
+  return tokens;
+}
@@ -0,0 +1,274 @@
+import { DslCompileError, Span } from "./errors";
+import { Token, tokenize } from "./lexer";
+
+export type UnaryOperator = "-" | "!" | "~";
+
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "<<"
+  | ">>"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "=="
+  | "!="
+  | "&"
+  | "|"
+  | "^"
+  | "&&"
+  | "||";
+
+export type Expression =
+  | { kind: "number"; value: bigint; span: Span }
+  | { kind: "boolean"; value: boolean; span: Span }
+  | { kind: "identifier"; name: string; span: Span }
+  | {
+      kind: "unary";
+      operator: UnaryOperator;
+      operand: Expression;
+      span: Span;
+    }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+      span: Span;
+    }
+  | {
+      kind: "conditional";
+      test: Expression;
+      consequent: Expression;
+      alternate: Expression;
+      span: Span;
+    }
+  | { kind: "call"; callee: string; args: Expression[]; span: Span };
+
+export interface Binding {
+  name: string;
+  value: Expression;
+  span: Span;
+}
+
+/** `let name = expr;` bindings followed by the result expression. */
+export interface ProgramSource {
+  bindings: Binding[];
+  result: Expression;
+}
+
+// Binary operator precedence, loosest first, as in TypeScript.
+const PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["|"],
+  ["^"],
+  ["&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["<<", ">>"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+export function parse(source: string): ProgramSource {
+  return new Parser(source).parseProgram();
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private pos = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseProgram(): ProgramSource {
+    const bindings: Binding[] = [];
+    while (this.peek().kind === "identifier" && this.peek().text === "let") {
+      const start = this.next().span.start;
+      const name = this.expectIdentifier();
+      this.expect("=");
+      const value = this.parseExpression();
+      this.expect(";");
+      bindings.push({ name: name.text, value, span: this.span(start, name) });
+    }
+
+    if (this.peek().kind === "eof") {
+      this.fail(
+        bindings.length > 0
+          ? "expected a result expression after the let bindings"
+          : "expected an expression",
+      );
+    }
+    const result = this.parseExpression();
+    this.accept(";");
+    if (this.peek().kind !== "eof") {
+      this.fail(`unexpected '${this.peek().text}' after the result expression`);
+    }
+    return { bindings, result };
+  }
+
+  private parseExpression(): Expression {
+    const test = this.parseBinary(0);
+    if (!this.accept("?")) {
+      return test;
+    }
+    const consequent = this.parseExpression();
+    this.expect(":");
+    const alternate = this.parseExpression();
+    return {
+      kind: "conditional",
+      test,
+      consequent,
+      alternate,
+      span: { start: test.span.start, end: alternate.span.end },
+    };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level === PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = PRECEDENCE[level].find(
+        (op) => token.kind === "punctuator" && token.text === op,
+      );
+      if (!operator) {
+        return left;
+      }
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = {
+        kind: "binary",
+        operator,
+        left,
+        right,
+        span: { start: left.span.start, end: right.span.end },
+      };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (
+      token.kind === "punctuator" &&
+      (token.text === "-" || token.text === "!" || token.text === "~")
+    ) {
+      this.next();
+      const operand = this.parseUnary();
+      return {
+        kind: "unary",
+        operator: token.text,
+        operand,
+        span: { start: token.span.start, end: operand.span.end },
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    if (token.kind === "number") {
+      return {
+        kind: "number",
+        value: BigInt(token.text.replace(/_/g, "")),
+        span: token.span,
+      };
+    }
+    if (token.kind === "identifier") {
+      if (token.text === "true" || token.text === "false") {
+        return {
+          kind: "boolean",
+          value: token.text === "true",
+          span: token.span,
+        };
+      }
+      if (!this.accept("(")) {
+        return { kind: "identifier", name: token.text, span: token.span };
+      }
+      const args: Expression[] = [];
+      if (!this.accept(")")) {
+        do {
+          args.push(this.parseExpression());
+        } while (this.accept(","));
+        this.expect(")");
+      }
+      return {
+        kind: "call",
+        callee: token.text,
+        args,
+        span: this.span(token.span.start, this.tokens[this.pos - 1]),
+      };
+    }
+    if (token.kind === "punctuator" && token.text === "(") {
+      const inner = this.parseExpression();
+      const close = this.expect(")");
+      return { ...inner, span: this.span(token.span.start, close) };
+    }
+
+    // next() does not move past the end, so only step back over a real token
+    if (token.kind !== "eof") {
+      this.pos--;
+    }
+    this.fail(
+      token.kind === "eof"
+        ? "unexpected end of expression"
+        : `unexpected '${token.text}'`,
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== "eof") {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if (token.kind === "punctuator" && token.text === text) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): Token {
+    const token = this.peek();
+    if (!this.accept(text)) {
+      this.fail(
+        `expected '${text}' but found ${token.kind === "eof" ? "end of expression" : `'${token.text}'`}`,
+      );
+    }
+    return token;
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek();
+    if (token.kind !== "identifier") {
+      this.fail("expected a name after 'let'");
+    }
+    return this.next();
+  }
+
+  private span(start: number, last: Token): Span {
+    return { start, end: last.span.end };
+  }
+
+  private fail(reason: string): never {
+    throw new DslCompileError(reason, this.source, this.peek().span);
+  }
+}
@@ -0,0 +1,314 @@
+import { AbiCoder, Interface, isError } from "ethers";
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/**
+ * Base class of everything `decodeError` returns. `message` is meant to be
+ * shown to users, `hint` says what to do about it, and `retryable` whether
+ * sending the same request again may succeed. The original error is the
+ * `cause`.
+ */
+export class FheServerlessError extends Error {
+  constructor(
+    message: string,
+    readonly hint?: string,
+    readonly retryable = false,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The contract reverted, with a reason string, a panic or a custom error. */
+export class ContractRevertError extends FheServerlessError {
+  constructor(
+    /** The revert string, `Panic(<code>)` or the custom error's name. */
+    readonly reason: string,
+    /** Arguments of a custom error. */
+    readonly args: readonly unknown[] = [],
+    message = `The contract rejected the request: ${reason}`,
+    hint?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, hint, false, options);
+  }
+}
+
+export class AlreadyExecutedError extends ContractRevertError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "Already executed",
+      [],
+      "The function has already been revealed",
+      "Read the revealed values instead of requesting another decryption",
+      options,
+    );
+  }
+}
+
+export class InvalidRequestError extends ContractRevertError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "Invalid request",
+      [],
+      "The request refers to nothing the contract knows",
+      "Check the function id or name",
+      options,
+    );
+  }
+}
+
+export class FunctionNotFoundError extends ContractRevertError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "Function not found",
+      [],
+      "No function with this id was submitted",
+      "Check the function id, or wait until its submission is mined",
+      options,
+    );
+  }
+}
+
+/** EIP-1193 4001: the user declined the request in the wallet. */
+export class UserRejectedError extends FheServerlessError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "The request was rejected in the wallet",
+      "Approve it in the wallet to continue",
+      false,
+      options,
+    );
+  }
+}
+
+/** EIP-1193 4902: the wallet doesn't know the chain it was asked to switch to. */
+export class UnrecognizedChainError extends FheServerlessError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "The wallet does not know this network",
+      "Add the network to the wallet, then switch to it again",
+      true,
+      options,
+    );
+  }
+}
+
+/** -32603 without revert data: the wallet or its node failed internally. */
+export class WalletInternalError extends FheServerlessError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "The wallet failed to process the request",
+      "Retry, or change the wallet's RPC for this network if it keeps failing",
+      true,
+      options,
+    );
+  }
+}
+
+/** The node could not be reached, timed out or is rate limiting. */
+export class RpcError extends FheServerlessError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, "Retry in a moment", true, options);
+  }
+}
+
+// User-facing messages of the other revert strings of FheServerlessFramework.
+const REVERT_MESSAGES: Record<string, [message: string, hint?: string]> = {
+  "Not function owner": ["Only the function's owner can do this"],
+  "Not admin": ["Only the framework admin can do this"],
+  "Not reviewer": [
+    "Only a reviewer can change this function's status",
+    "Ask the framework admin to add the account as a reviewer",
+  ],
+  "Invalid transition": [
+    "The function cannot move to that status from its current one",
+    "Pending functions can be verified or rejected, verified ones deprecated",
+  ],
+  "Invalid account": ["The account address is invalid"],
+  "Insufficient balance": [
+    "The prepaid balance does not cover this",
+    "Deposit more, or send the fee with the call",
+  ],
+  "Insufficient fees": ["Not that many fees have been collected"],
+  "No escrow": ["Nothing is held in escrow for this request"],
+  "Decryption not expired": [
+    "The decryption request has not timed out yet",
+    "Retry the refund after its deadline",
+  ],
+  "Program not found": ["No program with this id was registered"],
+  "Execution not found": ["No execution with this id exists"],
+  "Not executor": ["Only the account that ran the execution can do this"],
+  "Already revealed": [
+    "The execution result has already been revealed",
+    "Read the revealed result instead of requesting another decryption",
+  ],
+  "Missing input": [
+    "The program reads more encrypted inputs than were sent",
+    "Send one encrypted value per parameter of the function's schema",
+  ],
+  "Transfer failed": ["The payout could not be transferred"],
+};
+
+const PANIC_MESSAGES: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+const KNOWN_REVERTS: Record<
+  string,
+  new (options?: ErrorOptions) => ContractRevertError
+> = {
+  "Already executed": AlreadyExecutedError,
+  "Invalid request": InvalidRequestError,
+  "Function not found": FunctionNotFoundError,
+};
+
+/**
+ * Turns whatever a contract call, a wallet or an RPC threw into a
+ * `FheServerlessError`. `iface` decodes custom errors of the called contract.
+ */
+export function decodeError(
+  error: unknown,
+  iface?: Interface,
+): FheServerlessError {
+  if (error instanceof FheServerlessError) {
+    return error;
+  }
+  const options = { cause: error };
+  const codes = nested(error)
+    .map((e) => e.code)
+    .filter((code) => code !== undefined);
+
+  if (isError(error, "ACTION_REJECTED") || codes.includes(4001)) {
+    return new UserRejectedError(options);
+  }
+  if (codes.includes(4902)) {
+    return new UnrecognizedChainError(options);
+  }
+
+  const revert = findRevert(error, iface);
+  if (revert) {
+    const Known = KNOWN_REVERTS[revert.reason];
+    if (Known) {
+      return new Known(options);
+    }
+    const [message, hint] = REVERT_MESSAGES[revert.reason] ?? [];
+    return new ContractRevertError(
+      revert.reason,
+      revert.args,
+      message,
+      hint,
+      options,
+    );
+  }
+
+  if (codes.includes(-32603)) {
+    return new WalletInternalError(options);
+  }
+  const text = messageOf(error);
+  if (
+    isError(error, "NETWORK_ERROR") ||
+    isError(error, "TIMEOUT") ||
+    isError(error, "SERVER_ERROR") ||
+    codes.includes(429) ||
+    codes.includes(-32005) ||
+    /rate limit|timed? ?out|failed to fetch|ECONNREFUSED|ECONNRESET/i.test(text)
+  ) {
+    return new RpcError(`The network request failed: ${text}`, options);
+  }
+  return new FheServerlessError(text, undefined, false, options);
+}
+
+interface Revert {
+  reason: string;
+  args: readonly unknown[];
+}
+
+// Wallets and ethers wrap the node's error differently; the revert data and
+// EIP-1193 codes can be at any of these levels.
+function nested(error: unknown): any[] {
+  const found: any[] = [];
+  const visit = (e: any, depth: number) => {
+    if (!e || typeof e !== "object" || depth > 4 || found.includes(e)) {
+      return;
+    }
+    found.push(e);
+    for (const key of ["error", "info", "data", "cause", "originalError"]) {
+      visit(e[key], depth + 1);
+    }
+  };
+  visit(error, 0);
+  return found;
+}
+
+function findRevert(error: unknown, iface?: Interface): Revert | null {
+  const levels = nested(error);
+  for (const level of levels) {
+    for (const data of [level.data, level.revertData]) {
+      const decoded =
+        typeof data === "string" ? decodeRevertData(data, iface) : null;
+      if (decoded) {
+        return decoded;
+      }
+    }
+  }
+  if (isError(error, "CALL_EXCEPTION")) {
+    // ethers already decoded a custom error of the contract it called.
+    if (error.revert) {
+      return { reason: error.revert.name, args: [...error.revert.args] };
+    }
+    if (error.reason) {
+      return { reason: error.reason, args: [] };
+    }
+  }
+  for (const level of levels) {
+    const match =
+      typeof level.message === "string" &&
+      level.message.match(
+        /reverted with reason string '(.*)'|execution reverted: (.*)$/,
+      );
+    if (match) {
+      return { reason: match[1] ?? match[2], args: [] };
+    }
+  }
+  return null;
+}
+
+function decodeRevertData(data: string, iface?: Interface): Revert | null {
+  if (!/^0x[0-9a-fA-F]{8}/.test(data)) {
+    return null;
+  }
+  const selector = data.slice(0, 10).toLowerCase();
+  const coder = AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = coder.decode(["string"], "0x" + data.slice(10));
+      return { reason, args: [] };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(["uint256"], "0x" + data.slice(10));
+      const description = PANIC_MESSAGES[Number(code)];
+      return {
+        reason: `Panic(0x${code.toString(16)})${description ? `: ${description}` : ""}`,
+        args: [],
+      };
+    }
+    const parsed = iface?.parseError(data);
+    return parsed ? { reason: parsed.name, args: [...parsed.args] } : null;
+  } catch {
+    return null;
+  }
+}
+
+function messageOf(error: unknown): string {
+  const inner: any =
+    error instanceof Error
+      ? error
+      : nested(error).find((e) => typeof e.message === "string");
+  return inner ? (inner.shortMessage ?? inner.message) : String(error);
+}
@@ -0,0 +1,46 @@
+export { FheServerlessClient } from "./FheServerlessClient";
+export { AclClient, ACL_ABI } from "./acl";
+export { FHE_SERVERLESS_FRAMEWORK_ABI } from "./abi";
+export {
+  ChargeKind,
+  decodeBillingEvent,
+  reconstructBilling,
+  formatBillingCsv,
+} from "./billing";
+export type {
+  AccountBilling,
+  BillingEvent,
+  BillingLogInfo,
+  BillingReport,
+  ChargeKindName,
+} from "./billing";
+export {
+  Op,
+  ProgramBuilder,
+  constant,
+  INPUT_REGISTER,
+  PARAMETERS_REGISTER,
+  MAX_PROGRAM_LENGTH,
+} from "./programs";
+export type { Instruction, Operand } from "./programs";
+export {
+  AlreadyExecutedError,
+  ContractRevertError,
+  FheServerlessError,
+  FunctionNotFoundError,
+  InvalidRequestError,
+  RpcError,
+  UnrecognizedChainError,
+  UserRejectedError,
+  WalletInternalError,
+  decodeError,
+} from "./errors";
+export { UserDecryptor } from "./userDecrypt";
+export type {
+  UserDecryptionInstance,
+  UserDecryptionSession,
+  UserDecryptorOptions,
+} from "./userDecrypt";
+export * from "./types";
+export { compileExpression, formatReport, DslCompileError } from "./dsl";
+export type { CompiledProgram, CompileOptions, CompileReport } from "./dsl";
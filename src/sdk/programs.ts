@@ -0,0 +1,231 @@
+// Mirrors `FheServerlessFramework.Op`; the numeric values are the ABI encoding.
+export enum Op {
+  Const,
+  Add,
+  Sub,
+  Mul,
+  Div,
+  Rem,
+  Min,
+  Max,
+  Eq,
+  Ne,
+  Lt,
+  Le,
+  Gt,
+  Ge,
+  And,
+  Or,
+  Xor,
+  Not,
+  Neg,
+  Shl,
+  Shr,
+  Rotl,
+  Rotr,
+  Select,
+  Cast,
+  Arg,
+}
+
+/** Register holding the function's encrypted input. */
+export const INPUT_REGISTER = 0;
+/** Register holding the function's encrypted parameters. */
+export const PARAMETERS_REGISTER = 1;
+export const MAX_PROGRAM_LENGTH = 64;
+
+const UINT32_MAX = 0xffffffff;
+
+export interface Instruction {
+  op: Op;
+  a: number;
+  b: number;
+  c: number;
+  scalar: boolean;
+  imm: number;
+}
+
+/** A register index, or a plaintext uint32 used as the right-hand operand. */
+export type Operand = number | { constant: number };
+
+export const constant = (value: number): Operand => ({ constant: value });
+
+/**
+ * Builds the instruction list of a program. Every method appends one
+ * instruction and returns the register it writes, to be used as an operand
+ * of later instructions. The last instruction written is the program result.
+ */
+export class ProgramBuilder {
+  private readonly instructions: Instruction[] = [];
+
+  readonly input = INPUT_REGISTER;
+  readonly parameters = PARAMETERS_REGISTER;
+
+  /** Loads encrypted input `index` of `executeProgramWithInputs`. */
+  arg(index: number): number {
+    return this.push({
+      op: Op.Arg,
+      a: 0,
+      b: 0,
+      c: 0,
+      scalar: false,
+      imm: checkUint32(index),
+    });
+  }
+
+  /** Trivially encrypts a plaintext uint32. */
+  const(value: number): number {
+    return this.push({
+      op: Op.Const,
+      a: 0,
+      b: 0,
+      c: 0,
+      scalar: false,
+      imm: checkUint32(value),
+    });
+  }
+
+  add(a: number, b: Operand) {
+    return this.binary(Op.Add, a, b);
+  }
+
+  sub(a: number, b: Operand) {
+    return this.binary(Op.Sub, a, b);
+  }
+
+  mul(a: number, b: Operand) {
+    return this.binary(Op.Mul, a, b);
+  }
+
+  /** Division and remainder only support a plaintext divisor. */
+  div(a: number, divisor: number) {
+    return this.binary(Op.Div, a, constant(divisor));
+  }
+
+  rem(a: number, divisor: number) {
+    return this.binary(Op.Rem, a, constant(divisor));
+  }
+
+  min(a: number, b: Operand) {
+    return this.binary(Op.Min, a, b);
+  }
+
+  max(a: number, b: Operand) {
+    return this.binary(Op.Max, a, b);
+  }
+
+  eq(a: number, b: Operand) {
+    return this.binary(Op.Eq, a, b);
+  }
+
+  ne(a: number, b: Operand) {
+    return this.binary(Op.Ne, a, b);
+  }
+
+  lt(a: number, b: Operand) {
+    return this.binary(Op.Lt, a, b);
+  }
+
+  le(a: number, b: Operand) {
+    return this.binary(Op.Le, a, b);
+  }
+
+  gt(a: number, b: Operand) {
+    return this.binary(Op.Gt, a, b);
+  }
+
+  ge(a: number, b: Operand) {
+    return this.binary(Op.Ge, a, b);
+  }
+
+  and(a: number, b: Operand) {
+    return this.binary(Op.And, a, b);
+  }
+
+  or(a: number, b: Operand) {
+    return this.binary(Op.Or, a, b);
+  }
+
+  xor(a: number, b: Operand) {
+    return this.binary(Op.Xor, a, b);
+  }
+
+  not(a: number) {
+    return this.push({ op: Op.Not, a, b: 0, c: 0, scalar: false, imm: 0 });
+  }
+
+  neg(a: number) {
+    return this.push({ op: Op.Neg, a, b: 0, c: 0, scalar: false, imm: 0 });
+  }
+
+  shl(a: number, amount: Operand) {
+    return this.binary(Op.Shl, a, amount);
+  }
+
+  shr(a: number, amount: Operand) {
+    return this.binary(Op.Shr, a, amount);
+  }
+
+  rotl(a: number, amount: Operand) {
+    return this.binary(Op.Rotl, a, amount);
+  }
+
+  rotr(a: number, amount: Operand) {
+    return this.binary(Op.Rotr, a, amount);
+  }
+
+  /** `control ? ifTrue : ifFalse`, with `control` an encrypted boolean. */
+  select(control: number, ifTrue: number, ifFalse: number) {
+    return this.push({
+      op: Op.Select,
+      a: control,
+      b: ifTrue,
+      c: ifFalse,
+      scalar: false,
+      imm: 0,
+    });
+  }
+
+  /** Converts an encrypted boolean to 0 or 1. */
+  cast(a: number) {
+    return this.push({ op: Op.Cast, a, b: 0, c: 0, scalar: false, imm: 0 });
+  }
+
+  build(): Instruction[] {
+    if (this.instructions.length === 0) {
+      throw new Error("Program is empty");
+    }
+    if (this.instructions.length > MAX_PROGRAM_LENGTH) {
+      throw new Error(
+        `Program has ${this.instructions.length} instructions, the limit is ${MAX_PROGRAM_LENGTH}`,
+      );
+    }
+    return this.instructions.map((instruction) => ({ ...instruction }));
+  }
+
+  private binary(op: Op, a: number, b: Operand): number {
+    if (typeof b === "number") {
+      return this.push({ op, a, b, c: 0, scalar: false, imm: 0 });
+    }
+    return this.push({
+      op,
+      a,
+      b: 0,
+      c: 0,
+      scalar: true,
+      imm: checkUint32(b.constant),
+    });
+  }
+
+  private push(instruction: Instruction): number {
+    this.instructions.push(instruction);
+    return this.instructions.length + PARAMETERS_REGISTER;
+  }
+}
+
+function checkUint32(value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`${value} is not a uint32`);
+  }
+  return value;
+}
@@ -0,0 +1,194 @@
+import type { BytesLike } from "ethers";
+
+import type { Instruction } from "./programs";
+
+export interface EncryptedFunctionRecord {
+  id: bigint;
+  encryptedInput: string;
+  encryptedParameters: string;
+  timestamp: bigint;
+  owner: string;
+}
+
+export interface DecryptedFunction {
+  input: number;
+  parameters: number;
+  executed: boolean;
+}
+
+/** Function values decrypted privately for the caller, see `UserDecryptor`. */
+export interface UserDecryptedFunction {
+  input: number;
+  parameters: number;
+}
+
+export interface TransactionInfo {
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface SubmittedFunction extends TransactionInfo {
+  functionId: bigint;
+  timestamp: bigint;
+}
+
+export interface FunctionSubmittedEvent extends TransactionInfo {
+  functionId: bigint;
+  timestamp: bigint;
+}
+
+export interface DecryptionRequestedEvent extends TransactionInfo {
+  functionId: bigint;
+}
+
+/** A decryption request and the amount held in escrow until the oracle answers. */
+export interface DecryptionRequest extends TransactionInfo {
+  requestId: bigint;
+  escrowed: bigint;
+}
+
+export interface FunctionDecryptionRequest extends DecryptionRequest {
+  functionId: bigint;
+}
+
+export interface FunctionExecutedEvent extends TransactionInfo {
+  functionId: bigint;
+}
+
+export interface FunctionAccessGrantedEvent extends TransactionInfo {
+  functionId: bigint;
+  account: string;
+}
+
+/** Per-handle ACL state of a function for one account. */
+export interface FunctionAccess {
+  account: string;
+  input: boolean;
+  parameters: boolean;
+}
+
+/** Review status of a function. Mirrors `FheServerlessFramework.FunctionStatus`. */
+export enum FunctionStatus {
+  Pending,
+  Verified,
+  Rejected,
+  Deprecated,
+}
+
+export interface FunctionSchemaSetEvent extends TransactionInfo {
+  functionId: bigint;
+  schemaHash: string;
+}
+
+export interface FunctionStatusChangedEvent extends TransactionInfo {
+  functionId: bigint;
+  from: FunctionStatus;
+  to: FunctionStatus;
+  actor: string;
+  reason: string;
+}
+
+/** Execution count last revealed by the decryption oracle. `revealedAtBlock` is 0 if never revealed. */
+export interface RevealedExecutionStats {
+  fnName: string;
+  count: number;
+  revealedAtBlock: number;
+}
+
+export interface ExecutionStatsRevealedEvent extends TransactionInfo {
+  fnName: string;
+  count: number;
+}
+
+export interface ProgramRecord {
+  id: bigint;
+  name: string;
+  owner: string;
+  timestamp: bigint;
+  instructions: Instruction[];
+}
+
+export interface RegisteredProgram extends TransactionInfo {
+  programId: bigint;
+}
+
+export interface ProgramExecutionRecord {
+  id: bigint;
+  programId: bigint;
+  functionId: bigint;
+  /** Handle of the encrypted euint32 result. */
+  result: string;
+  executor: string;
+  timestamp: bigint;
+}
+
+export interface ProgramExecutedEvent extends TransactionInfo {
+  executionId: bigint;
+  programId: bigint;
+  functionId: bigint;
+}
+
+/** Ciphertext handles from `createEncryptedInput`, read by `Arg` instructions in order. */
+export interface EncryptedProgramInputs {
+  handles: BytesLike[];
+  inputProof: BytesLike;
+}
+
+export interface ExecutionDecryptionRequest extends DecryptionRequest {
+  executionId: bigint;
+}
+
+/** Result of an execution revealed by the decryption oracle. */
+export interface RevealedResult {
+  value: number;
+  revealed: boolean;
+}
+
+export interface ExecutionResultRevealedEvent extends TransactionInfo {
+  executionId: bigint;
+  result: number;
+}
+
+/** Current tariff. Decryptions are charged per handle: two for a function, one for a stats counter. */
+export interface Prices {
+  submissionPrice: bigint;
+  decryptionPricePerHandle: bigint;
+  /** Seconds after which an unanswered decryption can be refunded. */
+  decryptionTimeout: bigint;
+}
+
+export interface EscrowRecord {
+  requestId: bigint;
+  payer: string;
+  amount: bigint;
+  /** Unix time after which `refundDecryption` is allowed. */
+  deadline: bigint;
+}
+
+export interface PaymentOptions {
+  /**
+   * Wei sent with the call; it is credited to the caller's balance before the
+   * charge. Defaults to whatever the balance is short of the price.
+   */
+  value?: bigint;
+}
+
+export interface BlockRange {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface EncryptedFunctionInput {
+  encryptedInput: BytesLike;
+  encryptedParameters: BytesLike;
+  inputProof: BytesLike;
+}
+
+export interface WaitOptions {
+  /** Block to start scanning from, so events mined before the call are not missed. */
+  fromBlock?: number;
+  /** Reject after this many milliseconds. Defaults to no timeout. */
+  timeoutMs?: number;
+  /** How often to poll for new logs. Defaults to 1000 ms. */
+  pollIntervalMs?: number;
+}
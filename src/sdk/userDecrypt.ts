@@ -0,0 +1,145 @@
+import { Signer, TypedDataField, getAddress } from "ethers";
+
+/**
+ * The part of an fhevm instance used for user decryption. Both the relayer
+ * SDK's `FhevmInstance` and the hardhat plugin's `hre.fhevm` satisfy it.
+ */
+export interface UserDecryptionInstance {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): {
+    domain: Record<string, unknown>;
+    types: Record<string, TypedDataField[]>;
+    message: Record<string, unknown>;
+  };
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface UserDecryptionSession {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface UserDecryptorOptions {
+  /** How long a signed decryption permit stays valid. Defaults to 1 day. */
+  durationDays?: number;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Decrypts ciphertext handles for the connected account without revealing
+ * them on-chain. A throwaway keypair is generated and the account signs an
+ * EIP-712 permit for it; the KMS re-encrypts the values under that public key
+ * and only this process can read them. The account must be ACL-allowed on
+ * every handle it decrypts.
+ *
+ * Permits are cached per contract set until they expire, so the wallet is
+ * only asked to sign once per session.
+ */
+export class UserDecryptor {
+  private readonly sessions = new Map<string, UserDecryptionSession>();
+
+  constructor(
+    readonly instance: UserDecryptionInstance,
+    readonly signer: Signer,
+    private readonly options: UserDecryptorOptions = {},
+  ) {}
+
+  async decrypt(
+    contractAddress: string,
+    handles: string[],
+  ): Promise<(bigint | boolean | string)[]> {
+    const session = await this.session([contractAddress]);
+    const results = await this.instance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      session.privateKey,
+      session.publicKey,
+      session.signature.replace("0x", ""),
+      session.contractAddresses,
+      session.userAddress,
+      session.startTimestamp,
+      session.durationDays,
+    );
+    return handles.map((handle) => {
+      const value = results[handle] ?? results[handle.toLowerCase()];
+      if (value === undefined) {
+        throw new Error(`Handle ${handle} was not decrypted`);
+      }
+      return value;
+    });
+  }
+
+  async decryptUint(
+    contractAddress: string,
+    handles: string[],
+  ): Promise<bigint[]> {
+    const values = await this.decrypt(contractAddress, handles);
+    return values.map((value) => BigInt(value));
+  }
+
+  /** Returns a valid permit for `contractAddresses`, signing a new one if needed. */
+  async session(contractAddresses: string[]): Promise<UserDecryptionSession> {
+    const userAddress = await this.signer.getAddress();
+    const contracts = contractAddresses
+      .map((address) => getAddress(address))
+      .sort();
+    const key = [userAddress, ...contracts].join(":");
+
+    const cached = this.sessions.get(key);
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      cached &&
+      cached.startTimestamp + cached.durationDays * SECONDS_PER_DAY > now + 60
+    ) {
+      return cached;
+    }
+
+    const durationDays = this.options.durationDays ?? 1;
+    const { publicKey, privateKey } = this.instance.generateKeypair();
+    const eip712 = this.instance.createEIP712(
+      publicKey,
+      contracts,
+      now,
+      durationDays,
+    );
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification:
+          eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message,
+    );
+
+    const session: UserDecryptionSession = {
+      userAddress,
+      contractAddresses: contracts,
+      publicKey,
+      privateKey,
+      signature,
+      startTimestamp: now,
+      durationDays,
+    };
+    this.sessions.set(key, session);
+    return session;
+  }
+}
@@ -0,0 +1,39 @@
+import { task, types } from "hardhat/config";
+
+import { FheServerlessClient, formatBillingCsv } from "../src/sdk";
+
+// Rebuilds each account's spend from the framework's billing events:
+//
+//   npx hardhat --network sepolia fhe:billing --framework 0x... --from-block 6500000 --csv > billing.csv
+task("fhe:billing", "Reports per-account FHE compute spend from billing events")
+  .addParam("framework", "FheServerlessFramework address")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to replay, ideally the deployment block",
+    0,
+    types.int,
+  )
+  .addOptionalParam("toBlock", "Last block to replay", undefined, types.int)
+  .addFlag("csv", "Print one CSV row per account instead of JSON")
+  .setAction(async (args, hre) => {
+    const client = FheServerlessClient.connect(
+      args.framework,
+      hre.ethers.provider,
+    );
+    const report = await client.getBillingReport({
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+    });
+
+    if (args.csv) {
+      console.log(formatBillingCsv(report));
+      return;
+    }
+    console.log(
+      JSON.stringify(
+        report,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+        2,
+      ),
+    );
+  });
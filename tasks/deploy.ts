@@ -0,0 +1,14 @@
+import { task } from "hardhat/config";
+
+import { deployFlags } from "../src/deploy/preflight";
+
+// Adds confirmation handling to hardhat-deploy's `deploy` task:
+//
+//   npx hardhat --network localhost deploy
+//   DEPLOYER_PRIVATE_KEY=0x... npx hardhat --network sepolia deploy --yes
+task("deploy")
+  .addFlag("yes", "Deploy to remote networks without asking for confirmation")
+  .setAction(async (args, hre, runSuper) => {
+    deployFlags.yes = args.yes;
+    return runSuper(args);
+  });
@@ -0,0 +1,93 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+
+import {
+  compileExpression,
+  DslCompileError,
+  FheServerlessClient,
+  formatReport,
+} from "../src/sdk";
+
+// Compiles a DSL expression and optionally registers it as a program:
+//
+//   npx hardhat fhe:compile --expr "(x * 3 + p) > 100 ? x : 0"
+//   npx hardhat fhe:compile --expr "income > limit ? income - limit : 0" --inputs income,limit
+//   npx hardhat --network sepolia fhe:compile --file threshold.fhe --register threshold --framework 0x...
+task("fhe:compile", "Compiles an FHE expression into program instructions")
+  .addOptionalParam("expr", "Expression source", undefined, types.string)
+  .addOptionalParam(
+    "file",
+    "File containing the expression",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    "inputs",
+    "Comma-separated names of the encrypted inputs of executeProgramWithInputs",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    "register",
+    "Register the program under this name",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    "framework",
+    "FheServerlessFramework address",
+    undefined,
+    types.string,
+  )
+  .addFlag("json", "Print the instructions and report as JSON")
+  .setAction(async (args, hre) => {
+    if (!args.expr === !args.file) {
+      throw new Error("Pass exactly one of --expr or --file");
+    }
+    const source: string = args.expr ?? fs.readFileSync(args.file, "utf8");
+
+    let compiled;
+    try {
+      compiled = compileExpression(source, {
+        inputs: args.inputs
+          ?.split(",")
+          .map((name: string) => name.trim())
+          .filter(Boolean),
+      });
+    } catch (e) {
+      if (e instanceof DslCompileError) {
+        console.error(e.message);
+        process.exitCode = 1;
+        return;
+      }
+      throw e;
+    }
+
+    let programId: bigint | undefined;
+    if (args.register) {
+      if (!args.framework) {
+        throw new Error("--register requires --framework");
+      }
+      const [signer] = await hre.ethers.getSigners();
+      const client = FheServerlessClient.connect(args.framework, signer);
+      ({ programId } = await client.registerProgram(
+        args.register,
+        compiled.instructions,
+      ));
+    }
+
+    if (args.json) {
+      console.log(
+        JSON.stringify(
+          { ...compiled, programId: programId?.toString() },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+    console.log(formatReport(compiled.report));
+    if (programId !== undefined) {
+      console.log(`Registered program ${programId}`);
+    }
+  });
@@ -0,0 +1,308 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { FheServerlessClient, FunctionStatus } from "../src/sdk";
+
+// Operates FHE functions without the web UI. Every task prints JSON:
+//
+//   npx hardhat --network sepolia fhe:submit --input 41 --parameters 9
+//   npx hardhat --network sepolia fhe:decrypt --id 1
+//   npx hardhat --network sepolia fhe:status --id 1
+//   npx hardhat --network sepolia fhe:review --id 1 --status verified --reason "audited"
+//   npx hardhat --network sepolia fhe:reviewer --account 0x... [--remove]
+//   npx hardhat --network sepolia fhe:stats --id 1 --reveal
+//   npx hardhat --network sepolia fhe:list --from-block 6500000
+//
+// --framework defaults to the FheServerlessFramework deployment of the network.
+
+const MAX_UINT32 = 2 ** 32 - 1;
+
+async function connect(
+  hre: HardhatRuntimeEnvironment,
+  framework: string | undefined,
+): Promise<FheServerlessClient> {
+  const address =
+    framework ??
+    (await hre.deployments.getOrNull("FheServerlessFramework"))?.address;
+  if (!address) {
+    throw new Error(
+      `No FheServerlessFramework deployment on ${hre.network.name}, pass --framework`,
+    );
+  }
+  const [signer] = await hre.ethers.getSigners();
+  return FheServerlessClient.connect(address, signer ?? hre.ethers.provider);
+}
+
+// The in-process network has no oracle running next to it, so callbacks are
+// delivered here. Elsewhere `fhe:oracle` or the KMS relayer answers them.
+async function deliverCallbacks(hre: HardhatRuntimeEnvironment) {
+  if (hre.network.name === "hardhat") {
+    await hre.fhevm.awaitDecryptionOracle();
+  }
+}
+
+function assertUint32(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`--${name} must be a uint32, got ${value}`);
+  }
+}
+
+const statusName = (status: FunctionStatus) =>
+  FunctionStatus[status].toLowerCase();
+
+function parseStatus(name: string): FunctionStatus {
+  const status = Object.values(FunctionStatus).find(
+    (value): value is FunctionStatus =>
+      typeof value === "number" && statusName(value) === name.toLowerCase(),
+  );
+  if (status === undefined) {
+    throw new Error(
+      `--status must be verified, rejected or deprecated, got ${name}`,
+    );
+  }
+  return status;
+}
+
+function printJson(value: unknown) {
+  console.log(
+    JSON.stringify(
+      value,
+      (_, v) => (typeof v === "bigint" ? v.toString() : v),
+      2,
+    ),
+  );
+}
+
+task("fhe:submit", "Encrypts an input and parameters and submits them")
+  .addParam("input", "Function input", undefined, types.int)
+  .addParam("parameters", "Function parameters", undefined, types.int)
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addOptionalParam(
+    "value",
+    "Wei to send instead of topping up the balance to the price",
+    undefined,
+    types.bigint,
+  )
+  .setAction(async (args, hre) => {
+    assertUint32("input", args.input);
+    assertUint32("parameters", args.parameters);
+    await hre.fhevm.initializeCLIApi();
+
+    const client = await connect(hre, args.framework);
+    const [signer] = await hre.ethers.getSigners();
+    const encrypted = await hre.fhevm
+      .createEncryptedInput(client.address, signer.address)
+      .add32(args.input)
+      .add32(args.parameters)
+      .encrypt();
+    const submitted = await client.submitEncryptedFunction(
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.inputProof,
+      { value: args.value },
+    );
+
+    const result = { ...submitted, owner: signer.address };
+    printJson(result);
+    return result;
+  });
+
+task(
+  "fhe:decrypt",
+  "Requests decryption of a function and waits for the callback",
+)
+  .addParam("id", "Function id", undefined, types.bigint)
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addOptionalParam(
+    "value",
+    "Wei to send instead of topping up the balance to the price",
+    undefined,
+    types.bigint,
+  )
+  .addOptionalParam(
+    "timeout",
+    "Milliseconds to wait for the callback",
+    300_000,
+    types.int,
+  )
+  .addFlag("noWait", "Print the request without waiting for the callback")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args.framework);
+    const request = await client.requestFunctionDecryption(args.id, {
+      value: args.value,
+    });
+
+    let result: object = { ...request, executed: false };
+    if (!args.noWait) {
+      await deliverCallbacks(hre);
+      const executed = await client.waitForFunctionExecuted(args.id, {
+        fromBlock: request.blockNumber,
+        timeoutMs: args.timeout,
+      });
+      result = {
+        ...request,
+        ...(await client.getDecryptedFunction(args.id)),
+        callbackTransactionHash: executed.transactionHash,
+      };
+    }
+    printJson(result);
+    return result;
+  });
+
+task("fhe:status", "Shows the owner and decryption state of a function")
+  .addParam("id", "Function id", undefined, types.bigint)
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args.framework);
+    const [fn, decrypted, status] = await Promise.all([
+      client.getEncryptedFunction(args.id),
+      client.getDecryptedFunction(args.id),
+      client.getFunctionStatus(args.id),
+    ]);
+    if (fn.owner === hre.ethers.ZeroAddress) {
+      throw new Error(`Function ${args.id} not found`);
+    }
+
+    const result = {
+      functionId: fn.id,
+      owner: fn.owner,
+      timestamp: fn.timestamp,
+      status: statusName(status),
+      executed: decrypted.executed,
+      input: decrypted.executed ? decrypted.input : null,
+      parameters: decrypted.executed ? decrypted.parameters : null,
+    };
+    printJson(result);
+    return result;
+  });
+
+task("fhe:review", "Verifies, rejects or deprecates a function")
+  .addParam("id", "Function id", undefined, types.bigint)
+  .addParam("status", "verified, rejected or deprecated")
+  .addOptionalParam("reason", "Recorded with the change", "")
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args.framework);
+    const changed = await client.setFunctionStatus(
+      args.id,
+      parseStatus(args.status),
+      args.reason,
+    );
+
+    const result = {
+      ...changed,
+      from: statusName(changed.from),
+      to: statusName(changed.to),
+    };
+    printJson(result);
+    return result;
+  });
+
+task("fhe:reviewer", "Adds or removes a reviewer (admin only)")
+  .addParam("account", "Reviewer address")
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addFlag("remove", "Remove the reviewer instead")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args.framework);
+    const tx = await client.setReviewer(args.account, !args.remove);
+
+    const result = { ...tx, account: args.account, reviewer: !args.remove };
+    printJson(result);
+    return result;
+  });
+
+task("fhe:stats", "Shows encrypted and revealed execution counters")
+  .addOptionalParam("name", "Counter name, e.g. fn_1")
+  .addOptionalParam("id", "Function id, shorthand for --name fn_<id>")
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addOptionalParam(
+    "value",
+    "Wei to send for --reveal instead of topping up the balance to the price",
+    undefined,
+    types.bigint,
+  )
+  .addOptionalParam(
+    "timeout",
+    "Milliseconds to wait for the --reveal callback",
+    300_000,
+    types.int,
+  )
+  .addFlag("reveal", "Request decryption of the counter and wait for it")
+  .setAction(async (args, hre) => {
+    if (args.name !== undefined && args.id !== undefined) {
+      throw new Error("Pass at most one of --name or --id");
+    }
+    const client = await connect(hre, args.framework);
+    const names: string[] =
+      args.name !== undefined
+        ? [args.name]
+        : args.id !== undefined
+          ? [`fn_${args.id}`]
+          : await client.getExecutionStatsNames();
+    if (args.reveal && names.length !== 1) {
+      throw new Error("--reveal requires --name or --id");
+    }
+
+    if (args.reveal) {
+      const request = await client.requestExecutionStatsDecryption(names[0], {
+        value: args.value,
+      });
+      await deliverCallbacks(hre);
+      await client.waitForExecutionStatsRevealed(names[0], {
+        fromBlock: request.blockNumber,
+        timeoutMs: args.timeout,
+      });
+    }
+
+    const result = await Promise.all(
+      names.map(async (fnName) => ({
+        ...(await client.getRevealedExecutionStats(fnName)),
+        handle: await client.getEncryptedExecutionStats(fnName),
+      })),
+    );
+    printJson(result);
+    return result;
+  });
+
+task("fhe:list", "Lists submitted functions from FunctionSubmitted events")
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan, defaults to the deployment block",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("toBlock", "Last block to scan", undefined, types.int)
+  .addOptionalParam("owner", "Only list functions submitted by this address")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args.framework);
+    const deployment = await hre.deployments.getOrNull(
+      "FheServerlessFramework",
+    );
+    const events = await client.getSubmittedFunctions({
+      fromBlock:
+        args.fromBlock ??
+        (deployment?.address === client.address
+          ? deployment.receipt?.blockNumber
+          : undefined) ??
+        0,
+      toBlock: args.toBlock,
+    });
+
+    const functions = await Promise.all(
+      events.map(async (event) => {
+        const [fn, decrypted] = await Promise.all([
+          client.getEncryptedFunction(event.functionId),
+          client.getDecryptedFunction(event.functionId),
+        ]);
+        return { ...event, owner: fn.owner, executed: decrypted.executed };
+      }),
+    );
+    const result = functions.filter(
+      (fn) =>
+        args.owner === undefined ||
+        fn.owner.toLowerCase() === args.owner.toLowerCase(),
+    );
+    printJson(result);
+    return result;
+  });
@@ -0,0 +1,83 @@
+import path from "path";
+import { task, types } from "hardhat/config";
+
+import { Indexer } from "../src/indexer/Indexer";
+import { IndexerStore } from "../src/indexer/IndexerStore";
+import { createIndexerServer } from "../src/indexer/server";
+
+// Follows the framework and adapter events into SQLite and serves them over
+// REST and GraphQL, e.g. for the frontend's VITE_INDEXER_URL:
+//
+//   npx hardhat --network sepolia fhe:indexer --port 4350 --confirmations 3
+//
+// --framework and --adapter default to the network's deployments, and
+// --from-block to the earliest of their deployment blocks.
+task("fhe:indexer", "Runs the event indexer and its REST/GraphQL API")
+  .addOptionalParam("framework", "FheServerlessFramework address")
+  .addOptionalParam("adapter", "UniversalAdapter address")
+  .addOptionalParam("fromBlock", "First block to index", undefined, types.int)
+  .addOptionalParam(
+    "db",
+    "SQLite file, defaults to .indexer/<network>.sqlite",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam("port", "API port", 4350, types.int)
+  .addOptionalParam(
+    "confirmations",
+    "Blocks to stay behind the head",
+    0,
+    types.int,
+  )
+  .addOptionalParam(
+    "pollInterval",
+    "Polling interval in milliseconds",
+    2000,
+    types.int,
+  )
+  .addFlag("once", "Index up to the current head and exit without serving")
+  .setAction(async (args, hre) => {
+    const framework = await hre.deployments.getOrNull("FheServerlessFramework");
+    const adapter = await hre.deployments.getOrNull("UniversalAdapter");
+    const deployed = [framework, adapter]
+      .map((deployment) => deployment?.receipt?.blockNumber)
+      .filter((block): block is number => block !== undefined);
+
+    const store = await IndexerStore.open(
+      args.db ??
+        path.join(
+          hre.config.paths.root,
+          ".indexer",
+          `${hre.network.name}.sqlite`,
+        ),
+    );
+    const indexer = new Indexer(hre.ethers.provider, store, {
+      framework: args.framework ?? framework?.address,
+      adapter: args.adapter ?? adapter?.address,
+      fromBlock:
+        args.fromBlock ?? (deployed.length > 0 ? Math.min(...deployed) : 0),
+      confirmations: args.confirmations,
+      pollIntervalMs: args.pollInterval,
+      log: console.log,
+    });
+
+    if (args.once) {
+      await indexer.poll();
+      console.log(`Indexed up to block ${store.cursor}`);
+      store.close();
+      return;
+    }
+
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Indexer API listening on http://localhost:${args.port}`);
+    indexer.start();
+
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    await indexer.stop();
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
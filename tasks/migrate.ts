@@ -0,0 +1,102 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  AdapterImportError,
+  connectAdapter,
+  exportAdapterSnapshot,
+  importAdapterSnapshot,
+} from "../src/migration/adapterSnapshot";
+
+// Moves the frontend's function records between UniversalAdapter deployments:
+//
+//   npx hardhat --network sepolia fhe:export-adapter --adapter 0xOld... --out snapshot.json
+//   npx hardhat --network sepolia fhe:import-adapter --in snapshot.json --batch-size 20
+//
+// --adapter defaults to the UniversalAdapter deployment of the network. A
+// failed import can simply be run again, it skips what already landed.
+
+async function adapterAddress(
+  hre: HardhatRuntimeEnvironment,
+  adapter: string | undefined,
+): Promise<string> {
+  const address =
+    adapter ?? (await hre.deployments.getOrNull("UniversalAdapter"))?.address;
+  if (!address) {
+    throw new Error(
+      `No UniversalAdapter deployment on ${hre.network.name}, pass --adapter`,
+    );
+  }
+  return address;
+}
+
+task(
+  "fhe:export-adapter",
+  "Dumps UniversalAdapter function records to a snapshot",
+)
+  .addOptionalParam("adapter", "UniversalAdapter address")
+  .addParam("out", "Snapshot file to write", undefined, types.string)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan for DataStored events, ideally the deployment block",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const address = await adapterAddress(hre, args.adapter);
+    const deployment = await hre.deployments.getOrNull("UniversalAdapter");
+    const adapter = connectAdapter(address, hre.ethers.provider);
+    const snapshot = await exportAdapterSnapshot(adapter, {
+      fromBlock:
+        args.fromBlock ??
+        (deployment?.address === address
+          ? deployment.receipt?.blockNumber
+          : undefined),
+    });
+    fs.writeFileSync(args.out, JSON.stringify(snapshot, null, 2) + "\n");
+
+    console.log(
+      `Exported ${snapshot.records.length} record(s) at block ${snapshot.source.blockNumber} to ${args.out}`,
+    );
+    if (snapshot.missing.length > 0) {
+      console.warn(`Listed without a record: ${snapshot.missing.join(", ")}`);
+    }
+    return snapshot;
+  });
+
+task("fhe:import-adapter", "Replays a snapshot into a UniversalAdapter")
+  .addOptionalParam("adapter", "UniversalAdapter address")
+  .addParam("in", "Snapshot file to read", undefined, types.inputFile)
+  .addOptionalParam(
+    "batchSize",
+    "Writes sent before waiting for them to be mined",
+    10,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const adapter = connectAdapter(
+      await adapterAddress(hre, args.adapter),
+      signer,
+    );
+    const snapshot = JSON.parse(fs.readFileSync(args.in, "utf8"));
+
+    try {
+      const report = await importAdapterSnapshot(adapter, snapshot, {
+        batchSize: args.batchSize,
+        onProgress: (event) => console.log(`${event.type} ${event.key}`),
+      });
+      console.log(
+        `Imported ${report.written.length} key(s), ${report.skipped.length} already up to date`,
+      );
+      return report;
+    } catch (e) {
+      if (e instanceof AdapterImportError) {
+        console.error(`${e.message}. Run the import again to resume.`);
+        process.exitCode = 1;
+        return e.report;
+      }
+      throw e;
+    }
+  });
@@ -0,0 +1,90 @@
+import { task, types } from "hardhat/config";
+
+import { MockDecryptionOracle } from "../src/oracle/MockDecryptionOracle";
+
+// Serves FHE.requestDecryption callbacks on chain 31337, e.g. against
+// `npx hardhat node`:
+//
+//   npx hardhat --network localhost fhe:oracle --delay 2000 --failure-rate 0.1
+task("fhe:oracle", "Runs a mock decryption oracle on the hardhat mock network")
+  .addOptionalParam(
+    "delay",
+    "Milliseconds a request stays pending",
+    0,
+    types.int,
+  )
+  .addOptionalParam(
+    "failureRate",
+    "Probability (0..1) of delivering an invalid proof before the genuine callback",
+    0,
+    types.float,
+  )
+  .addOptionalParam(
+    "failRequests",
+    "Comma separated request ids that always get an invalid proof first",
+    "",
+    types.string,
+  )
+  .addOptionalParam(
+    "failureTimeout",
+    "Milliseconds a request stays unanswered after its invalid proof",
+    0,
+    types.int,
+  )
+  .addFlag(
+    "withholdFailures",
+    "Never answer requests that got an invalid proof, nor any other request after them",
+  )
+  .addOptionalParam(
+    "contract",
+    "Only serve requests from this contract address",
+  )
+  .addOptionalParam("fromBlock", "First block to scan", undefined, types.int)
+  .addOptionalParam(
+    "pollInterval",
+    "Polling interval in milliseconds",
+    500,
+    types.int,
+  )
+  .addFlag("once", "Fulfil the currently pending requests and exit")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const oracle = new MockDecryptionOracle(hre, {
+      delayMs: args.delay,
+      failureRate: args.failureRate,
+      failRequestIds: (args.failRequests as string)
+        .split(",")
+        .filter((id) => id.trim() !== "")
+        .map((id) => BigInt(id.trim())),
+      failureTimeoutMs: args.withholdFailures ? Infinity : args.failureTimeout,
+      contractAddress: args.contract,
+      fromBlock: args.fromBlock ?? (args.once ? 0 : undefined),
+      pollIntervalMs: args.pollInterval,
+      log: console.log,
+    });
+
+    if (args.once) {
+      // With --withhold-failures, nothing is answered after the first failure
+      const waiting = () =>
+        oracle.pendingRequests.length > 0 &&
+        !(
+          args.withholdFailures &&
+          oracle.pendingRequests.some((r) => r.failedAt !== undefined)
+        );
+      await oracle.poll();
+      while (waiting()) {
+        await new Promise((resolve) => setTimeout(resolve, args.pollInterval));
+        await oracle.poll();
+      }
+      return;
+    }
+
+    console.log(`Mock decryption oracle listening on ${hre.network.name}`);
+    oracle.start();
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    await oracle.stop();
+  });
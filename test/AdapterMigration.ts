@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import {
+  AdapterImportError,
+  AdapterSnapshot,
+  exportAdapterSnapshot,
+  importAdapterSnapshot,
+} from "../src/migration/adapterSnapshot";
+
+const utf8 = (value: unknown) =>
+  ethers.toUtf8Bytes(typeof value === "string" ? value : JSON.stringify(value));
+
+describe("UniversalAdapter migration", function () {
+  let source: Contract;
+  let target: Contract;
+
+  async function deployAdapter(): Promise<Contract> {
+    const [signer] = await ethers.getSigners();
+    const factory = new ethers.ContractFactory(
+      adapterArtifact.abi,
+      adapterArtifact.bytecode,
+      signer,
+    );
+    return (await factory.deploy()) as Contract;
+  }
+
+  async function read(adapter: Contract, key: string) {
+    return ethers.toUtf8String(await adapter.getData(key));
+  }
+
+  beforeEach(async function () {
+    source = await deployAdapter();
+    target = await deployAdapter();
+
+    await source.setData("function_a", utf8({ name: "first" }));
+    await source.setData("function_b", utf8({ name: "second" }));
+    await source.setData("function_keys", utf8(["a", "b", "gone"]));
+    await source.setData("unrelated", utf8("not exported"));
+  });
+
+  it("exports every listed record at one block", async function () {
+    const snapshot = await exportAdapterSnapshot(source);
+
+    expect(snapshot.version).to.eq(1);
+    expect(snapshot.source.adapter).to.eq(await source.getAddress());
+    expect(snapshot.keys).to.deep.eq(["a", "b", "gone"]);
+    expect(snapshot.records.map((r) => r.key)).to.deep.eq([
+      "function_a",
+      "function_b",
+    ]);
+    expect(snapshot.missing).to.deep.eq(["gone"]);
+  });
+
+  it("recovers ids dropped from function_keys by a concurrent writer", async function () {
+    // Two submitters read ["a", "b", "gone"], each appends and writes back.
+    await source.setData("function_c", utf8({ name: "third" }));
+    await source.setData("function_d", utf8({ name: "fourth" }));
+    await source.setData("function_keys", utf8(["a", "b", "gone", "c"]));
+    await source.setData("function_keys", utf8(["a", "b", "gone", "d"]));
+
+    const snapshot = await exportAdapterSnapshot(source);
+    expect(snapshot.keys).to.deep.eq(["a", "b", "gone", "d", "c"]);
+    expect(snapshot.records.map((r) => r.key)).to.include("function_c");
+  });
+
+  it("replays a snapshot into another adapter", async function () {
+    const snapshot = await exportAdapterSnapshot(source);
+    const report = await importAdapterSnapshot(target, snapshot, {
+      batchSize: 1,
+    });
+
+    expect(report.written).to.deep.eq([
+      "function_a",
+      "function_b",
+      "function_keys",
+    ]);
+    expect(JSON.parse(await read(target, "function_b"))).to.deep.eq({
+      name: "second",
+    });
+    expect(JSON.parse(await read(target, "function_keys"))).to.deep.eq([
+      "a",
+      "b",
+      "gone",
+    ]);
+    expect(await target.getData("unrelated")).to.eq("0x");
+  });
+
+  it("keeps ids the target already lists", async function () {
+    await target.setData("function_c", utf8({ name: "new" }));
+    await target.setData("function_keys", utf8(["c"]));
+
+    await importAdapterSnapshot(target, await exportAdapterSnapshot(source));
+
+    expect(JSON.parse(await read(target, "function_keys"))).to.deep.eq([
+      "a",
+      "b",
+      "gone",
+      "c",
+    ]);
+  });
+
+  it("resumes after a failed write", async function () {
+    const snapshot = await exportAdapterSnapshot(source);
+    let failNext = true;
+    const flaky = {
+      getData: (key: string) => target.getData(key),
+      setData: (key: string, value: string) => {
+        if (key === "function_b" && failNext) {
+          failNext = false;
+          throw new Error("nonce too low");
+        }
+        return target.setData(key, value);
+      },
+    } as unknown as Contract;
+
+    const error = await importAdapterSnapshot(flaky, snapshot).catch((e) => e);
+    expect(error).to.be.instanceOf(AdapterImportError);
+    expect(error.failedKeys).to.deep.eq(["function_b"]);
+    expect(error.report.written).to.deep.eq(["function_a"]);
+    expect(await target.getData("function_keys")).to.eq("0x");
+
+    const report = await importAdapterSnapshot(flaky, snapshot);
+    expect(report.skipped).to.deep.eq(["function_a"]);
+    expect(report.written).to.deep.eq(["function_b", "function_keys"]);
+  });
+
+  it("rejects snapshots of another version", async function () {
+    const snapshot: AdapterSnapshot = {
+      ...(await exportAdapterSnapshot(source)),
+      version: 2,
+    };
+    await expect(importAdapterSnapshot(target, snapshot)).to.be.rejectedWith(
+      "Unsupported snapshot version 2",
+    );
+  });
+});
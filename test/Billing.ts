@@ -0,0 +1,405 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  ChargeKind,
+  FheServerlessClient,
+  Op,
+  ProgramBuilder,
+} from "../src/sdk";
+import {
+  FheServerlessFramework,
+  FheServerlessFramework__factory,
+} from "../types";
+
+const SUBMISSION_PRICE = ethers.parseEther("0.01");
+const DECRYPTION_PRICE_PER_HANDLE = ethers.parseEther("0.002");
+const DECRYPTION_TIMEOUT = 3600n;
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+describe("FheServerlessFramework billing", function () {
+  let signers: Signers;
+  let framework: FheServerlessFramework;
+  let frameworkAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      admin: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "FheServerlessFramework",
+    )) as FheServerlessFramework__factory;
+    framework = (await factory.deploy()) as FheServerlessFramework;
+    frameworkAddress = await framework.getAddress();
+
+    await framework.setPrices(
+      SUBMISSION_PRICE,
+      DECRYPTION_PRICE_PER_HANDLE,
+      DECRYPTION_TIMEOUT,
+    );
+  });
+
+  async function encrypt(signer: HardhatEthersSigner) {
+    return fhevm
+      .createEncryptedInput(frameworkAddress, signer.address)
+      .add32(41)
+      .add32(9)
+      .encrypt();
+  }
+
+  async function submit(
+    signer: HardhatEthersSigner,
+    value: bigint = SUBMISSION_PRICE,
+  ): Promise<bigint> {
+    const encrypted = await encrypt(signer);
+    await (
+      await framework
+        .connect(signer)
+        .submitEncryptedFunction(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.inputProof,
+          { value },
+        )
+    ).wait();
+    return framework.functionCount();
+  }
+
+  async function requestDecryption(
+    signer: HardhatEthersSigner,
+    functionId: bigint,
+  ): Promise<bigint> {
+    const receipt = await (
+      await framework.connect(signer).requestFunctionDecryption(functionId, {
+        value: 2n * DECRYPTION_PRICE_PER_HANDLE,
+      })
+    ).wait();
+    return fhevm.parseDecryptionRequestEvents(receipt?.logs)[0].requestID;
+  }
+
+  describe("pricing", function () {
+    it("is free until the admin sets prices", async function () {
+      const factory = (await ethers.getContractFactory(
+        "FheServerlessFramework",
+      )) as FheServerlessFramework__factory;
+      const free = await factory.deploy();
+
+      expect(await free.admin()).to.eq(signers.admin.address);
+      expect(await free.submissionPrice()).to.eq(0n);
+      expect(await free.decryptionPricePerHandle()).to.eq(0n);
+      expect(await free.decryptionTimeout()).to.eq(86400n);
+    });
+
+    it("only lets the admin change prices", async function () {
+      await expect(
+        framework.connect(signers.alice).setPrices(0, 0, 1),
+      ).to.be.revertedWith("Not admin");
+      await expect(
+        framework.connect(signers.alice).setOpPrice(Op.Mul, 1),
+      ).to.be.revertedWith("Not admin");
+      await expect(framework.setPrices(0, 0, 0)).to.be.revertedWith(
+        "Invalid timeout",
+      );
+
+      await expect(framework.setOpPrice(Op.Mul, 5))
+        .to.emit(framework, "OpPriceUpdated")
+        .withArgs(Op.Mul, 5);
+      expect(await framework.opPrices(Op.Mul)).to.eq(5n);
+    });
+
+    it("quotes programs as the sum of their op prices", async function () {
+      await framework.setOpPrice(Op.Mul, 5);
+      await framework.setOpPrice(Op.Add, 2);
+
+      const p = new ProgramBuilder();
+      p.add(p.mul(p.input, p.parameters), p.mul(p.input, p.input));
+      await framework.registerProgram("score", p.build());
+
+      expect(await framework.quoteProgram(1)).to.eq(12n);
+    });
+  });
+
+  describe("charges", function () {
+    it("rejects metered calls the caller cannot pay for", async function () {
+      const encrypted = await encrypt(signers.alice);
+
+      await expect(
+        framework
+          .connect(signers.alice)
+          .submitEncryptedFunction(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("Insufficient balance");
+    });
+
+    it("charges submissions and keeps any overpayment as balance", async function () {
+      const functionId = await submit(signers.alice, SUBMISSION_PRICE + 5n);
+
+      expect(await framework.balances(signers.alice.address)).to.eq(5n);
+      expect(await framework.collectedFees()).to.eq(SUBMISSION_PRICE);
+
+      const events = await framework.queryFilter(
+        framework.filters.Charged(signers.alice.address),
+      );
+      expect(events).to.have.length(1);
+      expect(events[0].args.kind).to.eq(ChargeKind.Submission);
+      expect(events[0].args.ref).to.eq(functionId);
+      expect(events[0].args.amount).to.eq(SUBMISSION_PRICE);
+    });
+
+    it("charges from a prepaid balance", async function () {
+      await expect(
+        framework.connect(signers.alice).deposit({ value: SUBMISSION_PRICE }),
+      )
+        .to.emit(framework, "Deposited")
+        .withArgs(signers.alice.address, SUBMISSION_PRICE);
+
+      await submit(signers.alice, 0n);
+      expect(await framework.balances(signers.alice.address)).to.eq(0n);
+    });
+
+    it("charges program executions per operation", async function () {
+      await framework.setOpPrice(Op.Add, 7);
+      const p = new ProgramBuilder();
+      p.add(p.input, p.parameters);
+      await framework.registerProgram("sum", p.build());
+      const functionId = await submit(signers.alice);
+
+      await expect(
+        framework.connect(signers.alice).executeProgram(1, functionId),
+      ).to.be.revertedWith("Insufficient balance");
+      await framework
+        .connect(signers.alice)
+        .executeProgram(1, functionId, { value: 7 });
+
+      expect(await framework.collectedFees()).to.eq(SUBMISSION_PRICE + 7n);
+    });
+  });
+
+  describe("escrow", function () {
+    it("holds decryption charges until the callback lands", async function () {
+      const functionId = await submit(signers.alice);
+      const requestId = await requestDecryption(signers.alice, functionId);
+
+      const escrow = await framework.escrows(requestId);
+      expect(escrow.payer).to.eq(signers.alice.address);
+      expect(escrow.amount).to.eq(2n * DECRYPTION_PRICE_PER_HANDLE);
+      expect(await framework.collectedFees()).to.eq(SUBMISSION_PRICE);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await framework.escrows(requestId)).amount).to.eq(0n);
+      expect(await framework.collectedFees()).to.eq(
+        SUBMISSION_PRICE + 2n * DECRYPTION_PRICE_PER_HANDLE,
+      );
+      const released = await framework.queryFilter(
+        framework.filters.EscrowReleased(requestId),
+      );
+      expect(released).to.have.length(1);
+    });
+
+    it("escrows stats decryptions at one handle", async function () {
+      const functionId = await submit(signers.alice);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        framework.connect(signers.bob).requestExecutionStatsDecryption("fn_1"),
+      ).to.be.revertedWith("Insufficient balance");
+      await framework
+        .connect(signers.bob)
+        .requestExecutionStatsDecryption("fn_1", {
+          value: DECRYPTION_PRICE_PER_HANDLE,
+        });
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await framework.getRevealedExecutionStats("fn_1")).count).to.eq(
+        1n,
+      );
+    });
+
+    it("escrows execution result decryptions at one handle", async function () {
+      const p = new ProgramBuilder();
+      p.add(p.input, p.arg(0));
+      await framework.registerProgram("sum", p.build());
+      const functionId = await submit(signers.alice);
+      const encrypted = await fhevm
+        .createEncryptedInput(frameworkAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await framework
+        .connect(signers.alice)
+        .executeProgramWithInputs(
+          1,
+          functionId,
+          encrypted.handles,
+          encrypted.inputProof,
+        );
+
+      const receipt = await (
+        await framework.connect(signers.alice).requestExecutionDecryption(1, {
+          value: DECRYPTION_PRICE_PER_HANDLE,
+        })
+      ).wait();
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+      expect((await framework.escrows(request.requestID)).amount).to.eq(
+        DECRYPTION_PRICE_PER_HANDLE,
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await framework.getRevealedResult(1)).value).to.eq(42n);
+      expect(await framework.collectedFees()).to.eq(
+        SUBMISSION_PRICE + DECRYPTION_PRICE_PER_HANDLE,
+      );
+    });
+
+    it("refunds decryptions that expire and rejects the late callback", async function () {
+      const functionId = await submit(signers.alice);
+      const requestId = await requestDecryption(signers.alice, functionId);
+
+      await expect(framework.refundDecryption(requestId)).to.be.revertedWith(
+        "Decryption not expired",
+      );
+
+      await time.increase(DECRYPTION_TIMEOUT + 1n);
+      await expect(framework.connect(signers.bob).refundDecryption(requestId))
+        .to.emit(framework, "EscrowRefunded")
+        .withArgs(
+          requestId,
+          signers.alice.address,
+          2n * DECRYPTION_PRICE_PER_HANDLE,
+        );
+      expect(await framework.balances(signers.alice.address)).to.eq(
+        2n * DECRYPTION_PRICE_PER_HANDLE,
+      );
+      await expect(framework.refundDecryption(requestId)).to.be.revertedWith(
+        "No escrow",
+      );
+
+      // The oracle's late answer for the refunded request is rejected.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect((await framework.getDecryptedFunction(functionId)).executed).to.eq(
+        false,
+      );
+      expect(await framework.collectedFees()).to.eq(SUBMISSION_PRICE);
+    });
+  });
+
+  describe("withdrawals", function () {
+    it("lets accounts withdraw their unused balance", async function () {
+      await framework.connect(signers.alice).deposit({ value: 100 });
+
+      await expect(
+        framework.connect(signers.alice).withdraw(101),
+      ).to.be.revertedWith("Insufficient balance");
+      await expect(
+        framework.connect(signers.alice).withdraw(60),
+      ).to.changeEtherBalances([signers.alice, framework], [60, -60]);
+      expect(await framework.balances(signers.alice.address)).to.eq(40n);
+    });
+
+    it("lets the admin withdraw collected fees only", async function () {
+      await submit(signers.alice);
+
+      await expect(
+        framework.connect(signers.alice).withdrawFees(signers.alice.address, 1),
+      ).to.be.revertedWith("Not admin");
+      await expect(
+        framework.withdrawFees(signers.bob.address, SUBMISSION_PRICE + 1n),
+      ).to.be.revertedWith("Insufficient fees");
+
+      await expect(
+        framework.withdrawFees(signers.bob.address, SUBMISSION_PRICE),
+      ).to.changeEtherBalances(
+        [signers.bob, framework],
+        [SUBMISSION_PRICE, -SUBMISSION_PRICE],
+      );
+      expect(await framework.collectedFees()).to.eq(0n);
+    });
+  });
+
+  describe("billing report", function () {
+    it("rebuilds per-account spend from events", async function () {
+      const alice = FheServerlessClient.connect(
+        frameworkAddress,
+        signers.alice,
+      );
+      const bob = FheServerlessClient.connect(frameworkAddress, signers.bob);
+
+      // The client tops up whatever the balance is short of the price.
+      const encrypted = await encrypt(signers.alice);
+      const { functionId } = await alice.submitEncryptedFunction(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+      );
+      const released = await alice.requestFunctionDecryption(functionId);
+      expect(released.escrowed).to.eq(2n * DECRYPTION_PRICE_PER_HANDLE);
+      await fhevm.awaitDecryptionOracle();
+
+      await bob.deposit(ethers.parseEther("1"));
+      const bobEncrypted = await encrypt(signers.bob);
+      const bobFunction = await bob.submitEncryptedFunction(
+        bobEncrypted.handles[0],
+        bobEncrypted.handles[1],
+        bobEncrypted.inputProof,
+      );
+      const refunded = await bob.requestFunctionDecryption(
+        bobFunction.functionId,
+      );
+      await time.increase(DECRYPTION_TIMEOUT + 1n);
+      await bob.refundDecryption(refunded.requestId);
+      await bob.withdraw(ethers.parseEther("0.5"));
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+
+      await framework.withdrawFees(signers.admin.address, SUBMISSION_PRICE);
+
+      const report = await alice.getBillingReport();
+      const aliceBilling = report.accounts.find(
+        (a) => a.account === signers.alice.address,
+      )!;
+      const bobBilling = report.accounts.find(
+        (a) => a.account === signers.bob.address,
+      )!;
+
+      expect(aliceBilling.charged.Submission).to.eq(SUBMISSION_PRICE);
+      expect(aliceBilling.charged.Decryption).to.eq(
+        2n * DECRYPTION_PRICE_PER_HANDLE,
+      );
+      expect(aliceBilling.spent).to.eq(
+        SUBMISSION_PRICE + 2n * DECRYPTION_PRICE_PER_HANDLE,
+      );
+      expect(aliceBilling.inEscrow).to.eq(0n);
+
+      expect(bobBilling.refunded).to.eq(2n * DECRYPTION_PRICE_PER_HANDLE);
+      expect(bobBilling.spent).to.eq(SUBMISSION_PRICE);
+      expect(bobBilling.withdrawn).to.eq(ethers.parseEther("0.5"));
+
+      for (const entry of [aliceBilling, bobBilling]) {
+        expect(entry.balance).to.eq(await framework.balances(entry.account));
+      }
+      expect(report.fees - report.feesWithdrawn).to.eq(
+        await framework.collectedFees(),
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  MANIFEST_VERSION,
+  abiHash,
+  manifestPath,
+  readManifest,
+  updateManifest,
+} from "../src/deploy/manifest";
+
+describe("deployment manifests", function () {
+  const target = {
+    chainId: 31337,
+    network: "localhost",
+    rpcUrl: "http://127.0.0.1:8545",
+    deployer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+  };
+  const deployment = (address: string) => ({
+    address,
+    transactionHash: null,
+    blockNumber: 1,
+    abiHash: abiHash([]),
+  });
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes one manifest per chain", async function () {
+    updateManifest(dir, target, { UniversalAdapter: deployment("0x01") });
+
+    const manifest = readManifest(dir, 31337);
+    expect(manifest?.version).to.eq(MANIFEST_VERSION);
+    expect(manifest?.rpcUrl).to.eq(target.rpcUrl);
+    expect(manifest?.contracts.UniversalAdapter.address).to.eq("0x01");
+    expect(readManifest(dir, 11155111)).to.eq(undefined);
+  });
+
+  it("keeps contracts that were not redeployed", async function () {
+    updateManifest(dir, target, {
+      UniversalAdapter: deployment("0x01"),
+      FheServerlessFramework: deployment("0x02"),
+    });
+    updateManifest(dir, target, { FheServerlessFramework: deployment("0x03") });
+
+    const manifest = readManifest(dir, 31337);
+    expect(manifest?.contracts.UniversalAdapter.address).to.eq("0x01");
+    expect(manifest?.contracts.FheServerlessFramework.address).to.eq("0x03");
+  });
+
+  it("ignores manifests of another version", async function () {
+    fs.writeFileSync(
+      manifestPath(dir, 31337),
+      JSON.stringify({ version: MANIFEST_VERSION + 1, contracts: {} }),
+    );
+    expect(readManifest(dir, 31337)).to.eq(undefined);
+  });
+});
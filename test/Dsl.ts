@@ -0,0 +1,323 @@
+import { expect } from "chai";
+
+import {
+  DslCompileError,
+  Instruction,
+  ProgramBuilder,
+  compileExpression,
+  constant,
+  formatReport,
+} from "../src/sdk";
+
+function program(build: (p: ProgramBuilder) => void): Instruction[] {
+  const p = new ProgramBuilder();
+  build(p);
+  return p.build();
+}
+
+function compileError(source: string, inputs?: string[]): DslCompileError {
+  try {
+    compileExpression(source, { inputs });
+  } catch (e) {
+    expect(e).to.be.instanceOf(DslCompileError);
+    return e as DslCompileError;
+  }
+  expect.fail(`'${source}' compiled`);
+}
+
+describe("Expression compiler", function () {
+  describe("instructions", function () {
+    const CASES: {
+      name: string;
+      source: string;
+      inputs?: string[];
+      expected: (p: ProgramBuilder) => void;
+    }[] = [
+      {
+        name: "a ternary over arithmetic",
+        source: "x * 3 + p > 100 ? x : 0",
+        expected: (p) => {
+          const over = p.gt(
+            p.add(p.mul(p.input, constant(3)), p.parameters),
+            constant(100),
+          );
+          p.select(over, p.input, p.const(0));
+        },
+      },
+      {
+        name: "shifts binding looser than arithmetic",
+        source: "x + p * 2 << 1",
+        expected: (p) =>
+          p.shl(p.add(p.input, p.mul(p.parameters, constant(2))), constant(1)),
+      },
+      {
+        name: "bit ops by precedence",
+        source: "x & p | x ^ p",
+        expected: (p) =>
+          p.or(p.and(p.input, p.parameters), p.xor(p.input, p.parameters)),
+      },
+      {
+        name: "rotations, unary and encrypted shift amounts",
+        source: "rotl(x, p) ^ ~x >> 3",
+        expected: (p) => {
+          const rotated = p.rotl(p.input, p.parameters);
+          p.xor(rotated, p.shr(p.not(p.input), constant(3)));
+        },
+      },
+      {
+        name: "folded constants",
+        source: "(2 + 3) * 4 + x",
+        expected: (p) => p.add(p.input, constant(20)),
+      },
+      {
+        name: "a fully constant expression",
+        source: "1 << 4 | -1 & 3",
+        expected: (p) => p.const(19),
+      },
+      {
+        name: "a constant condition",
+        source: "~0 == 4294967295 ? x : p",
+        expected: (p) => p.add(p.input, constant(0)),
+      },
+      {
+        name: "a comparison with the constant on the left",
+        source: "uint(3 < x)",
+        expected: (p) => p.cast(p.gt(p.input, constant(3))),
+      },
+      {
+        name: "boolean branches as logic",
+        source: "x > 1 ? p > 2 : false",
+        expected: (p) =>
+          p.cast(
+            p.and(p.gt(p.input, constant(1)), p.gt(p.parameters, constant(2))),
+          ),
+      },
+      {
+        name: "equality of booleans",
+        source: "x > 1 == p > 1",
+        expected: (p) =>
+          p.cast(
+            p.not(
+              p.xor(
+                p.gt(p.input, constant(1)),
+                p.gt(p.parameters, constant(1)),
+              ),
+            ),
+          ),
+      },
+      {
+        name: "common subexpressions once",
+        source: "(x + p) * (x + p)",
+        expected: (p) => {
+          const sum = p.add(p.input, p.parameters);
+          p.mul(sum, sum);
+        },
+      },
+      {
+        name: "only the bindings the result needs",
+        source: "let unused = x * p; let y = x + 1; y",
+        expected: (p) => p.add(p.input, constant(1)),
+      },
+      {
+        name: "named inputs",
+        source: "min(income - limit, cap)",
+        inputs: ["income", "limit", "cap"],
+        expected: (p) => p.min(p.sub(p.arg(0), p.arg(1)), p.arg(2)),
+      },
+    ];
+
+    for (const { name, source, inputs, expected } of CASES) {
+      it(`compiles ${name}`, function () {
+        expect(compileExpression(source, { inputs }).instructions).to.deep.eq(
+          program(expected),
+        );
+      });
+    }
+  });
+
+  describe("report", function () {
+    it("counts ops and executor calls", function () {
+      const { report } = compileExpression("x * 3 + p > 100 ? x : 0");
+      expect(report).to.deep.eq({
+        instructionCount: 5,
+        maxInstructions: 64,
+        ops: { Mul: 1, Add: 1, Gt: 1, Const: 1, Select: 1 },
+        executorCalls: {
+          fheMul: 1,
+          fheAdd: 1,
+          fheGt: 1,
+          trivialEncrypt: 1,
+          fheIfThenElse: 1,
+        },
+        warnings: [],
+      });
+    });
+
+    it("counts the cast of encrypted shift amounts and warns about it", function () {
+      const { report } = compileExpression("rotl(x, p) ^ ~x >> 3");
+      expect(report.ops).to.deep.eq({ Rotl: 1, Not: 1, Shr: 1, Xor: 1 });
+      expect(report.executorCalls).to.deep.eq({
+        fheRotl: 1,
+        cast: 1,
+        fheNot: 1,
+        fheShr: 1,
+        fheBitXor: 1,
+      });
+      expect(report.warnings).to.deep.eq([
+        "encrypted shift amount at line 1, column 9 is truncated to euint8",
+      ]);
+    });
+
+    it("warns about unused bindings", function () {
+      const { report } = compileExpression(
+        "let unused = x * p; let y = x + 1; y",
+      );
+      expect(report.instructionCount).to.eq(1);
+      expect(report.warnings).to.deep.eq(["'unused' is never used"]);
+    });
+
+    it("formats the report", function () {
+      expect(formatReport(compileExpression("x + 1").report)).to.eq(
+        "1 of 64 instructions\n  Add      1\nIFHEVMExecutor calls: fheAdd x1",
+      );
+    });
+  });
+
+  describe("errors", function () {
+    const TOO_LONG = "x" + " + 1".repeat(65);
+
+    const ERRORS: [
+      source: string,
+      reason: string,
+      start: number,
+      end: number,
+    ][] = [
+      ["x + 0x_", "invalid number literal '0x_'", 4, 7],
+      ["x + 0x", "invalid number literal '0x'", 4, 6],
+      ["x + 0x_ff", "invalid number literal '0x_ff'", 4, 9],
+      ["x + 0xff_", "invalid number literal '0xff_'", 4, 9],
+      ["x + 1__000", "invalid number literal '1__000'", 4, 10],
+      ["x + 1000_", "invalid number literal '1000_'", 4, 9],
+      ["x + 12ab", "invalid number literal '12ab'", 4, 8],
+      ["x $ 1", "unexpected character '$'", 2, 3],
+      ["", "expected an expression", 0, 0],
+      [
+        "let a = x;",
+        "expected a result expression after the let bindings",
+        10,
+        10,
+      ],
+      ["x +", "unexpected end of expression", 3, 3],
+      ["(x + 1", "expected ')' but found end of expression", 6, 6],
+      ["x 1", "unexpected '1' after the result expression", 2, 3],
+      ["let 1 = x; x", "expected a name after 'let'", 4, 5],
+      [
+        "y + 1",
+        "unknown name 'y', expected one of x, input, p, params, parameters",
+        0,
+        1,
+      ],
+      [
+        "4294967296 + x",
+        "literal 4294967296 does not fit in uint32 (max 4294967295)",
+        0,
+        10,
+      ],
+      [
+        "x / p",
+        "operator '/' needs a constant divisor, dividing by an encrypted value is not supported",
+        4,
+        5,
+      ],
+      ["x % 0", "division by zero", 4, 5],
+      ["x << 256", "shift amount 256 does not fit in 8 bits (max 255)", 5, 8],
+      [
+        "x + (p > 1)",
+        "operator '+' expects euint32 operands, got ebool",
+        4,
+        11,
+      ],
+      [
+        "!x",
+        "operator '!' expects ebool operands, got euint32 (compare it, e.g. 'x != 0')",
+        1,
+        2,
+      ],
+      [
+        "x == true",
+        "operator '==' expects operands of the same type, got euint32 and a bool constant",
+        0,
+        9,
+      ],
+      [
+        "x & (p > 1)",
+        "operator '&' expects operands of the same type, got euint32 and ebool",
+        0,
+        11,
+      ],
+      [
+        "x ? 1 : 2",
+        "condition must be an ebool, got euint32 (compare it, e.g. 'x != 0')",
+        0,
+        1,
+      ],
+      [
+        "x > 1 ? x : true",
+        "both branches must have the same type, got euint32 and a bool constant",
+        0,
+        16,
+      ],
+      [
+        "foo(x)",
+        "unknown function 'foo', expected one of min, max, rotl, rotr, select, uint",
+        0,
+        6,
+      ],
+      ["min(x)", "min() expects 2 arguments, got 1", 0, 6],
+      ["let x = 1; x", "'x' is a built-in name", 0, 5],
+      ["let a = 1; let a = 2; a", "'a' is already defined", 11, 16],
+      [
+        TOO_LONG,
+        "program needs 65 instructions, the contract allows 64",
+        0,
+        TOO_LONG.length,
+      ],
+    ];
+
+    for (const [source, reason, start, end] of ERRORS) {
+      it(`reports ${reason}`, function () {
+        const error = compileError(source);
+        expect(error.reason).to.eq(reason);
+        expect(error.span).to.deep.eq({ start, end });
+      });
+    }
+
+    it("reports input names bound again", function () {
+      const error = compileError("let limit = 3; x + limit", ["limit"]);
+      expect(error.reason).to.eq("'limit' is an input name");
+      expect(error.span).to.deep.eq({ start: 0, end: 9 });
+    });
+
+    it("underlines the span in the message", function () {
+      expect(compileError("x + 0x_").message).to.eq(
+        "invalid number literal '0x_' (line 1, column 5)\n" +
+          "  x + 0x_\n" +
+          "      ^^^",
+      );
+
+      const error = compileError("let a = x;\nlet b = a + 1;\nb * q");
+      expect([error.line, error.column]).to.deep.eq([3, 5]);
+      expect(error.message).to.eq(
+        "unknown name 'q', expected one of x, input, p, params, parameters, a, b (line 3, column 5)\n" +
+          "  b * q\n" +
+          "      ^",
+      );
+    });
+
+    it("accepts digit separators between digits", function () {
+      expect(compileExpression("x + 1_000 + 0xff_ff").instructions).to.deep.eq(
+        program((p) => p.add(p.add(p.input, constant(1000)), constant(0xffff))),
+      );
+    });
+  });
+});
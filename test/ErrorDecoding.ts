@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { AbiCoder, Interface, id } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  AlreadyExecutedError,
+  ContractRevertError,
+  FHE_SERVERLESS_FRAMEWORK_ABI,
+  FheServerlessClient,
+  FheServerlessError,
+  FunctionNotFoundError,
+  InvalidRequestError,
+  RpcError,
+  UnrecognizedChainError,
+  UserRejectedError,
+  WalletInternalError,
+  decodeError,
+} from "../src/sdk";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+// Revert data as nodes return it for require(false, reason).
+function errorString(reason: string): string {
+  return (
+    id("Error(string)").slice(0, 10) +
+    coder.encode(["string"], [reason]).slice(2)
+  );
+}
+
+describe("Error decoding", function () {
+  describe("contract reverts", function () {
+    let client: FheServerlessClient;
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+      const [, alice] = await ethers.getSigners();
+      const framework = await (
+        await ethers.getContractFactory("FheServerlessFramework")
+      ).deploy();
+      client = FheServerlessClient.connect(await framework.getAddress(), alice);
+    });
+
+    it("maps the framework's reasons to typed errors", async function () {
+      await expect(
+        client.requestExecutionStatsDecryption("unknown"),
+      ).to.be.rejectedWith(FunctionNotFoundError, "No function with this id");
+
+      const error = await client.withdraw(1n).catch((e) => e);
+      expect(error).to.be.instanceOf(ContractRevertError);
+      expect(error.reason).to.eq("Insufficient balance");
+      expect(error.hint).to.match(/Deposit more/);
+      expect(error.retryable).to.eq(false);
+      expect(error.cause).to.exist;
+    });
+
+    it("reports a second decryption as already executed", async function () {
+      const [, alice] = await ethers.getSigners();
+      const encrypted = await fhevm
+        .createEncryptedInput(client.address, alice.address)
+        .add32(1)
+        .add32(2)
+        .encrypt();
+      const { functionId } = await client.submitEncryptedFunction(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+      );
+      await client.requestFunctionDecryption(functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        client.requestFunctionDecryption(functionId),
+      ).to.be.rejectedWith(AlreadyExecutedError);
+    });
+  });
+
+  describe("wallet and RPC errors", function () {
+    it("decodes EIP-1193 codes", function () {
+      expect(
+        decodeError({
+          code: 4001,
+          message: "User denied transaction signature",
+        }),
+      ).to.be.instanceOf(UserRejectedError);
+      expect(
+        decodeError({ code: 4902, message: "Unrecognized chain ID" }),
+      ).to.be.instanceOf(UnrecognizedChainError);
+
+      const internal = decodeError({
+        code: -32603,
+        message: "Internal JSON-RPC error.",
+      });
+      expect(internal).to.be.instanceOf(WalletInternalError);
+      expect(internal.retryable).to.eq(true);
+    });
+
+    it("finds revert data wrapped by the wallet", function () {
+      // MetaMask reports reverts as -32603 with the node's error inside.
+      const wrapped = {
+        code: "UNKNOWN_ERROR",
+        error: {
+          code: -32603,
+          message: "Internal JSON-RPC error.",
+          data: { code: 3, data: errorString("Invalid request") },
+        },
+      };
+      expect(decodeError(wrapped)).to.be.instanceOf(InvalidRequestError);
+
+      const panic =
+        id("Panic(uint256)").slice(0, 10) +
+        coder.encode(["uint256"], [0x11]).slice(2);
+      expect(decodeError({ data: panic })).to.include({
+        reason: "Panic(0x11): arithmetic overflow",
+      });
+    });
+
+    it("decodes custom errors of the given interface", function () {
+      const iface = new Interface(FHE_SERVERLESS_FRAMEWORK_ABI);
+      const data = iface.encodeErrorResult("InvalidKMSSignatures", []);
+
+      const decoded = decodeError({ data }, iface);
+      expect(decoded).to.be.instanceOf(ContractRevertError);
+      expect(decoded).to.include({ reason: "InvalidKMSSignatures" });
+    });
+
+    it("marks network failures as retryable", function () {
+      const error = decodeError(
+        new Error("connect ECONNREFUSED 127.0.0.1:8545"),
+      );
+      expect(error).to.be.instanceOf(RpcError);
+      expect(error.retryable).to.eq(true);
+
+      const other = decodeError(new Error("something else"));
+      expect(other).to.be.instanceOf(FheServerlessError);
+      expect(other.message).to.eq("something else");
+    });
+  });
+});
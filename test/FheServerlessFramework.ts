@@ -0,0 +1,1152 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  FheServerlessClient,
+  FunctionStatus,
+  Instruction,
+  Op,
+  ProgramBuilder,
+  UserDecryptionInstance,
+  UserDecryptor,
+  compileExpression,
+  constant,
+} from "../src/sdk";
+import {
+  FheServerlessFramework,
+  FheServerlessFramework__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "FheServerlessFramework",
+  )) as FheServerlessFramework__factory;
+  const framework = (await factory.deploy()) as FheServerlessFramework;
+  const frameworkAddress = await framework.getAddress();
+
+  return { framework, frameworkAddress };
+}
+
+describe("FheServerlessFramework", function () {
+  let signers: Signers;
+  let framework: FheServerlessFramework;
+  let frameworkAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle and ciphertext inspection only exist in mock mode.
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite cannot run on Sepolia Testnet, it requires the fhevm mock",
+      );
+      this.skip();
+    }
+
+    ({ framework, frameworkAddress } = await deployFixture());
+  });
+
+  async function submit(
+    signer: HardhatEthersSigner,
+    input: number,
+    parameters: number,
+  ): Promise<bigint> {
+    const encrypted = await fhevm
+      .createEncryptedInput(frameworkAddress, signer.address)
+      .add32(input)
+      .add32(parameters)
+      .encrypt();
+
+    const tx = await framework
+      .connect(signer)
+      .submitEncryptedFunction(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+      );
+    await tx.wait();
+
+    return framework.functionCount();
+  }
+
+  async function requestDecryption(
+    signer: HardhatEthersSigner,
+    functionId: bigint,
+  ): Promise<bigint> {
+    const tx = await framework
+      .connect(signer)
+      .requestFunctionDecryption(functionId);
+    const receipt = await tx.wait();
+
+    const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+    return request.requestID;
+  }
+
+  describe("submission", function () {
+    it("stores the encrypted function with its owner", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      expect(functionId).to.eq(1n);
+
+      const stored = await framework.encryptedFunctions(functionId);
+      expect(stored.id).to.eq(functionId);
+      expect(stored.owner).to.eq(signers.alice.address);
+      expect(stored.timestamp).to.be.gt(0n);
+
+      const [input, parameters, executed] =
+        await framework.getDecryptedFunction(functionId);
+      expect(input).to.eq(0n);
+      expect(parameters).to.eq(0n);
+      expect(executed).to.eq(false);
+    });
+
+    it("emits FunctionSubmitted with an incrementing id", async function () {
+      await submit(signers.alice, 1, 2);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(frameworkAddress, signers.bob.address)
+        .add32(3)
+        .add32(4)
+        .encrypt();
+
+      await expect(
+        framework
+          .connect(signers.bob)
+          .submitEncryptedFunction(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          ),
+      ).to.emit(framework, "FunctionSubmitted");
+      expect(await framework.functionCount()).to.eq(2n);
+    });
+
+    it("lets the submitter decrypt its own handles", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      const stored = await framework.encryptedFunctions(functionId);
+
+      const input = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedInput,
+        frameworkAddress,
+        signers.alice,
+      );
+      const parameters = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedParameters,
+        frameworkAddress,
+        signers.alice,
+      );
+      expect(input).to.eq(41n);
+      expect(parameters).to.eq(9n);
+    });
+
+    it("rejects an input proof made for another account", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(frameworkAddress, signers.alice.address)
+        .add32(1)
+        .add32(2)
+        .encrypt();
+
+      await expect(
+        framework
+          .connect(signers.bob)
+          .submitEncryptedFunction(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("access", function () {
+    it("only grants access from the function owner", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      expect(
+        await framework.hasFunctionAccess(functionId, signers.bob.address),
+      ).to.eq(false);
+
+      await expect(
+        framework
+          .connect(signers.bob)
+          .grantFunctionAccess(functionId, signers.bob.address),
+      ).to.be.revertedWith("Not function owner");
+
+      await expect(
+        framework
+          .connect(signers.alice)
+          .grantFunctionAccess(functionId, signers.bob.address),
+      )
+        .to.emit(framework, "FunctionAccessGranted")
+        .withArgs(functionId, signers.bob.address);
+      expect(
+        await framework.hasFunctionAccess(functionId, signers.bob.address),
+      ).to.eq(true);
+    });
+
+    it("rejects unknown functions and the zero address", async function () {
+      await expect(
+        framework.grantFunctionAccess(1, signers.bob.address),
+      ).to.be.revertedWith("Function not found");
+
+      const functionId = await submit(signers.alice, 1, 2);
+      await expect(
+        framework
+          .connect(signers.alice)
+          .grantFunctionAccess(functionId, ethers.ZeroAddress),
+      ).to.be.revertedWith("Invalid account");
+    });
+    it("only lets the owner bind the execution schema", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      const hash = ethers.id('{"programId":"1","parameters":[]}');
+      expect(await framework.functionSchemas(functionId)).to.eq(
+        ethers.ZeroHash,
+      );
+
+      await expect(
+        framework.connect(signers.bob).setFunctionSchema(functionId, hash),
+      ).to.be.revertedWith("Not function owner");
+
+      const client = FheServerlessClient.connect(
+        frameworkAddress,
+        signers.alice,
+      );
+      const event = await client.setFunctionSchema(functionId, hash);
+      expect(event.functionId).to.eq(functionId);
+      expect(event.schemaHash).to.eq(hash);
+      expect(await client.getFunctionSchemaHash(functionId)).to.eq(hash);
+    });
+  });
+
+  describe("user decryption", function () {
+    it("decrypts the function for its owner and granted accounts", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      await (
+        await framework
+          .connect(signers.alice)
+          .grantFunctionAccess(functionId, signers.bob.address)
+      ).wait();
+
+      for (const signer of [signers.alice, signers.bob]) {
+        const client = FheServerlessClient.connect(frameworkAddress, signer);
+        const decryptor = new UserDecryptor(fhevm, signer);
+        expect(
+          await client.userDecryptFunction(functionId, decryptor),
+        ).to.deep.eq({ input: 41, parameters: 9 });
+      }
+    });
+
+    it("maps each handle to its value in the order asked", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      const { encryptedInput, encryptedParameters } =
+        await FheServerlessClient.connect(
+          frameworkAddress,
+          signers.alice,
+        ).getEncryptedFunction(functionId);
+      const decryptor = new UserDecryptor(fhevm, signers.alice);
+
+      expect(
+        await decryptor.decryptUint(frameworkAddress, [
+          encryptedParameters,
+          encryptedInput,
+          encryptedParameters,
+        ]),
+      ).to.deep.eq([9n, 41n, 9n]);
+    });
+
+    it("rejects accounts the ACL does not allow", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      const client = FheServerlessClient.connect(frameworkAddress, signers.bob);
+
+      await expect(
+        client.userDecryptFunction(
+          functionId,
+          new UserDecryptor(fhevm, signers.bob),
+        ),
+      ).to.be.rejectedWith(
+        `User ${signers.bob.address} is not authorized to user decrypt handle`,
+      );
+    });
+
+    it("signs one permit per contract set until it expires", async function () {
+      let signatures = 0;
+      const signer = Object.assign(Object.create(signers.alice), {
+        signTypedData: (
+          ...args: Parameters<typeof signers.alice.signTypedData>
+        ) => {
+          signatures += 1;
+          return signers.alice.signTypedData(...args);
+        },
+      }) as HardhatEthersSigner;
+
+      const decryptor = new UserDecryptor(fhevm, signer, { durationDays: 2 });
+      const before = Math.floor(Date.now() / 1000);
+      const session = await decryptor.session([frameworkAddress.toLowerCase()]);
+      expect(session.userAddress).to.eq(signers.alice.address);
+      expect(session.contractAddresses).to.deep.eq([
+        ethers.getAddress(frameworkAddress),
+      ]);
+      expect(session.durationDays).to.eq(2);
+      expect(session.startTimestamp).to.be.within(before, before + 5);
+
+      // The permit is the EIP-712 message the KMS checks: it names the
+      // keypair, the contracts and the validity window.
+      const eip712 = fhevm.createEIP712(
+        session.publicKey,
+        session.contractAddresses,
+        session.startTimestamp,
+        session.durationDays,
+      );
+      expect(
+        ethers.verifyTypedData(
+          eip712.domain,
+          {
+            UserDecryptRequestVerification:
+              eip712.types.UserDecryptRequestVerification,
+          },
+          eip712.message,
+          session.signature,
+        ),
+      ).to.eq(signers.alice.address);
+
+      expect(await decryptor.session([frameworkAddress])).to.eq(session);
+      expect(signatures).to.eq(1);
+
+      // A permit about to expire is replaced, with a new keypair.
+      const expiring = new UserDecryptor(fhevm, signer, { durationDays: 0 });
+      const first = await expiring.session([frameworkAddress]);
+      const second = await expiring.session([frameworkAddress]);
+      expect(second).to.not.eq(first);
+      expect(second.publicKey).to.not.eq(first.publicKey);
+      expect(signatures).to.eq(3);
+    });
+
+    it("fails for handles the KMS did not return", async function () {
+      const instance: UserDecryptionInstance = {
+        generateKeypair: () => fhevm.generateKeypair(),
+        createEIP712: (...args) => fhevm.createEIP712(...args),
+        userDecrypt: async () => ({}),
+      };
+      const decryptor = new UserDecryptor(instance, signers.alice);
+
+      await expect(
+        decryptor.decrypt(frameworkAddress, [ethers.ZeroHash]),
+      ).to.be.rejectedWith(`Handle ${ethers.ZeroHash} was not decrypted`);
+    });
+  });
+
+  describe("status", function () {
+    // FunctionStatus: Pending, Verified, Rejected, Deprecated
+    const [PENDING, VERIFIED, REJECTED, DEPRECATED] = [0, 1, 2, 3];
+
+    it("lets reviewers verify pending functions and records the actor", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      expect(await framework.functionStatus(functionId)).to.eq(PENDING);
+
+      await expect(
+        framework
+          .connect(signers.bob)
+          .setFunctionStatus(functionId, VERIFIED, "looks fine"),
+      ).to.be.revertedWith("Not reviewer");
+
+      await expect(framework.setReviewer(signers.bob.address, true))
+        .to.emit(framework, "ReviewerUpdated")
+        .withArgs(signers.bob.address, true);
+      await expect(
+        framework
+          .connect(signers.bob)
+          .setFunctionStatus(functionId, VERIFIED, "looks fine"),
+      )
+        .to.emit(framework, "FunctionStatusChanged")
+        .withArgs(
+          functionId,
+          PENDING,
+          VERIFIED,
+          signers.bob.address,
+          "looks fine",
+        );
+      expect(await framework.functionStatus(functionId)).to.eq(VERIFIED);
+    });
+
+    it("only allows the transitions of the review flow", async function () {
+      const verified = await submit(signers.alice, 1, 2);
+      const rejected = await submit(signers.alice, 3, 4);
+      await framework.setFunctionStatus(verified, VERIFIED, "");
+      await framework.setFunctionStatus(rejected, REJECTED, "spam");
+
+      await expect(
+        framework.setFunctionStatus(verified, PENDING, ""),
+      ).to.be.revertedWith("Invalid transition");
+      await expect(
+        framework.setFunctionStatus(verified, REJECTED, ""),
+      ).to.be.revertedWith("Invalid transition");
+      await expect(
+        framework.setFunctionStatus(rejected, VERIFIED, ""),
+      ).to.be.revertedWith("Invalid transition");
+      await expect(
+        framework.setFunctionStatus(99, VERIFIED, ""),
+      ).to.be.revertedWith("Function not found");
+
+      // The owner may retire its own verified function, but not review it.
+      const own = await submit(signers.alice, 5, 6);
+      await expect(
+        framework.connect(signers.alice).setFunctionStatus(own, VERIFIED, ""),
+      ).to.be.revertedWith("Not reviewer");
+      await expect(
+        framework
+          .connect(signers.alice)
+          .setFunctionStatus(verified, DEPRECATED, "superseded"),
+      ).to.emit(framework, "FunctionStatusChanged");
+      await expect(
+        framework.setFunctionStatus(verified, DEPRECATED, ""),
+      ).to.be.revertedWith("Invalid transition");
+    });
+
+    it("only lets the admin manage reviewers", async function () {
+      await expect(
+        framework
+          .connect(signers.alice)
+          .setReviewer(signers.alice.address, true),
+      ).to.be.revertedWith("Not admin");
+      await expect(
+        framework.setReviewer(ethers.ZeroAddress, true),
+      ).to.be.revertedWith("Invalid account");
+
+      await framework.setReviewer(signers.bob.address, true);
+      await framework.setReviewer(signers.bob.address, false);
+      expect(await framework.reviewers(signers.bob.address)).to.eq(false);
+    });
+
+    it("returns the audit trail through the SDK", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      const admin = FheServerlessClient.connect(
+        frameworkAddress,
+        signers.deployer,
+      );
+      await admin.setFunctionStatus(
+        functionId,
+        FunctionStatus.Verified,
+        "audited",
+      );
+      await admin.setFunctionStatus(
+        functionId,
+        FunctionStatus.Deprecated,
+        "replaced by v2",
+      );
+
+      const history = await admin.getStatusHistory(functionId);
+      expect(
+        history.map(({ from, to, reason }) => [from, to, reason]),
+      ).to.deep.eq([
+        [FunctionStatus.Pending, FunctionStatus.Verified, "audited"],
+        [FunctionStatus.Verified, FunctionStatus.Deprecated, "replaced by v2"],
+      ]);
+      expect(history[0].actor).to.eq(signers.deployer.address);
+      expect(await admin.getFunctionStatus(functionId)).to.eq(
+        FunctionStatus.Deprecated,
+      );
+    });
+  });
+
+  describe("decryption", function () {
+    it("reveals the function through the oracle callback", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+
+      await expect(
+        framework.connect(signers.alice).requestFunctionDecryption(functionId),
+      )
+        .to.emit(framework, "DecryptionRequested")
+        .withArgs(functionId);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [input, parameters, executed] =
+        await framework.getDecryptedFunction(functionId);
+      expect(input).to.eq(41n);
+      expect(parameters).to.eq(9n);
+      expect(executed).to.eq(true);
+    });
+
+    it("decodes both cleartexts of the oracle tuple", async function () {
+      // Regression: the callback used to decode a dynamic uint32[] while the
+      // oracle encodes one static word per handle.
+      const functionId = await submit(signers.alice, 4294967295, 7);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [input, parameters] =
+        await framework.getDecryptedFunction(functionId);
+      expect(input).to.eq(4294967295n);
+      expect(parameters).to.eq(7n);
+    });
+
+    it("handles the first callback while no stats exist yet", async function () {
+      // Regression: stats were keyed by functionList[functionId % functionList.length],
+      // which divided by zero on the first callback of a fresh deployment.
+      expect(await framework.getExecutionStatsNames()).to.deep.eq([]);
+
+      const functionId = await submit(signers.alice, 5, 6);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await framework.getExecutionStatsNames()).to.deep.eq(["fn_1"]);
+      expect((await framework.getDecryptedFunction(functionId)).executed).to.eq(
+        true,
+      );
+    });
+
+    it("emits FunctionExecuted from the callback", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      await requestDecryption(signers.alice, functionId);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await framework.queryFilter(
+        framework.filters.FunctionExecuted(functionId),
+        fromBlock,
+      );
+      expect(events).to.have.length(1);
+    });
+
+    it("only lets the owner request decryption", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+
+      await expect(
+        framework.connect(signers.bob).requestFunctionDecryption(functionId),
+      ).to.be.revertedWith("Not function owner");
+      await expect(
+        framework.requestFunctionDecryption(functionId + 1n),
+      ).to.be.revertedWith("Function not found");
+    });
+
+    it("reverts with Already executed once the function is revealed", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        framework.connect(signers.alice).requestFunctionDecryption(functionId),
+      ).to.be.revertedWith("Already executed");
+    });
+
+    it("reverts with Invalid request for unknown request ids", async function () {
+      await expect(
+        framework.decryptFunction(12345, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+      await expect(
+        framework.decryptExecutionStats(12345, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects callbacks without a valid KMS proof", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      const requestId = await requestDecryption(signers.alice, functionId);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint32"],
+        [999, 999],
+      );
+      await expect(framework.decryptFunction(requestId, cleartexts, "0x")).to.be
+        .reverted;
+
+      await fhevm.awaitDecryptionOracle();
+      const [input] = await framework.getDecryptedFunction(functionId);
+      expect(input).to.eq(1n);
+    });
+
+    it("does not accept a fulfilled request again", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      const requestId = await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        framework.decryptFunction(requestId, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+  });
+
+  describe("execution stats", function () {
+    async function revealStats(fnName: string) {
+      await (await framework.requestExecutionStatsDecryption(fnName)).wait();
+      await fhevm.awaitDecryptionOracle();
+      return framework.getRevealedExecutionStats(fnName);
+    }
+
+    it("counts every fulfilled decryption of a function", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+
+      // Both requests are made before the oracle answers, so both callbacks land.
+      await requestDecryption(signers.alice, functionId);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [count, revealedAtBlock] = await revealStats("fn_1");
+      expect(count).to.eq(2n);
+      expect(revealedAtBlock).to.be.gt(0n);
+    });
+
+    it("keeps a separate counter per function", async function () {
+      const first = await submit(signers.alice, 1, 2);
+      const second = await submit(signers.bob, 3, 4);
+      await requestDecryption(signers.alice, first);
+      await requestDecryption(signers.bob, second);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await framework.getExecutionStatsNames()).to.deep.eq([
+        "fn_1",
+        "fn_2",
+      ]);
+      expect((await revealStats("fn_1")).count).to.eq(1n);
+      expect((await revealStats("fn_2")).count).to.eq(1n);
+    });
+
+    it("emits ExecutionStatsRevealed with the revealed count", async function () {
+      const functionId = await submit(signers.alice, 1, 2);
+      await requestDecryption(signers.alice, functionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await (await framework.requestExecutionStatsDecryption("fn_1")).wait();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await framework.queryFilter(
+        framework.filters.ExecutionStatsRevealed("fn_1"),
+        fromBlock,
+      );
+      expect(events).to.have.length(1);
+      expect(events[0].args.count).to.eq(1n);
+    });
+
+    it("rejects reveals for functions that never executed", async function () {
+      await submit(signers.alice, 1, 2);
+
+      await expect(
+        framework.requestExecutionStatsDecryption("fn_1"),
+      ).to.be.revertedWith("Function not found");
+    });
+  });
+
+  describe("program inputs", function () {
+    async function execute(
+      signer: HardhatEthersSigner,
+      functionId: bigint,
+      inputs: number[],
+    ): Promise<bigint> {
+      const input = fhevm.createEncryptedInput(
+        frameworkAddress,
+        signer.address,
+      );
+      inputs.forEach((value) => input.add32(value));
+      const encrypted = await input.encrypt();
+      await (
+        await framework
+          .connect(signer)
+          .executeProgramWithInputs(
+            1,
+            functionId,
+            encrypted.handles,
+            encrypted.inputProof,
+          )
+      ).wait();
+      return framework.executionCount();
+    }
+
+    beforeEach(async function () {
+      const { instructions } = compileExpression(
+        "income > limit ? income - limit + p : x",
+        { inputs: ["income", "limit"] },
+      );
+      await framework.registerProgram("excess", instructions);
+    });
+
+    it("reads the caller's encrypted inputs with Arg instructions", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+
+      const over = await execute(signers.alice, functionId, [120, 100]);
+      const under = await execute(signers.alice, functionId, [80, 100]);
+
+      for (const [executionId, expected] of [
+        [over, 29n],
+        [under, 41n],
+      ]) {
+        const result = await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await framework.getExecutionResult(executionId),
+          frameworkAddress,
+          signers.alice,
+        );
+        expect(result).to.eq(expected);
+      }
+    });
+
+    it("reverts with Missing input when the program reads more inputs than sent", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+
+      await expect(
+        execute(signers.alice, functionId, [120]),
+      ).to.be.revertedWith("Missing input");
+    });
+
+    it("rejects input names that clash with the expression", function () {
+      expect(() =>
+        compileExpression("x + limit", { inputs: ["x", "limit"] }),
+      ).to.throw("Input name 'x' is already defined");
+      expect(() =>
+        compileExpression("let limit = 3; x + limit", { inputs: ["limit"] }),
+      ).to.throw("'limit' is an input name");
+
+      const p = new ProgramBuilder();
+      p.add(p.arg(0), p.arg(1));
+      expect(
+        compileExpression("a + b", { inputs: ["a", "b"] }).instructions,
+      ).to.deep.eq(p.build());
+    });
+
+    it("reveals the result to the executor through the oracle", async function () {
+      const functionId = await submit(signers.alice, 41, 9);
+      const executionId = await execute(signers.alice, functionId, [120, 100]);
+
+      await expect(
+        framework.connect(signers.bob).requestExecutionDecryption(executionId),
+      ).to.be.revertedWith("Not executor");
+      await expect(
+        framework.connect(signers.alice).requestExecutionDecryption(99),
+      ).to.be.revertedWith("Execution not found");
+
+      const client = FheServerlessClient.connect(
+        frameworkAddress,
+        signers.alice,
+      );
+      const request = await client.requestExecutionDecryption(executionId);
+      expect(request.executionId).to.eq(executionId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await client.getRevealedResult(executionId)).to.deep.eq({
+        value: 29,
+        revealed: true,
+      });
+      const revealed = await client.waitForExecutionResultRevealed(
+        executionId,
+        { fromBlock: request.blockNumber },
+      );
+      expect(revealed.result).to.eq(29);
+      await expect(
+        client.requestExecutionDecryption(executionId),
+      ).to.be.rejectedWith("The execution result has already been revealed");
+    });
+  });
+
+  describe("program evaluation", function () {
+    // Each program reads the function's registers (input 41, parameters 9)
+    // or two encrypted inputs, loaded into `x` and `y` by Arg instructions.
+    type Case = {
+      name: string;
+      inputs: number[];
+      build: (p: ProgramBuilder, x: number, y: number) => void;
+      expected: bigint;
+    };
+
+    const UINT32 = 2n ** 32n;
+
+    const CASES: Case[] = [
+      {
+        name: "Const",
+        inputs: [],
+        build: (p) => p.const(42),
+        expected: 42n,
+      },
+      {
+        name: "the input and parameters registers",
+        inputs: [],
+        build: (p) => p.add(p.input, p.parameters),
+        expected: 50n,
+      },
+      {
+        name: "Add",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.add(x, y),
+        expected: 1007n,
+      },
+      {
+        name: "scalar Add",
+        inputs: [1000, 7],
+        build: (p, x) => p.add(x, constant(5)),
+        expected: 1005n,
+      },
+      {
+        name: "Sub wrapping below zero",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.sub(y, x),
+        expected: UINT32 + 7n - 1000n,
+      },
+      {
+        name: "scalar Sub",
+        inputs: [1000, 7],
+        build: (p, x) => p.sub(x, constant(1)),
+        expected: 999n,
+      },
+      {
+        name: "Mul",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.mul(x, y),
+        expected: 7000n,
+      },
+      {
+        name: "scalar Mul",
+        inputs: [1000, 7],
+        build: (p, x) => p.mul(x, constant(3)),
+        expected: 3000n,
+      },
+      {
+        name: "Div",
+        inputs: [1000, 7],
+        build: (p, x) => p.div(x, 7),
+        expected: 142n,
+      },
+      {
+        name: "Rem",
+        inputs: [1000, 7],
+        build: (p, x) => p.rem(x, 7),
+        expected: 6n,
+      },
+      {
+        name: "Min",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.min(x, y),
+        expected: 7n,
+      },
+      {
+        name: "scalar Min",
+        inputs: [1000, 7],
+        build: (p, x) => p.min(x, constant(500)),
+        expected: 500n,
+      },
+      {
+        name: "Max",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.max(x, y),
+        expected: 1000n,
+      },
+      {
+        name: "scalar Max",
+        inputs: [1000, 7],
+        build: (p, _x, y) => p.max(y, constant(500)),
+        expected: 500n,
+      },
+      {
+        name: "Eq",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.eq(x, y)),
+        expected: 0n,
+      },
+      {
+        name: "scalar Eq",
+        inputs: [1000, 7],
+        build: (p, x) => p.cast(p.eq(x, constant(1000))),
+        expected: 1n,
+      },
+      {
+        name: "Ne",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.ne(x, y)),
+        expected: 1n,
+      },
+      {
+        name: "scalar Ne",
+        inputs: [1000, 7],
+        build: (p, _x, y) => p.cast(p.ne(y, constant(7))),
+        expected: 0n,
+      },
+      {
+        name: "Lt",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.lt(y, x)),
+        expected: 1n,
+      },
+      {
+        name: "scalar Lt",
+        inputs: [1000, 7],
+        build: (p, x) => p.cast(p.lt(x, constant(1000))),
+        expected: 0n,
+      },
+      {
+        name: "Le",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.le(x, y)),
+        expected: 0n,
+      },
+      {
+        name: "scalar Le",
+        inputs: [1000, 7],
+        build: (p, x) => p.cast(p.le(x, constant(1000))),
+        expected: 1n,
+      },
+      {
+        name: "Gt",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.gt(x, y)),
+        expected: 1n,
+      },
+      {
+        name: "scalar Gt",
+        inputs: [1000, 7],
+        build: (p, _x, y) => p.cast(p.gt(y, constant(7))),
+        expected: 0n,
+      },
+      {
+        name: "Ge",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.ge(y, x)),
+        expected: 0n,
+      },
+      {
+        name: "scalar Ge",
+        inputs: [1000, 7],
+        build: (p, _x, y) => p.cast(p.ge(y, constant(7))),
+        expected: 1n,
+      },
+      {
+        name: "And",
+        inputs: [1000, 255],
+        build: (p, x, y) => p.and(x, y),
+        expected: 232n,
+      },
+      {
+        name: "Or",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.or(x, y),
+        expected: 1007n,
+      },
+      {
+        name: "scalar Xor",
+        inputs: [1000, 7],
+        build: (p, x) => p.xor(x, constant(0xf0f)),
+        expected: 3303n,
+      },
+      {
+        name: "Not",
+        inputs: [1000, 7],
+        build: (p, x) => p.not(x),
+        expected: UINT32 - 1n - 1000n,
+      },
+      {
+        name: "Neg",
+        inputs: [1000, 7],
+        build: (p, _x, y) => p.neg(y),
+        expected: UINT32 - 7n,
+      },
+      {
+        name: "scalar Shl",
+        inputs: [1000, 7],
+        build: (p, x) => p.shl(x, constant(3)),
+        expected: 8000n,
+      },
+      {
+        name: "Shr by a register",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.shr(x, y),
+        expected: 7n,
+      },
+      {
+        name: "scalar Rotl",
+        inputs: [0x80000001, 1],
+        build: (p, x) => p.rotl(x, constant(1)),
+        expected: 3n,
+      },
+      {
+        name: "Rotr by a register",
+        inputs: [0x80000001, 1],
+        build: (p, x, y) => p.rotr(x, y),
+        expected: 0xc0000000n,
+      },
+      {
+        name: "Select",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.select(p.lt(x, y), x, y),
+        expected: 7n,
+      },
+      {
+        name: "Select between booleans",
+        inputs: [1000, 7],
+        build: (p, x, y) =>
+          p.cast(p.select(p.gt(x, y), p.ne(x, y), p.eq(x, y))),
+        expected: 1n,
+      },
+      {
+        name: "boolean And, Or and Xor",
+        inputs: [1000, 7],
+        build: (p, x, y) => {
+          const gt = p.gt(x, y);
+          const lt = p.lt(x, y);
+          // (gt & lt) | (gt ^ lt) == true
+          p.cast(p.or(p.and(gt, lt), p.xor(gt, lt)));
+        },
+        expected: 1n,
+      },
+      {
+        name: "boolean Not and scalar And",
+        inputs: [1000, 7],
+        build: (p, x, y) => p.cast(p.and(p.not(p.lt(x, y)), constant(1))),
+        expected: 1n,
+      },
+    ];
+
+    async function run(
+      instructions: Instruction[],
+      inputs: number[],
+    ): Promise<bigint> {
+      const functionId = await submit(signers.alice, 41, 9);
+      await (await framework.registerProgram("case", instructions)).wait();
+      const programId = await framework.programCount();
+
+      if (inputs.length === 0) {
+        await (
+          await framework
+            .connect(signers.alice)
+            .executeProgram(programId, functionId)
+        ).wait();
+      } else {
+        const input = fhevm.createEncryptedInput(
+          frameworkAddress,
+          signers.alice.address,
+        );
+        inputs.forEach((value) => input.add32(value));
+        const encrypted = await input.encrypt();
+        await (
+          await framework
+            .connect(signers.alice)
+            .executeProgramWithInputs(
+              programId,
+              functionId,
+              encrypted.handles,
+              encrypted.inputProof,
+            )
+        ).wait();
+      }
+
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await framework.getExecutionResult(await framework.executionCount()),
+        frameworkAddress,
+        signers.alice,
+      );
+    }
+
+    for (const { name, inputs, build, expected } of CASES) {
+      it(`evaluates ${name}`, async function () {
+        const p = new ProgramBuilder();
+        // Programs without inputs run through executeProgram
+        const [x, y] = inputs.map((_, i) => p.arg(i));
+        build(p, x, y);
+        expect(await run(p.build(), inputs)).to.eq(expected);
+      });
+    }
+
+    const instruction = (fields: Partial<Instruction>): Instruction => ({
+      op: Op.Add,
+      a: 0,
+      b: 0,
+      c: 0,
+      scalar: false,
+      imm: 0,
+      ...fields,
+    });
+
+    const REJECTED: {
+      name: string;
+      instructions: Instruction[];
+      reason: string;
+    }[] = [
+      { name: "empty programs", instructions: [], reason: "Empty program" },
+      {
+        name: "programs over the length limit",
+        instructions: Array.from({ length: 65 }, () => instruction({})),
+        reason: "Program too long",
+      },
+      {
+        name: "registers not written yet",
+        instructions: [instruction({ a: 2 })],
+        reason: "Invalid operand",
+      },
+      {
+        name: "a right-hand register not written yet",
+        instructions: [instruction({ b: 9 })],
+        reason: "Invalid operand",
+      },
+      {
+        name: "Select branches not written yet",
+        instructions: [
+          instruction({ op: Op.Eq, b: 1 }),
+          instruction({ op: Op.Select, a: 2, b: 0, c: 5 }),
+        ],
+        reason: "Invalid operand",
+      },
+      {
+        name: "a scalar Select",
+        instructions: [
+          instruction({ op: Op.Eq, b: 1 }),
+          instruction({ op: Op.Select, a: 2, scalar: true }),
+        ],
+        reason: "Select takes registers",
+      },
+      {
+        name: "arithmetic on booleans",
+        instructions: [
+          instruction({ op: Op.Eq, b: 1 }),
+          instruction({ op: Op.Add, a: 2, b: 0 }),
+        ],
+        reason: "Type mismatch",
+      },
+      {
+        name: "a register divisor",
+        instructions: [instruction({ op: Op.Div, b: 1 })],
+        reason: "Divisor must be a non-zero constant",
+      },
+      {
+        name: "division by zero",
+        instructions: [instruction({ op: Op.Rem, scalar: true, imm: 0 })],
+        reason: "Divisor must be a non-zero constant",
+      },
+      {
+        name: "shift amounts over 255",
+        instructions: [instruction({ op: Op.Shl, scalar: true, imm: 256 })],
+        reason: "Shift amount out of range",
+      },
+      {
+        name: "boolean results",
+        instructions: [instruction({ op: Op.Eq, b: 1 })],
+        reason: "Result must be euint32",
+      },
+    ];
+
+    for (const { name, instructions, reason } of REJECTED) {
+      it(`rejects ${name} with ${reason}`, async function () {
+        await expect(
+          framework.registerProgram("invalid", instructions),
+        ).to.be.revertedWith(reason);
+      });
+    }
+
+    it("rejects unknown ops", async function () {
+      await expect(
+        framework.registerProgram("invalid", [instruction({ op: Op.Arg + 1 })]),
+      ).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+
+import {
+  FheServerlessFramework,
+  FheServerlessFramework__factory,
+} from "../types";
+
+describe("fhe:* function tasks", function () {
+  let framework: FheServerlessFramework;
+  let frameworkAddress: string;
+  let output: string[];
+  const log = console.log;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "FheServerlessFramework",
+    )) as FheServerlessFramework__factory;
+    framework = (await factory.deploy()) as FheServerlessFramework;
+    frameworkAddress = await framework.getAddress();
+
+    output = [];
+    console.log = (line: string) => output.push(line);
+  });
+
+  afterEach(function () {
+    console.log = log;
+  });
+
+  const run = (name: string, args: Record<string, unknown> = {}) =>
+    hre.run(name, { framework: frameworkAddress, ...args });
+
+  it("submits, decrypts and reports the status of a function", async function () {
+    const submitted = await run("fhe:submit", { input: 41, parameters: 9 });
+    expect(submitted.functionId).to.eq(1n);
+    expect(JSON.parse(output[0]).functionId).to.eq("1");
+
+    const pending = await run("fhe:status", { id: 1n });
+    expect(pending.executed).to.eq(false);
+    expect(pending.status).to.eq("pending");
+    expect(pending.input).to.eq(null);
+
+    const decrypted = await run("fhe:decrypt", { id: 1n });
+    expect(decrypted.input).to.eq(41);
+    expect(decrypted.parameters).to.eq(9);
+
+    const status = await run("fhe:status", { id: 1n });
+    expect(status).to.include({ executed: true, input: 41, parameters: 9 });
+    expect(status.owner).to.eq((await ethers.getSigners())[0].address);
+  });
+
+  it("rejects values that do not fit a uint32", async function () {
+    await expect(
+      run("fhe:submit", { input: 2 ** 32, parameters: 0 }),
+    ).to.be.rejectedWith("--input must be a uint32");
+  });
+
+  it("reviews functions", async function () {
+    const [, alice] = await ethers.getSigners();
+    await run("fhe:submit", { input: 1, parameters: 2 });
+    await run("fhe:reviewer", { account: alice.address });
+    expect(await framework.reviewers(alice.address)).to.eq(true);
+
+    const verified = await run("fhe:review", {
+      id: 1n,
+      status: "verified",
+      reason: "audited",
+    });
+    expect(verified).to.include({
+      from: "pending",
+      to: "verified",
+      reason: "audited",
+    });
+    expect((await run("fhe:status", { id: 1n })).status).to.eq("verified");
+
+    await expect(
+      run("fhe:review", { id: 1n, status: "pending" }),
+    ).to.be.rejectedWith("cannot move to that status");
+    await expect(
+      run("fhe:review", { id: 1n, status: "archived" }),
+    ).to.be.rejectedWith("--status must be");
+  });
+
+  it("reveals execution stats", async function () {
+    await run("fhe:submit", { input: 1, parameters: 2 });
+    await run("fhe:decrypt", { id: 1n });
+
+    const [hidden] = await run("fhe:stats");
+    expect(hidden).to.include({ fnName: "fn_1", revealedAtBlock: 0 });
+    expect(hidden.handle).to.match(/^0x[0-9a-f]{64}$/);
+
+    const [revealed] = await run("fhe:stats", { id: "1", reveal: true });
+    expect(revealed.count).to.eq(1);
+    expect(revealed.revealedAtBlock).to.be.gt(0);
+  });
+
+  it("lists submitted functions by owner", async function () {
+    const [, alice] = await ethers.getSigners();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    await run("fhe:submit", { input: 1, parameters: 2 });
+    await run("fhe:submit", { input: 3, parameters: 4 });
+    await run("fhe:decrypt", { id: 2n });
+
+    const all = await run("fhe:list", { fromBlock });
+    expect(all.map((fn: { functionId: bigint }) => fn.functionId)).to.deep.eq([
+      1n,
+      2n,
+    ]);
+    expect(all[1].executed).to.eq(true);
+    expect(
+      await run("fhe:list", { fromBlock, owner: alice.address }),
+    ).to.deep.eq([]);
+  });
+
+  it("lists from the deployment block by default", async function () {
+    await run("fhe:submit", { input: 1, parameters: 2 });
+    await hre.deployments.save("FheServerlessFramework", {
+      address: frameworkAddress,
+      abi: [],
+      receipt: {
+        blockNumber: (await ethers.provider.getBlockNumber()) + 1,
+      } as any,
+    });
+    try {
+      await run("fhe:submit", { input: 3, parameters: 4 });
+      const listed = await hre.run("fhe:list");
+      expect(
+        listed.map((fn: { functionId: bigint }) => fn.functionId),
+      ).to.deep.eq([2n]);
+    } finally {
+      await hre.deployments.delete("FheServerlessFramework");
+    }
+  });
+});
@@ -0,0 +1,329 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import fs from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { ethers, fhevm } from "hardhat";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { Indexer } from "../src/indexer/Indexer";
+import { IndexerStore } from "../src/indexer/IndexerStore";
+import { createIndexerServer } from "../src/indexer/server";
+import { ProgramBuilder } from "../src/sdk";
+import {
+  FheServerlessFramework,
+  FheServerlessFramework__factory,
+} from "../types";
+
+describe("Indexer", function () {
+  let framework: FheServerlessFramework;
+  let adapter: Contract;
+  let store: IndexerStore;
+  let indexer: Indexer;
+  let fromBlock: number;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [signer] = await ethers.getSigners();
+    fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const factory = (await ethers.getContractFactory(
+      "FheServerlessFramework",
+    )) as FheServerlessFramework__factory;
+    framework = (await factory.deploy()) as FheServerlessFramework;
+    adapter = (await new ethers.ContractFactory(
+      adapterArtifact.abi,
+      adapterArtifact.bytecode,
+      signer,
+    ).deploy()) as Contract;
+
+    store = await IndexerStore.open();
+    indexer = new Indexer(ethers.provider, store, {
+      framework: await framework.getAddress(),
+      adapter: await adapter.getAddress(),
+      fromBlock,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  async function submit(input: number, parameters: number): Promise<bigint> {
+    const [signer] = await ethers.getSigners();
+    const encrypted = await fhevm
+      .createEncryptedInput(await framework.getAddress(), signer.address)
+      .add32(input)
+      .add32(parameters)
+      .encrypt();
+    await (
+      await framework.submitEncryptedFunction(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+      )
+    ).wait();
+    return framework.functionCount();
+  }
+
+  async function storeRecord(id: string, record: Record<string, unknown>) {
+    await (
+      await adapter.setData(
+        `function_${id}`,
+        ethers.toUtf8Bytes(JSON.stringify(record)),
+      )
+    ).wait();
+  }
+
+  it("joins frontend records with their on-chain decryption", async function () {
+    const onChainId = await submit(41, 9);
+    await storeRecord("a", {
+      name: "threshold",
+      category: "Finance",
+      onChainId: onChainId.toString(),
+      handles: ["0x01", "0x02"],
+      timestamp: 1700000000,
+    });
+    await (await framework.requestFunctionDecryption(onChainId)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (await framework.setFunctionStatus(onChainId, 1, "audited")).wait();
+
+    expect(await indexer.poll()).to.be.gt(0);
+
+    const fn = store.getFunction("a");
+    expect(fn).to.include({
+      name: "threshold",
+      status: "verified",
+      executed: true,
+      input: 41,
+      parameters: 9,
+    });
+    const [request] = store.decryptionRequests().items;
+    expect(request).to.include({
+      kind: "function",
+      functionId: onChainId.toString(),
+      status: "fulfilled",
+    });
+  });
+
+  it("records execution results revealed by the oracle", async function () {
+    const [signer] = await ethers.getSigners();
+    const functionId = await submit(41, 9);
+    const p = new ProgramBuilder();
+    p.add(p.input, p.arg(0));
+    await (await framework.registerProgram("sum", p.build())).wait();
+    const encrypted = await fhevm
+      .createEncryptedInput(await framework.getAddress(), signer.address)
+      .add32(1)
+      .encrypt();
+    await (
+      await framework.executeProgramWithInputs(
+        1,
+        functionId,
+        encrypted.handles,
+        encrypted.inputProof,
+      )
+    ).wait();
+    await (await framework.requestExecutionDecryption(1)).wait();
+    await indexer.poll();
+
+    const [pending] = store.decryptionRequests({ kind: "execution" }).items;
+    expect(pending).to.include({
+      executionId: "1",
+      functionId: functionId.toString(),
+      status: "pending",
+    });
+    expect(store.executions().items[0].result).to.eq(null);
+
+    await fhevm.awaitDecryptionOracle();
+    await indexer.poll();
+
+    expect(store.executions().items[0]).to.include({
+      executor: signer.address,
+      result: 42,
+    });
+    expect(
+      store.decryptionRequests({ kind: "execution" }).items[0].status,
+    ).to.eq("fulfilled");
+  });
+
+  it("takes the status of submitted functions from the framework", async function () {
+    const onChainId = await submit(1, 2);
+    // Anyone can write the adapter record, so its status is ignored.
+    await storeRecord("a", {
+      name: "a",
+      onChainId: onChainId.toString(),
+      status: "verified",
+    });
+    await storeRecord("legacy", { name: "legacy", status: "verified" });
+    await indexer.poll();
+
+    expect(store.getFunction("a")?.status).to.eq("pending");
+    expect(store.getFunction("legacy")?.status).to.eq("verified");
+
+    await (await framework.setFunctionStatus(onChainId, 1, "audited")).wait();
+    await (
+      await framework.setFunctionStatus(onChainId, 3, "replaced by v2")
+    ).wait();
+    await indexer.poll();
+
+    expect(store.getFunction("a")?.status).to.eq("deprecated");
+    expect(
+      store.functions({ status: "deprecated" }).items.map((fn) => fn.id),
+    ).to.deep.eq(["a"]);
+    const changes = store.statusChanges(onChainId.toString());
+    expect(
+      changes.map(({ from, to, reason }) => [from, to, reason]),
+    ).to.deep.eq([
+      ["pending", "verified", "audited"],
+      ["verified", "deprecated", "replaced by v2"],
+    ]);
+  });
+
+  it("filters and paginates newest first", async function () {
+    for (const [id, category] of [
+      ["a", "Finance"],
+      ["b", "Health"],
+      ["c", "Finance"],
+    ]) {
+      await storeRecord(id, { name: id, category });
+    }
+    await indexer.poll();
+
+    const first = store.functions({}, { limit: 2 });
+    expect(first.items.map((fn) => fn.id)).to.deep.eq(["c", "b"]);
+    const second = store.functions({}, { limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map((fn) => fn.id)).to.deep.eq(["a"]);
+    expect(second.nextCursor).to.eq(null);
+
+    const finance = store.functions({ category: "Finance" });
+    expect(finance.items.map((fn) => fn.id)).to.deep.eq(["c", "a"]);
+  });
+
+  it("searches, filters by date and sorts by name", async function () {
+    for (const [id, name, description, timestamp] of [
+      ["a", "Tax_rate", "Income brackets", 100],
+      ["b", "loan", "Monthly tax on interest", 200],
+      ["c", "Risk", "Credit score", 300],
+    ] as const) {
+      await storeRecord(id, { name, description, timestamp });
+    }
+    await indexer.poll();
+
+    const ids = (page: { items: { id: string }[] }) =>
+      page.items.map((fn) => fn.id);
+    expect(ids(store.functions({ search: "TAX" }))).to.deep.eq(["b", "a"]);
+    expect(ids(store.functions({ search: "tax interest" }))).to.deep.eq(["b"]);
+    expect(ids(store.functions({ search: "x_r" }))).to.deep.eq(["a"]);
+    expect(ids(store.functions({ search: "%" }))).to.deep.eq([]);
+    expect(ids(store.functions({ from: 150, to: 300 }))).to.deep.eq(["c", "b"]);
+    expect(store.getFunction("a")?.description).to.eq("Income brackets");
+
+    const first = store.functions({}, { sort: "name", limit: 2 });
+    expect(ids(first)).to.deep.eq(["b", "c"]);
+    const second = store.functions(
+      {},
+      { sort: "name", limit: 2, cursor: first.nextCursor! },
+    );
+    expect(ids(second)).to.deep.eq(["a"]);
+    expect(ids(store.functions({}, { sort: "oldest" }))).to.deep.eq([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(() =>
+      store.functions(
+        {},
+        { sort: "name", cursor: store.functions({}, { limit: 1 }).nextCursor! },
+      ),
+    ).to.throw("Invalid cursor");
+  });
+
+  it("rolls back events of reorged blocks", async function () {
+    await storeRecord("kept", { name: "kept" });
+    await indexer.poll();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await storeRecord("orphaned", { name: "orphaned" });
+    await indexer.poll();
+    expect(store.getFunction("orphaned")).to.not.eq(null);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await storeRecord("replacement", { name: "replacement" });
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+    await indexer.poll();
+
+    expect(store.getFunction("orphaned")).to.eq(null);
+    expect(store.getFunction("kept")).to.not.eq(null);
+    expect(store.getFunction("replacement")).to.not.eq(null);
+  });
+
+  it("persists the index and refuses other contracts", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const file = path.join(dir, "index.sqlite");
+    try {
+      await storeRecord("a", { name: "a" });
+      const persisted = await IndexerStore.open(file);
+      await new Indexer(ethers.provider, persisted, {
+        adapter: await adapter.getAddress(),
+        fromBlock,
+      }).poll();
+      persisted.close();
+
+      const reopened = await IndexerStore.open(file);
+      expect(reopened.getFunction("a")?.name).to.eq("a");
+      await expect(
+        new Indexer(ethers.provider, reopened, {
+          adapter: await framework.getAddress(),
+        }).poll(),
+      ).to.be.rejectedWith("Indexer database was built for adapter");
+      reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("serves REST and GraphQL", async function () {
+    await storeRecord("a", { name: "a", category: "Finance" });
+    await storeRecord("b", { name: "b", category: "Health" });
+    await indexer.poll();
+
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const page = (await (
+        await fetch(`${url}/functions?limit=1`)
+      ).json()) as any;
+      expect(page.items.map((fn: { id: string }) => fn.id)).to.deep.eq(["b"]);
+      expect(page.nextCursor).to.be.a("string");
+
+      expect((await fetch(`${url}/functions/a`)).status).to.eq(200);
+      expect((await fetch(`${url}/functions/missing`)).status).to.eq(404);
+      expect((await fetch(`${url}/functions?cursor=bogus`)).status).to.eq(400);
+      expect((await fetch(`${url}/functions?sort=size`)).status).to.eq(400);
+      const sorted = (await (
+        await fetch(`${url}/functions?sort=name&search=a`)
+      ).json()) as any;
+      expect(sorted.items.map((fn: { id: string }) => fn.id)).to.deep.eq(["a"]);
+
+      const response = await fetch(`${url}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query:
+            "query ($category: String) { functions(category: $category) { items { id name executed } } }",
+          variables: { category: "Finance" },
+        }),
+      });
+      expect(((await response.json()) as any).data.functions.items).to.deep.eq([
+        { id: "a", name: "a", executed: false },
+      ]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { MockDecryptionOracle } from "../src/oracle/MockDecryptionOracle";
+import {
+  FheServerlessFramework,
+  FheServerlessFramework__factory,
+} from "../types";
+
+describe("MockDecryptionOracle", function () {
+  let framework: FheServerlessFramework;
+  let frameworkAddress: string;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "FheServerlessFramework",
+    )) as FheServerlessFramework__factory;
+    framework = (await factory.deploy()) as FheServerlessFramework;
+    frameworkAddress = await framework.getAddress();
+  });
+
+  async function submitAndRequest(value = 0n): Promise<bigint> {
+    const [signer] = await ethers.getSigners();
+    const encrypted = await fhevm
+      .createEncryptedInput(frameworkAddress, signer.address)
+      .add32(41)
+      .add32(9)
+      .encrypt();
+    await (
+      await framework.submitEncryptedFunction(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+      )
+    ).wait();
+
+    const functionId = await framework.functionCount();
+    const receipt = await (
+      await framework.requestFunctionDecryption(functionId, { value })
+    ).wait();
+    return fhevm.parseDecryptionRequestEvents(receipt?.logs)[0].requestID;
+  }
+
+  it("fulfils pending requests of the watched contract", async function () {
+    const oracle = new MockDecryptionOracle(hre, {
+      contractAddress: frameworkAddress,
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    const requestId = await submitAndRequest();
+
+    const results = await oracle.poll();
+    expect(results).to.deep.eq([
+      { requestId, contractAddress: frameworkAddress, status: "fulfilled" },
+    ]);
+    expect((await framework.getDecryptedFunction(1)).executed).to.eq(true);
+  });
+
+  it("delivers an invalid proof first when failure is injected", async function () {
+    const oracle = new MockDecryptionOracle(hre, {
+      failureRate: 1,
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    await submitAndRequest();
+
+    expect((await oracle.poll()).map((r) => r.status)).to.deep.eq([
+      "injected-failure",
+    ]);
+    expect((await framework.getDecryptedFunction(1)).executed).to.eq(false);
+
+    expect((await oracle.poll()).map((r) => r.status)).to.deep.eq([
+      "fulfilled",
+    ]);
+    const [input, parameters] = await framework.getDecryptedFunction(1);
+    expect(input).to.eq(41n);
+    expect(parameters).to.eq(9n);
+  });
+
+  it("leaves withheld failures to time out and be refunded", async function () {
+    await framework.setPrices(0, 1, 3600);
+    const oracle = new MockDecryptionOracle(hre, {
+      failRequestIds: [0n],
+      failureTimeoutMs: Infinity,
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    const requestId = await submitAndRequest(2n);
+    expect(requestId).to.eq(0n);
+
+    expect((await oracle.poll()).map((r) => r.status)).to.deep.eq([
+      "injected-failure",
+    ]);
+    expect(await oracle.poll()).to.deep.eq([]);
+    expect(oracle.pendingRequests).to.have.length(1);
+
+    await time.increase(3601);
+    const [signer] = await ethers.getSigners();
+    await expect(framework.refundDecryption(requestId))
+      .to.emit(framework, "EscrowRefunded")
+      .withArgs(requestId, signer.address, 2n);
+
+    // The late answer is rejected once the escrow was refunded.
+    expect((await oracle.flush()).map((r) => r.status)).to.deep.eq([
+      "reverted",
+    ]);
+    expect((await framework.getDecryptedFunction(1)).executed).to.eq(false);
+  });
+
+  it("holds requests back until the delay has passed", async function () {
+    const oracle = new MockDecryptionOracle(hre, {
+      delayMs: 60_000,
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    await submitAndRequest();
+
+    expect(await oracle.poll()).to.deep.eq([]);
+    expect(oracle.pendingRequests).to.have.length(1);
+    expect((await framework.getDecryptedFunction(1)).executed).to.eq(false);
+
+    // Don't leave the request pending for later suites.
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  it("answers every request once the oldest one is due", async function () {
+    const oracle = new MockDecryptionOracle(hre, {
+      delayMs: 200,
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    await submitAndRequest();
+    expect(await oracle.poll()).to.deep.eq([]);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    await submitAndRequest();
+    expect((await oracle.poll()).map((r) => r.status)).to.deep.eq([
+      "fulfilled",
+      "fulfilled",
+    ]);
+  });
+});